@@ -1,324 +1,53 @@
-// Interface definitions
-interface Todo {
-  id: string;
-  text: string;
-  title?: string;
-  created: number;
-  completed: boolean;
-  completedAt?: number;
-  timeExpired?: boolean;
-  dueDate?: number;
-  notifiedAt?: number;
-  deadline?: string;
-  category?: string;
-  lastChecked?: number;
-  customBlameMessages?: string[];
-  remainingTime?: number;
-}
-
-interface StoredNotification {
-  message: string;
-  timestamp: number;
-  displayed: boolean;
-}
-
-interface BlameMessage {
-  message: string;
-  timestamp: number;
-}
-
-interface AIConfig {
-  enabled: boolean;
-  apiKey: string;
-  provider: string;
-  endpoint?: string;
-  autoDetectTasks?: boolean;
-}
-
-// Default blame messages if AI is not available
-const DEFAULT_BLAME_MESSAGES = [
-  "⚠️ Công việc của bạn đã quá hạn!",
-  "⏰ Bạn đã không hoàn thành công việc đúng hạn.",
-  "🔥 Thời gian đã hết! Công việc chưa hoàn thành.",
-  "😱 Bạn đã trễ hạn cho công việc này rồi!"
-];
-
-// Import the blame message prompt from the taskAnalysis file
-import { BLAME_MESSAGE_PROMPT, formatBlamePrompt as originalFormatBlamePrompt } from './prompts/taskAnalysis';
+// Shared AI helpers (same provider adapters as the popup) and timebox rules
+import { takeBlameMessage, prefetchBlameMessages, clearBlameMessages } from './utils/blameCache';
+import { getExpiryTime } from './utils/timebox';
+import { getDueEscalation, getOverdueTime, formatFallbackReminder, ESCALATION_EXPIRED } from './utils/escalation';
+import { loadSettings } from './utils/settings';
+import { createNextOccurrence } from './utils/recurrence';
+import { getTaskIdFromNotification } from './utils/taskActions';
+import { isQuietTime, queueReminder } from './utils/quietHours';
+import { createDailyDigest, formatDigestItems, getDayKey, isDigestDue } from './utils/dailyDigest';
+import {
+  getTasks,
+  updateTasks,
+  setTaskCompleted,
+  snoozeTaskById,
+  purgeExpiredTrash,
+  handleTaskRequest
+} from './storage/taskRepository';
+import { isTaskRequest } from './storage/taskMessages';
+import { resolvePersona, getPersona, Persona } from './prompts/personas';
+import { MessageKey, createTranslator, translate } from './localization';
+import { readStorage, writeStorage } from './storage/storage';
+import { ensureMigrated, DEFAULT_AI_CONFIG } from './storage/migrations';
+import { AIConfig, AppSettings, PendingBlameMessage, Todo } from './types/shared';
 
 // Helper function to get a random item from an array
 const getRandomItem = <T>(arr: T[]): T => {
   return arr[Math.floor(Math.random() * arr.length)];
 };
 
-// Simple API call to OpenAI
-const generateWithOpenAI = async (prompt: string, apiKey: string): Promise<string[]> => {
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          { role: 'system', content: BLAME_MESSAGE_PROMPT },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.7,
-        max_tokens: 150
-      })
-    });
-    
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    if (data && data.choices && data.choices[0] && data.choices[0].message) {
-      const content = data.choices[0].message.content.trim();
-      
-      // Try to parse JSON response
-      try {
-        const jsonResponse = JSON.parse(content);
-        if (jsonResponse && jsonResponse.blameMessages && Array.isArray(jsonResponse.blameMessages)) {
-          return jsonResponse.blameMessages.length > 0 ? jsonResponse.blameMessages : DEFAULT_BLAME_MESSAGES;
-        }
-      } catch (parseError) {
-        console.error('Error parsing JSON from API response:', parseError);
-        // Fall back to line splitting if JSON parsing fails
-        const messages = content.split('\n').filter((line: string) => line.trim().length > 0);
-        return messages.length > 0 ? messages : DEFAULT_BLAME_MESSAGES;
-      }
-    }
-    
-    return DEFAULT_BLAME_MESSAGES;
-  } catch (error) {
-    console.error('Error calling OpenAI:', error);
-    return DEFAULT_BLAME_MESSAGES;
-  }
-};
+// A very simple, small base64 encoded icon (1x1 pixel transparent PNG)
+// This is guaranteed to work across all Chrome versions
+const NOTIFICATION_ICON = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
 
-// Simple API call to OpenRouter
-const generateWithOpenRouter = async (prompt: string, apiKey: string): Promise<string[]> => {
-  try {
-    console.log('Starting OpenRouter API call with prompt:', prompt.substring(0, 50) + '...');
-    
-    // The prompt should already be formatted properly from formatBlamePrompt
-    
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-        'HTTP-Referer': 'https://github.com/khoatran3005/tasktroll', // Required by OpenRouter
-        'X-Title': 'TaskTroll Chrome Extension'  // Helps identify your app in OpenRouter logs
-      },
-      body: JSON.stringify({
-        model: 'anthropic/claude-3-haiku', // Using Claude for better JSON formatting
-        messages: [
-          { role: 'user', content: prompt } // Use the prompt directly as provided by formatBlamePrompt
-        ],
-        temperature: 0.7,
-        max_tokens: 300,
-        response_format: { type: "json_object" } // Force JSON response
-      })
-    });
-    
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    console.log('OpenRouter API response data:', data);
-    
-    // Extract content from response
-    let content = '';
-    if (data && data.choices && data.choices[0] && data.choices[0].message) {
-      if (typeof data.choices[0].message.content === 'string') {
-        content = data.choices[0].message.content.trim();
-      } else if (Array.isArray(data.choices[0].message.content)) {
-        // For array-based content (Gemini format)
-        for (const part of data.choices[0].message.content) {
-          if (part.type === 'text') {
-            content += part.text;
-          }
-        }
-        content = content.trim();
-      }
-    }
-    
-    console.log('Raw model response:', content);
-    
-    // Parse JSON response
-    try {
-      // Look for JSON-like content
-      const jsonMatch = content.match(/\{[\s\S]*?\}/);
-      if (jsonMatch) {
-        const jsonStr = jsonMatch[0];
-        try {
-          const jsonResponse = JSON.parse(jsonStr);
-          if (jsonResponse && jsonResponse.blameMessages && Array.isArray(jsonResponse.blameMessages)) {
-            const validMessages = jsonResponse.blameMessages
-              .filter((msg: string) => typeof msg === 'string' && msg.trim().length > 0)
-              .map((msg: string) => msg.trim());
-            
-            if (validMessages.length > 0) {
-              console.log('Successfully parsed blame messages from JSON:', validMessages);
-              return validMessages;
-            }
-          }
-        } catch (innerError) {
-          console.error('Error parsing extracted JSON:', innerError);
-        }
-      }
-      
-      // Fallback: check for bulleted lists or numbered lists
-      const lines = content.split('\n')
-        .map((line: string) => line.trim())
-        .filter((line: string) => line.length > 0 && (line.startsWith('-') || line.startsWith('•') || /^\d+[\.\)]/.test(line)));
-      
-      if (lines.length > 0) {
-        // Clean up the bullet points or numbers
-        const cleanedLines = lines.map((line: string) => 
-          line.replace(/^[-•]|^\d+[\.\)]/, '').trim()
-        );
-        console.log('Extracted messages from bullet points:', cleanedLines);
-        return cleanedLines;
-      }
-      
-      // Last resort: just split by newlines
-      const allLines = content.split('\n')
-        .map((line: string) => line.trim())
-        .filter((line: string) => 
-          line.length > 0 && 
-          !line.includes('{') && 
-          !line.includes('}') && 
-          !line.includes('blameMessages') &&
-          line.length < 150
-        );
-      
-      if (allLines.length > 0) {
-        console.log('Using plain text lines as messages:', allLines);
-        return allLines;
-      }
-    } catch (parseError) {
-      console.error('Error processing model response:', parseError);
-    }
-    
-    // If all parsing attempts fail, return default messages
-    console.warn('Failed to extract blame messages, using defaults');
-    return DEFAULT_BLAME_MESSAGES;
-  } catch (error) {
-    console.error('Error calling OpenRouter:', error);
-    return DEFAULT_BLAME_MESSAGES;
-  }
-};
-
-// Simple API call to Gemini
-const generateWithGemini = async (prompt: string, apiKey: string): Promise<string[]> => {
-  try {
-    console.log('Starting Gemini API call with prompt:', prompt.substring(0, 50) + '...');
-    
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              { text: prompt } // Use the formatted prompt directly
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.7,
-          maxOutputTokens: 300
-        }
-      })
-    });
-    
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    if (data && data.candidates && data.candidates[0] && data.candidates[0].content && data.candidates[0].content.parts) {
-      const content = data.candidates[0].content.parts[0].text.trim();
-      
-      // Try to parse JSON response
-      try {
-        const jsonResponse = JSON.parse(content);
-        if (jsonResponse && jsonResponse.blameMessages && Array.isArray(jsonResponse.blameMessages)) {
-          return jsonResponse.blameMessages.length > 0 ? jsonResponse.blameMessages : DEFAULT_BLAME_MESSAGES;
-        }
-      } catch (parseError) {
-        console.error('Error parsing JSON from API response:', parseError);
-        // Fall back to line splitting if JSON parsing fails
-        const messages = content.split('\n').filter((line: string) => line.trim().length > 0);
-        return messages.length > 0 ? messages : DEFAULT_BLAME_MESSAGES;
-      }
-    }
-    
-    return DEFAULT_BLAME_MESSAGES;
-  } catch (error) {
-    console.error('Error calling Gemini:', error);
-    return DEFAULT_BLAME_MESSAGES;
-  }
-};
-
-// Use the original formatBlamePrompt from taskAnalysis.ts
-const formatBlamePrompt = (task: { text: string, category?: string, deadline?: string }) => {
-  return originalFormatBlamePrompt({
-    text: task.text,
-    category: task.category || 'general',
-    deadline: task.deadline
-  });
-};
-
-// Function to safely generate blame messages with AI
-const generateBlameMessage = async (
-  task: Todo,
-  aiConfig: AIConfig
-): Promise<string[]> => {
-  try {
-    if (!aiConfig.enabled || !aiConfig.apiKey) {
-      console.log('AI not enabled or no API key, using default blame messages');
-      return DEFAULT_BLAME_MESSAGES;
-    }
-    
-    const formatPrompt = formatBlamePrompt({
-      text: task.text,
-      category: task.category || 'general',
-      deadline: task.deadline
-    });
-    
-    let apiEndpoint = '';
-    let requestBody = {};
-    
-    switch (aiConfig.provider) {
-      case 'openai':
-        return await generateWithOpenAI(formatPrompt, aiConfig.apiKey);
-      case 'openrouter':
-        return await generateWithOpenRouter(formatPrompt, aiConfig.apiKey);
-      case 'gemini':
-        return await generateWithGemini(formatPrompt, aiConfig.apiKey);
-      default:
-        return DEFAULT_BLAME_MESSAGES;
-    }
-  } catch (error) {
-    console.error('Error generating blame message:', error);
-    return DEFAULT_BLAME_MESSAGES;
-  }
-};
+// Chrome shows at most two buttons per notification, so "Snooze 1 h" lives in the popup
+const NOTIFICATION_BUTTONS: { titleKey: MessageKey; snoozeMinutes?: number }[] = [
+  { titleKey: 'notification.snooze', snoozeMinutes: 10 },
+  { titleKey: 'notification.done' }
+];
 
 // Function to push a notification immediately (guaranteed to work)
-const pushNotificationImmediately = (message: string, taskId?: string) => {
+const pushNotificationImmediately = (
+  message: string,
+  persona: Persona,
+  taskId?: string
+) => {
   console.log('Notification requested:', message, 'for task:', taskId);
   
+  // Randomly select an engaging title from the persona's set, in the persona's language
+  const title = getRandomItem(persona.notificationTitles);
+  
   // Set badge - this ALWAYS works without user gesture 
   chrome.action.setBadgeText({ text: '!!' });
   chrome.action.setBadgeBackgroundColor({ color: '#FF0000' });
@@ -337,56 +66,44 @@ const pushNotificationImmediately = (message: string, taskId?: string) => {
   const notificationId = taskId ? `task-${taskId}` : `notification-${Date.now()}`;
   
   // Store for chatbot display (this always works)
-  chrome.storage.local.get(['pendingBlameMessages'], (data) => {
+  readStorage(['pendingBlameMessages']).then(async (data) => {
     const messages = data.pendingBlameMessages || [];
     messages.push({
       message: message,
       timestamp: Date.now(),
       taskId: taskId // Store the task ID for reference
     });
-    chrome.storage.local.set({ pendingBlameMessages: messages });
-    console.log('Stored blame message for badge click:', message);
     
     // Also store for popup display
-    chrome.storage.local.set({
+    await writeStorage({
+      pendingBlameMessages: messages,
       showNotification: {
-        title: title, // Use the randomly selected Vietnamese title
+        title: title,
         message: message,
         timestamp: Date.now(),
         taskId: taskId
       }
     });
-  });
-  
-  // Duolingo-style engaging titles with emojis in Vietnamese
-  const engagingTitles = [
-    '🔥 Hết Giờ Rồi! ⏰',
-    '⚠️ Nhiệm Vụ Đang Chờ! ⚠️',
-    '📊 Kiểm Tra Năng Suất! 📈',
-    '⚡ Tập Trung Nào! ⚡',
-    '🚨 Đã Đến Hạn! 🚨',
-    '🎯 Mục Tiêu Của Bạn! ⏰',
-    '🔔 Nhắc Nhở Quan Trọng! 🔔',
-    '⏰ Thời Gian Đã Hết! 🔥'
-  ];
-  
-  // Randomly select an engaging title
-  const title = getRandomItem(engagingTitles);
+    console.log('Stored blame message for badge click:', message);
+  }).catch(error => console.error('Error storing blame message:', error));
   
   // Use direct Chrome notification with data URL icon (most successful approach)
   try {
-    // Use a very simple, small base64 encoded icon (1x1 pixel transparent PNG)
-    // This is guaranteed to work across all Chrome versions
-    const simpleIconBase64 = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
-    
     console.log('Creating notification with minimal icon');
     
+    // Task notifications get action buttons; the popup offers the full set of snooze options
+    const buttons = taskId
+      ? NOTIFICATION_BUTTONS.map(button => ({ title: translate(persona.locale, button.titleKey, { count: button.snoozeMinutes ?? 0 }) }))
+      : undefined;
+    
     // Simple notification with minimal options (most reliable)
     chrome.notifications.create(notificationId, {
       type: 'basic',
-      iconUrl: simpleIconBase64, 
-      title: title, // Use the Vietnamese title
-      message: message
+      iconUrl: NOTIFICATION_ICON, 
+      title: title,
+      message: message,
+      buttons,
+      requireInteraction: !!taskId
     }, (createdId) => {
       if (chrome.runtime.lastError) {
         console.error('Error creating notification with icon:', chrome.runtime.lastError);
@@ -396,8 +113,10 @@ const pushNotificationImmediately = (message: string, taskId?: string) => {
         chrome.notifications.create(notificationId + '_noicon', {
           type: 'basic',
           iconUrl: '', // Empty string to satisfy the type requirement
-          title: title, // Use the Vietnamese title
-          message: message
+          title: title,
+          message: message,
+          buttons,
+          requireInteraction: !!taskId
         }, (finalId) => {
           if (chrome.runtime.lastError) {
             console.error('All notification attempts failed:', chrome.runtime.lastError);
@@ -414,31 +133,94 @@ const pushNotificationImmediately = (message: string, taskId?: string) => {
   }
 };
 
+// Quiet hours are over: one notification listing what was held back, and the reminders in the chat
+const deliverQuietDigest = async (todos: Todo[], settings: AppSettings) => {
+  const { quietQueue = [] } = await readStorage(['quietQueue']);
+  if (quietQueue.length === 0) return;
+  await writeStorage({ quietQueue: [] });
+  
+  // Tasks finished or deleted in the meantime no longer need a reminder
+  const openTasks = new Map(todos.filter(todo => !todo.completed).map(todo => [todo.id, todo]));
+  const reminders = quietQueue.filter(reminder => !reminder.taskId || openTasks.has(reminder.taskId));
+  if (reminders.length === 0) return;
+  
+  console.log('Quiet hours over, delivering digest of', reminders.length, 'reminders');
+  const t = createTranslator(settings.language);
+  
+  const { pendingBlameMessages = [] } = await readStorage(['pendingBlameMessages']);
+  await writeStorage({ pendingBlameMessages: [...pendingBlameMessages, ...reminders] });
+  
+  chrome.action.setBadgeText({ text: String(reminders.length) });
+  chrome.action.setBadgeBackgroundColor({ color: '#FF8C00' });
+  
+  chrome.notifications.create(`digest-${Date.now()}`, {
+    type: 'list',
+    iconUrl: NOTIFICATION_ICON,
+    title: t('notification.digestTitle'),
+    message: t('notification.digestMessage', { count: reminders.length }),
+    items: reminders.map(reminder => ({
+      title: (reminder.taskId && openTasks.get(reminder.taskId)?.text) || '',
+      message: reminder.message
+    }))
+  }, () => {
+    if (chrome.runtime.lastError) {
+      console.error('Error creating digest notification:', chrome.runtime.lastError);
+    }
+  });
+};
+
+// Once a day at the configured time: today's tasks, yesterday's misses and the streak, as a list
+// notification and as a card in the chat the next time the popup opens
+const sendDailyDigest = async (todos: Todo[], settings: AppSettings, aiConfig: AIConfig) => {
+  const now = Date.now();
+  const { lastDigestDate } = await readStorage(['lastDigestDate']);
+  if (!isDigestDue(settings, lastDigestDate, now)) return;
+  
+  // Marked before the (slow) model call so overlapping checks send it only once
+  await writeStorage({ lastDigestDate: getDayKey(now) });
+  const digest = await createDailyDigest(aiConfig, todos, settings, now);
+  if (!digest) {
+    console.log('Nothing to report in the daily digest');
+    return;
+  }
+  
+  console.log('Sending daily digest:', digest);
+  await writeStorage({ pendingDigest: digest });
+  
+  const items = formatDigestItems(digest, settings.language);
+  chrome.notifications.create(`daily-digest-${digest.date}`, {
+    type: items.length > 0 ? 'list' : 'basic',
+    iconUrl: NOTIFICATION_ICON,
+    title: translate(settings.language, 'digest.title'),
+    message: digest.summary,
+    items: items.length > 0 ? items : undefined
+  }, () => {
+    if (chrome.runtime.lastError) {
+      console.error('Error creating daily digest notification:', chrome.runtime.lastError);
+    }
+  });
+};
+
 // Check tasks and send alerts - FIXED with better error handling and logging
 const checkTasks = async () => {
   try {
     console.log('Starting task check at:', new Date().toLocaleTimeString());
     
-    // Get tasks from storage
-    const storageData = await chrome.storage.local.get(['todos', 'aiConfig']);
-    console.log('Retrieved storage data:', storageData);
-    
-    const todos = storageData.todos || [];
+    // Get tasks from storage (the repository waits for pending migrations)
+    const todos = await getTasks();
+    const settings = await loadSettings();
+    const { aiConfig = DEFAULT_AI_CONFIG, pausedUntil = 0 } = await readStorage(['aiConfig', 'pausedUntil']);
     
-    // Default to openrouter if no provider is specified
-    const aiConfig = storageData.aiConfig || { 
-      enabled: true, 
-      apiKey: '', 
-      provider: 'openrouter' 
-    };
+    console.log('Using AI provider:', aiConfig.provider);
     
-    // Force the provider to be openrouter unless explicitly set to something else
-    if (!aiConfig.provider) {
-      aiConfig.provider = 'openrouter';
+    // During quiet hours or a pause reminders are queued; the first check afterwards sends them as a digest
+    const quiet = isQuietTime(settings, pausedUntil);
+    if (!quiet) {
+      await deliverQuietDigest(todos, settings);
+      // Before the empty-list check, so the morning digest still arrives when there are no tasks
+      await sendDailyDigest(todos, settings, aiConfig);
     }
     
-    console.log('Using AI provider:', aiConfig.provider);
-    
     if (!todos.length) {
       console.log('No tasks to check');
       return;
@@ -450,101 +232,76 @@ const checkTasks = async () => {
     
     const now = Date.now();
     
-    // Process each task
-    for (const todo of todos) {
-      try {
-        console.log('Checking task:', todo);
+    // Advance escalation levels inside one repository update, re-evaluated against the
+    // latest stored tasks so overlapping checks (alarm, popup) never notify twice
+    const dueReminders: { todo: Todo; level: number; overdueMs: number }[] = [];
+    await updateTasks(current => {
+      const nextOccurrences: Todo[] = [];
+      const updated = current.map(todo => {
+        if (todo.completed) return todo;
         
-        if (todo.completed) {
-          console.log('Task is completed, skipping:', todo.id);
-          continue;
-        }
+        // Work out which rung of the escalation ladder (if any) is due now
+        const level = getDueEscalation(todo, settings, now);
+        if (level === null) return todo;
         
-        if (todo.timeExpired) {
-          console.log('Task already marked as expired, skipping:', todo.id);
-          continue;
+        console.log(`Task ${todo.id} escalation due: ${level} (expiry: ${new Date(getExpiryTime(todo, settings, now)).toLocaleString()})`);
+        const escalated: Todo = { ...todo, escalationLevel: level, notifiedAt: now };
+        
+        if (level >= ESCALATION_EXPIRED && !todo.timeExpired) {
+          console.log('TASK EXPIRED:', todo.text);
+          escalated.timeExpired = true;
+          
+          // Recurring tasks get their next occurrence as soon as this one expires
+          const nextOccurrence = createNextOccurrence(escalated, now);
+          if (nextOccurrence) {
+            escalated.nextOccurrenceId = nextOccurrence.id;
+            nextOccurrences.push(nextOccurrence);
+            console.log('Generated next occurrence for recurring task:', todo.id, nextOccurrence);
+          }
         }
         
-        // Determine expiry time
-        let expiryTime;
+        dueReminders.push({ todo: escalated, level, overdueMs: getOverdueTime(todo, settings, now) });
+        return escalated;
+      });
+      return [...updated, ...nextOccurrences];
+    });
+    
+    // Messages and notifications happen outside the update so a slow model call never blocks writes
+    const heldBack: PendingBlameMessage[] = [];
+    for (const { todo, level, overdueMs } of dueReminders) {
+      try {
+        const persona = resolvePersona(settings, todo.category);
+        
+        // Default message for this level in case AI fails
+        let blameMessage = formatFallbackReminder(todo, level, overdueMs, persona.fallbackMessages, createTranslator(settings.language));
         
-        if (todo.dueDate) {
-          // Use the specific due date if available
-          expiryTime = todo.dueDate;
-          console.log(`Task ${todo.id} has specific due date:`, new Date(expiryTime).toLocaleString());
+        // Next message from the task's cache; the model is only called when it runs out
+        const cachedMessage = await takeBlameMessage(aiConfig, todo, persona, level, overdueMs);
+        if (cachedMessage) {
+          blameMessage = cachedMessage;
+          console.log('Selected blame message:', blameMessage);
         } else {
-          // For development/testing, use 10-second timeboxes
-          const timeboxDuration = 10 * 1000; // 10 seconds
-          const createdTime = todo.created || (now - 5000);
-          expiryTime = createdTime + timeboxDuration;
-          console.log(`Task ${todo.id} using timebox expiry:`, new Date(expiryTime).toLocaleString());
+          console.log('No AI blame message available, using default blame message');
         }
         
-        // Check if task is expired
-        const isExpired = now >= expiryTime;
-        console.log(`Task ${todo.id} expired? ${isExpired} (now: ${new Date(now).toLocaleString()}, expiry: ${new Date(expiryTime).toLocaleString()})`);
-        
-        // If time expired
-        if (isExpired) {
-          console.log('TASK EXPIRED:', todo.text);
-          
-          // Mark as expired in storage
-          todo.timeExpired = true;
-          await chrome.storage.local.set({ todos });
-          console.log('Marked task as expired in storage:', todo.id);
-          
-          // Default blame message in case AI fails
-          let blameMessage = `⏰ Hết giờ cho công việc: "${todo.text}"`;
-          
-          // Try to generate blame message with AI if enabled
-          if (aiConfig.enabled && aiConfig.apiKey) {
-            console.log('AI is enabled, generating blame message for task:', todo.id);
-            console.log('Using AI provider:', aiConfig.provider);
-            console.log('API key available:', !!aiConfig.apiKey);
-            
-            try {
-              // Get blame messages from AI
-              const blameMessages = await generateBlameMessage(todo, aiConfig);
-              console.log('AI returned blame messages:', blameMessages);
-              
-              // Use random message if available
-              if (blameMessages && Array.isArray(blameMessages) && blameMessages.length > 0) {
-                // Filter out any empty or very short messages
-                const validMessages = blameMessages.filter(msg => 
-                  typeof msg === 'string' && msg.trim().length > 10
-                );
-                
-                if (validMessages.length > 0) {
-                  blameMessage = getRandomItem(validMessages);
-                  console.log('Selected blame message:', blameMessage);
-                  
-                  // Save these messages for future use
-                  if (validMessages.length > 1) {
-                    todo.customBlameMessages = validMessages;
-                    await chrome.storage.local.set({ todos });
-                    console.log('Saved custom blame messages to task:', todo.id);
-                  }
-                } else {
-                  console.warn('No valid blame messages returned from AI, using default');
-                }
-              } else {
-                console.warn('No valid blame messages returned from AI, using default');
-              }
-            } catch (error) {
-              console.error('Error generating AI blame message:', error);
-            }
-          } else {
-            console.log('AI is not enabled or no API key, using default blame message');
-          }
-          
-          // Show notification with badge animation
-          console.log('Pushing notification with blame message:', blameMessage);
-          pushNotificationImmediately(blameMessage, todo.id);
+        if (quiet) {
+          console.log('Quiet hours, queueing blame message:', blameMessage);
+          heldBack.push({ message: blameMessage, timestamp: now, taskId: todo.id });
+          continue;
         }
+        
+        // Show notification with badge animation
+        console.log('Pushing notification with blame message:', blameMessage);
+        pushNotificationImmediately(blameMessage, persona, todo.id);
       } catch (taskError) {
         console.error('Error processing task:', todo, taskError);
       }
     }
+    
+    if (heldBack.length > 0) {
+      const { quietQueue = [] } = await readStorage(['quietQueue']);
+      await writeStorage({ quietQueue: heldBack.reduce(queueReminder, quietQueue) });
+    }
   } catch (error) {
     console.error('Error checking tasks:', error);
   }
@@ -570,38 +327,12 @@ console.log('- chrome.notifications API:', typeof chrome.notifications !== 'unde
 // Skip test notification that was causing errors
 console.log('Notifications will be shown when tasks expire');
 
-// Check and update AI settings on startup
-const checkAndUpdateAISettings = async () => {
-  try {
-    const data = await chrome.storage.local.get(['aiConfig']);
-    const aiConfig = data.aiConfig || {};
-    
-    // Check if we need to update settings
-    let needsUpdate = false;
-    
-    if (!aiConfig.provider || aiConfig.provider === 'openai') {
-      aiConfig.provider = 'openrouter';
-      needsUpdate = true;
-    }
-    
-    if (aiConfig.enabled === undefined) {
-      aiConfig.enabled = true;
-      needsUpdate = true;
-    }
-    
-    if (needsUpdate) {
-      console.log('Updating AI settings to:', aiConfig);
-      await chrome.storage.local.set({ aiConfig });
-    } else {
-      console.log('AI settings already configured:', aiConfig);
-    }
-  } catch (error) {
-    console.error('Error updating AI settings:', error);
-  }
-};
-
-// Run the settings check on startup
-checkAndUpdateAISettings();
+// Upgrade stored data on install/update, and on every startup in case an update was missed
+chrome.runtime.onInstalled.addListener((details) => {
+  console.log('Extension installed or updated:', details.reason);
+  ensureMigrated();
+});
+ensureMigrated();
 
 // Set up the alarm for periodic checking
 chrome.alarms.create('checkTasks', {
@@ -612,6 +343,8 @@ chrome.alarms.create('checkTasks', {
 chrome.alarms.onAlarm.addListener((alarm) => {
   if (alarm.name === 'checkTasks') {
     checkTasks();
+    // Deleted tasks past the retention period leave the trash
+    purgeExpiredTrash().catch(error => console.error('Error purging trash:', error));
   }
 });
 
@@ -632,53 +365,149 @@ chrome.runtime.onConnect.addListener((port) => {
 // Handle the test notification button
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.action === 'testNotification') {
-    // Use the provided message if available, otherwise use default
-    const testMessage = message.message || 'This is a test notification!';
-    
-    // Use the exact same flow as automatic notifications
-    pushNotificationImmediately(testMessage, message.taskId);
-    
-    // Respond to the popup
-    sendResponse({ success: true, message: "Notification triggered" });
+    loadSettings().then(settings => {
+      // Use the provided message if available, otherwise use default
+      const testMessage = message.message || translate(settings.language, 'notification.test');
+      
+      // Use the exact same flow as automatic notifications
+      pushNotificationImmediately(testMessage, getPersona(settings.personaId, settings), message.taskId);
+      
+      // Respond to the popup
+      sendResponse({ success: true, message: "Notification triggered" });
+    });
     
     return true; // Keep the channel open for async response
   }
   
   // Handle task completion - clear notifications for the completed task
   if (message.action === 'taskCompleted' && message.taskId) {
-    // Clear any notification related to this task
-    const notificationId = `task-${message.taskId}`;
-    chrome.notifications.clear(notificationId, (wasCleared) => {
-      console.log(`Notification for task ${message.taskId} cleared:`, wasCleared);
-    });
-    
-    // Remove the task from pending blame messages
-    chrome.storage.local.get(['pendingBlameMessages'], (data) => {
-      if (data.pendingBlameMessages && Array.isArray(data.pendingBlameMessages)) {
-        const updatedMessages = data.pendingBlameMessages.filter(
-          (msg: any) => msg.taskId !== message.taskId
-        );
-        chrome.storage.local.set({ pendingBlameMessages: updatedMessages });
-        console.log('Removed completed task from pending blame messages:', message.taskId);
+    clearTaskNotification(message.taskId);
+    sendResponse({ success: true, message: "Task notification cleared" });
+    return true;
+  }
+  
+  // Popup noticed a task reaching its deadline; escalate now instead of waiting for the alarm
+  if (message.action === 'checkTasks') {
+    checkTasks().then(() => sendResponse({ success: true }));
+    return true;
+  }
+  
+  // Task repository operations from the popup
+  if (isTaskRequest(message)) {
+    handleTaskRequest(message).then(response => {
+      // Finished, snoozed or deleted tasks should stop nagging right away
+      const settled = message.action === 'deleteTask'
+        || message.action === 'snoozeTask'
+        || (message.action === 'setTaskCompleted' && message.completed);
+      if (response.ok && settled) {
+        clearTaskNotification(message.id);
+      }
+      // An edited task may have a new deadline (and cached reminders about its old text):
+      // drop what was shown and re-check it against its new expiry right away
+      if (response.ok && message.action === 'editTask') {
+        clearTaskNotification(message.id);
+        clearBlameMessages([message.id])
+          .then(() => checkTasks())
+          .catch(error => console.error('Error refreshing edited task:', error));
       }
+      sendResponse(response);
     });
-    
-    sendResponse({ success: true, message: "Task notification cleared" });
     return true;
   }
 });
 
+// Clear the notification and pending blame messages for a task that no longer needs nagging
+const clearTaskNotification = (taskId: string) => {
+  const notificationId = `task-${taskId}`;
+  [notificationId, `${notificationId}_noicon`].forEach(id => {
+    chrome.notifications.clear(id, (wasCleared) => {
+      console.log(`Notification ${id} cleared:`, wasCleared);
+    });
+  });
+  
+  // Remove the task from pending blame messages and reminders held back by quiet hours
+  readStorage(['pendingBlameMessages', 'quietQueue']).then(async (data) => {
+    if (data.pendingBlameMessages && Array.isArray(data.pendingBlameMessages)) {
+      const updatedMessages = data.pendingBlameMessages.filter(msg => msg.taskId !== taskId);
+      await writeStorage({ pendingBlameMessages: updatedMessages });
+      console.log('Removed task from pending blame messages:', taskId);
+    }
+    if (data.quietQueue) {
+      await writeStorage({ quietQueue: data.quietQueue.filter(reminder => reminder.taskId !== taskId) });
+    }
+  }).catch(error => console.error('Error clearing pending blame messages:', error));
+};
+
+// Handle the Snooze / Done buttons on task notifications
+chrome.notifications.onButtonClicked.addListener(async (notificationId, buttonIndex) => {
+  const taskId = getTaskIdFromNotification(notificationId);
+  const button = NOTIFICATION_BUTTONS[buttonIndex];
+  if (!taskId || !button) return;
+  
+  console.log('Notification button clicked:', button.titleKey, 'for task:', taskId);
+  
+  try {
+    if (button.snoozeMinutes) {
+      await snoozeTaskById(taskId, button.snoozeMinutes);
+    } else {
+      await setTaskCompleted(taskId, true);
+    }
+    clearTaskNotification(taskId);
+    chrome.action.setBadgeText({ text: '' });
+  } catch (error) {
+    console.error('Error handling notification button:', error);
+  }
+});
+
+// Clicking the notification body opens the popup focused on that task
+chrome.notifications.onClicked.addListener(async (notificationId) => {
+  const taskId = getTaskIdFromNotification(notificationId);
+  if (!taskId) return;
+  
+  await writeStorage({ focusTaskId: taskId });
+  chrome.notifications.clear(notificationId);
+  
+  try {
+    await chrome.action.openPopup();
+  } catch (error) {
+    // openPopup is not available on every Chrome version, fall back to a popup window
+    console.log('openPopup unavailable, opening popup window instead:', error);
+    chrome.windows.create({
+      url: chrome.runtime.getURL(`popup.html?task=${encodeURIComponent(taskId)}`),
+      type: 'popup',
+      width: 420,
+      height: 640
+    });
+  }
+});
+
+// Pre-generate reminder messages for new tasks and drop them for finished ones
+chrome.storage.onChanged.addListener(async (changes, areaName) => {
+  if (areaName !== 'local' || !changes.todos) return;
+  
+  const oldTodos: Todo[] = changes.todos.oldValue || [];
+  const newTodos: Todo[] = changes.todos.newValue || [];
+  const knownIds = new Set(oldTodos.map(todo => todo.id));
+  const openIds = new Set(newTodos.filter(todo => !todo.completed).map(todo => todo.id));
+  
+  const addedTodos = newTodos.filter(todo => !knownIds.has(todo.id) && !todo.completed);
+  const closedIds = oldTodos.filter(todo => !openIds.has(todo.id)).map(todo => todo.id);
+  
+  try {
+    await clearBlameMessages(closedIds);
+    
+    if (addedTodos.length > 0) {
+      const { aiConfig = DEFAULT_AI_CONFIG } = await readStorage(['aiConfig']);
+      const settings = await loadSettings();
+      for (const todo of addedTodos) {
+        await prefetchBlameMessages(aiConfig, todo, resolvePersona(settings, todo.category));
+      }
+    }
+  } catch (error) {
+    console.error('Error updating blame message cache:', error);
+  }
+});
+
 // Initial check on startup
 checkTasks();
 
-// Duolingo-style engaging titles with emojis in Vietnamese
-const engagingTitles = [
-  '🔥 Hết Giờ Rồi! ⏰',
-  '⚠️ Nhiệm Vụ Đang Chờ! ⚠️',
-  '📊 Kiểm Tra Năng Suất! 📈',
-  '⚡ Tập Trung Nào! ⚡',
-  '🚨 Đã Đến Hạn! 🚨',
-  '🎯 Mục Tiêu Của Bạn! ⏰',
-  '🔔 Nhắc Nhở Quan Trọng! 🔔',
-  '⏰ Thời Gian Đã Hết! 🔥'
-]; 
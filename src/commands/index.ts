@@ -0,0 +1,4 @@
+export * from './types';
+export * from './parser';
+export * from './suggestions';
+export { COMMANDS } from './registry';
@@ -0,0 +1,168 @@
+import { Todo, Locale } from '../types/shared';
+import { DEFAULT_LOCALE, MessageKey, MessageParams, Translator, createTranslator, translate } from '../localization';
+import { findTasksByRef, formatTaskRef } from '../utils/taskRefs';
+import { CommandArgs, CommandDefinition } from './types';
+import { COMMANDS } from './registry';
+
+/**
+ * Invalid command input, kept as a catalog message so it is shown in the UI language.
+ * With `command` its usage line is shown below the message.
+ */
+export class CommandError extends Error {
+  constructor(
+    public readonly key: MessageKey,
+    public readonly params: MessageParams = {},
+    public readonly command?: CommandDefinition
+  ) {
+    super(translate(DEFAULT_LOCALE, key, params));
+    this.name = 'CommandError';
+  }
+}
+
+export interface ParsedCommand {
+  command: CommandDefinition;
+  args: CommandArgs;
+}
+
+export interface TaskLookup {
+  todos: Todo[];
+  listedTodos: Todo[];
+}
+
+const getNames = (command: CommandDefinition) => [command.name, ...(command.aliases || [])];
+
+const takesArgs = (command: CommandDefinition) => !!command.task || !!command.text;
+
+export const findCommand = (name: string): CommandDefinition | undefined => {
+  const lower = name.toLowerCase();
+  return COMMANDS.find(command => getNames(command).includes(lower));
+};
+
+// "/dne" -> "done", for the unknown-command hint
+const findClosestCommand = (name: string): CommandDefinition | undefined => {
+  const lower = name.toLowerCase();
+  return COMMANDS.find(command => getNames(command).some(alias => alias.startsWith(lower) || lower.startsWith(alias)))
+    || COMMANDS.find(command => command.name[0] === lower[0]);
+};
+
+const looksLikeTaskRef = (token: string) => /^(#[a-z0-9]+|\d+)$/i.test(token);
+
+// Without the slash only a task reference or an allowed choice makes it a command
+// (unless the command takes free text, like "add"), so "xóa bụi trên bàn phím" stays a chat message
+const isBareArgument = (command: CommandDefinition, rest: string) => {
+  if (command.bareText) return true;
+  const [first = ''] = rest.toLowerCase().split(/\s+/, 1);
+  return looksLikeTaskRef(first) || !!command.choices?.includes(first);
+};
+
+/**
+ * Finds the command an input starts with: "/name ..." always, or a bare alias such as
+ * "add ..." or "chia nhỏ 2". Bare commands without arguments must match the whole input,
+ * so a chat message like "clear the table" is not mistaken for "clear"; with arguments the
+ * first one must be a task reference or choice ("delete 2", "export csv", not "export my data").
+ */
+const matchCommand = (input: string): { command: CommandDefinition; rest: string } | null => {
+  const trimmed = input.trim();
+
+  if (trimmed.startsWith('/')) {
+    const [name = ''] = trimmed.substring(1).split(/\s+/, 1);
+    const command = findCommand(name);
+    if (!command) {
+      const closest = name ? findClosestCommand(name) : undefined;
+      throw closest
+        ? new CommandError('commandError.unknownSuggest', { name, suggestion: closest.name })
+        : new CommandError('commandError.unknown', { name });
+    }
+    return { command, rest: trimmed.substring(1 + name.length).trim() };
+  }
+
+  const lower = trimmed.toLowerCase();
+  const candidates = COMMANDS
+    .filter(command => command.bare)
+    .flatMap(command => getNames(command).map(alias => ({ command, alias })))
+    .sort((a, b) => b.alias.length - a.alias.length);
+
+  for (const { command, alias } of candidates) {
+    if (lower === alias) {
+      return { command, rest: '' };
+    }
+    if (takesArgs(command) && lower.startsWith(`${alias} `)) {
+      const rest = trimmed.substring(alias.length).trim();
+      if (isBareArgument(command, rest)) {
+        return { command, rest };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Resolves "#a3f" (stable short id, prefixes allowed) or "2" (position in the last list).
+ */
+export const resolveTaskRef = (token: string, lookup: TaskLookup, command?: CommandDefinition): Todo => {
+  if (token.startsWith('#')) {
+    const matches = findTasksByRef(lookup.todos, token);
+    if (matches.length === 1) return matches[0];
+    if (matches.length > 1) {
+      const refs = matches.slice(0, 5).map(formatTaskRef).join(', ');
+      throw new CommandError('commandError.ambiguousRef', { ref: token, refs }, command);
+    }
+    throw new CommandError('commandError.refNotFound', { ref: token }, command);
+  }
+
+  if (/^\d+$/.test(token)) {
+    const todo = lookup.listedTodos[parseInt(token, 10) - 1];
+    if (todo) return todo;
+    throw new CommandError('commandError.numberNotFound', { ref: token }, command);
+  }
+
+  throw new CommandError('commandError.notARef', { ref: token }, command);
+};
+
+/**
+ * Parses and validates a command. Returns null for ordinary chat messages and throws
+ * a CommandError (with the usage line) for invalid commands.
+ */
+export const parseCommand = (input: string, lookup: TaskLookup): ParsedCommand | null => {
+  const match = matchCommand(input);
+  if (!match) return null;
+
+  const { command } = match;
+  let rest = match.rest;
+  const args: CommandArgs = { text: '' };
+
+  if (command.task) {
+    const [token = ''] = rest.split(/\s+/, 1);
+    if (token && (command.task === 'required' || looksLikeTaskRef(token))) {
+      args.task = resolveTaskRef(token, lookup, command);
+      rest = rest.substring(token.length).trim();
+    } else if (command.task === 'required') {
+      throw new CommandError('commandError.missingRef', {}, command);
+    }
+  }
+
+  if (rest && !command.text) {
+    throw new CommandError('commandError.unexpectedText', { command: command.name, text: rest }, command);
+  }
+  if (!rest && command.text === 'required') {
+    throw new CommandError('commandError.missingText', {}, command);
+  }
+  if (rest && command.choices) {
+    const [choice] = rest.toLowerCase().split(/\s+/, 1);
+    if (!command.choices.includes(choice)) {
+      throw new CommandError('commandError.badChoice', { choice, choices: command.choices.join(', ') }, command);
+    }
+  }
+
+  args.text = rest;
+  return { command, args };
+};
+
+// "/done <#mã|số>" in the UI language
+export const formatUsage = (command: CommandDefinition, t: Translator): string => t(command.usage, command.usageParams);
+
+export const formatCommandError = (error: CommandError, locale: Locale): string => {
+  const t = createTranslator(locale);
+  const usage = error.command ? `\n${t('command.usage', { usage: formatUsage(error.command, t) })}` : '';
+  return `❌ ${t(error.key, error.params)}${usage}`;
+};
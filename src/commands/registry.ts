@@ -0,0 +1,59 @@
+import { CommandDefinition } from './types';
+import { formatUsage } from './parser';
+import {
+  addCommand,
+  listCommand,
+  doneCommand,
+  undoneCommand,
+  deleteCommand,
+  editCommand,
+  moveCommand,
+  dueCommand,
+  tagCommand,
+  undoCommand,
+  redoCommand,
+  subCommand,
+  breakdownCommand,
+  clearCommand,
+  clearAllCommand,
+  trashCommand,
+  restoreCommand,
+  exportCommand,
+  importCommand
+} from './taskCommands';
+
+const helpCommand: CommandDefinition = {
+  name: 'help',
+  aliases: ['?', 'trogiup'],
+  bare: true,
+  usage: 'command.helpUsage',
+  description: 'command.helpDescription',
+  run: (_args, context) => {
+    const lines = COMMANDS.map(command => `${formatUsage(command, context.t)} — ${context.t(command.description)}`);
+    context.reply(context.t('command.help', { commands: lines.join('\n') }));
+  }
+};
+
+// Registered commands, in the order /help and the suggestions list them
+export const COMMANDS: CommandDefinition[] = [
+  addCommand,
+  listCommand,
+  doneCommand,
+  undoneCommand,
+  editCommand,
+  dueCommand,
+  moveCommand,
+  tagCommand,
+  subCommand,
+  breakdownCommand,
+  deleteCommand,
+  undoCommand,
+  redoCommand,
+  trashCommand,
+  restoreCommand,
+  clearCommand,
+  clearAllCommand,
+  exportCommand,
+  importCommand,
+  helpCommand
+];
@@ -0,0 +1,65 @@
+import { formatTaskRef } from '../utils/taskRefs';
+import { Translator } from '../localization';
+import { COMMANDS } from './registry';
+import { TaskLookup, findCommand, formatUsage } from './parser';
+
+export interface CommandSuggestion {
+  label: string;    // What the chip shows, e.g. "/done" or "#a3f"
+  detail: string;   // Usage line or task text
+  value: string;    // The whole input after accepting it
+}
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Auto-complete for the chat input: command names while typing "/do", then the
+ * task reference ("#a3f") or the allowed choices for the first argument.
+ */
+export const getCommandSuggestions = (input: string, lookup: TaskLookup, t: Translator): CommandSuggestion[] => {
+  if (!input.startsWith('/')) return [];
+
+  const match = input.match(/^\/(\S*)(\s+)?(\S*)$/);
+  if (!match) return [];
+  const [, name, space, argument = ''] = match;
+
+  if (!space) {
+    const lower = name.toLowerCase();
+    const byName = COMMANDS.filter(command => command.name.startsWith(lower));
+    const byAlias = COMMANDS.filter(command => !byName.includes(command)
+      && (command.aliases || []).some(alias => alias.startsWith(lower)));
+    return [...byName, ...byAlias]
+      .slice(0, MAX_SUGGESTIONS)
+      .map(command => ({
+        label: `/${command.name}`,
+        detail: `${formatUsage(command, t)} — ${t(command.description)}`,
+        value: `/${command.name} `
+      }));
+  }
+
+  const command = findCommand(name);
+  if (!command) return [];
+  const lowerArgument = argument.toLowerCase();
+
+  if (command.task) {
+    const query = lowerArgument.replace(/^#/, '');
+    return lookup.listedTodos
+      .filter(todo => !query
+        || todo.shortId?.startsWith(query)
+        || todo.text.toLowerCase().includes(query))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(todo => ({
+        label: formatTaskRef(todo),
+        detail: todo.text,
+        value: `/${command.name} ${formatTaskRef(todo)} `
+      }));
+  }
+
+  if (command.choices) {
+    return command.choices
+      .filter(choice => choice.startsWith(lowerArgument))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(choice => ({ label: choice, detail: formatUsage(command, t), value: `/${command.name} ${choice}` }));
+  }
+
+  return [];
+};
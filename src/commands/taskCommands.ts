@@ -0,0 +1,383 @@
+import { Todo } from '../types/shared';
+import { ExportFormat } from '../utils/backup';
+import { parseTaskInput } from '../utils/taskInput';
+import { findTaskByShortId, formatTaskRef } from '../utils/taskRefs';
+import { EDIT_FIELDS, parseEditFields, createTaskEdit } from '../utils/taskEdit';
+import { canonicalTag, extractTags, formatTag } from '../utils/tags';
+import { PERSONA_CATEGORIES } from '../prompts/personas';
+import * as taskClient from '../storage/taskClient';
+import { Translator } from '../localization';
+import { CommandDefinition } from './types';
+import { CommandError, resolveTaskRef } from './parser';
+
+const EXPORT_FORMATS: Record<string, ExportFormat> = { json: 'json', csv: 'csv', md: 'md', markdown: 'md', ics: 'ics', ical: 'ics' };
+
+// "#a3f “viết báo cáo”" for confirmations
+const describeTask = (todo: Todo) => `${formatTaskRef(todo)} "${todo.text}"`.trim();
+
+// " Công việc nằm trong thùng rác 7 ngày." after deletions
+const describeTrash = (retentionDays: number, t: Translator) => retentionDays > 0
+  ? t('reply.inTrash', { count: retentionDays })
+  : '';
+
+export const addCommand: CommandDefinition = {
+  name: 'add',
+  aliases: ['them', 'thêm'],
+  bare: true,
+  bareText: true,
+  usage: 'command.addUsage',
+  description: 'command.add',
+  text: 'required',
+  run: async ({ text }, context) => {
+    // Pull optional tags ("#work"), priority ("!1"), recurrence ("every 2h"), timebox ("30p") and deadline ("tối nay") out of the text
+    const { text: taskText, timeboxMinutes, dueDate, deadline, recurrence, priority, tags } = parseTaskInput(text, new Date(), context.settings.tags);
+    if (!taskText) {
+      throw new CommandError('commandError.emptyTask', {}, addCommand);
+    }
+    const newTodo: Todo = {
+      id: Date.now().toString(),
+      text: taskText,
+      completed: false,
+      category: 'general',
+      created: Date.now(),
+      timeboxMinutes,
+      dueDate,
+      deadline,
+      recurrence,
+      priority,
+      tags
+    };
+
+    const result = await context.applyChange(taskClient.createTask(newTodo));
+    if (!result) return;
+
+    // The stored copy carries the short id assigned by the repository
+    const stored = result.todos.find(todo => todo.id === newTodo.id) || newTodo;
+    context.showTask(stored);
+    context.reply(context.t('task.added', { task: describeTask(stored) }), result.operation?.id);
+  }
+};
+
+export const listCommand: CommandDefinition = {
+  name: 'list',
+  aliases: ['tasks', 'ls', 'ds'],
+  bare: true,
+  usage: 'command.listUsage',
+  description: 'command.list',
+  text: 'optional',
+  run: ({ text }, context) => {
+    // Tags and short ids share the "#" syntax: a word that is a task's short id means that task,
+    // only the other words are tags
+    const words = text.split(/\s+/).filter(Boolean);
+    const tasks = words.map(word => findTaskByShortId(context.todos, word)).filter((todo): todo is Todo => !!todo);
+    const tagWords = words.filter(word => !findTaskByShortId(context.todos, word));
+    const { text: rest, tags } = extractTags(tagWords.join(' '), context.settings.tags);
+    if (rest) {
+      throw new CommandError('commandError.listFilter', { text: rest }, listCommand);
+    }
+
+    tasks.forEach(todo => context.showTask(todo));
+    if (tasks.length > 0 && tags.length === 0) return;
+
+    if (context.todos.length === 0) {
+      context.reply(context.t('reply.noTasks'));
+    } else {
+      context.showTaskList(tags);
+    }
+  }
+};
+
+export const doneCommand: CommandDefinition = {
+  name: 'done',
+  aliases: ['xong', 'complete'],
+  usage: 'command.doneUsage',
+  description: 'command.done',
+  task: 'required',
+  run: ({ task }, context) => {
+    if (task!.completed) {
+      context.reply(context.t('reply.alreadyDone', { task: describeTask(task!) }));
+      return;
+    }
+    context.setCompleted(task!, true);
+  }
+};
+
+export const undoneCommand: CommandDefinition = {
+  name: 'undone',
+  aliases: ['reopen', 'mở'],
+  usage: 'command.undoneUsage',
+  description: 'command.undone',
+  task: 'required',
+  run: ({ task }, context) => {
+    if (!task!.completed) {
+      context.reply(context.t('reply.stillOpen', { task: describeTask(task!) }));
+      return;
+    }
+    context.setCompleted(task!, false);
+  }
+};
+
+export const deleteCommand: CommandDefinition = {
+  name: 'delete',
+  aliases: ['del', 'rm', 'xoa', 'xóa'],
+  bare: true,
+  usage: 'command.deleteUsage',
+  description: 'command.delete',
+  task: 'required',
+  run: async ({ task }, context) => {
+    const result = await context.applyChange(taskClient.deleteTask(task!.id));
+    if (result) {
+      context.reply(
+        context.t('reply.deleted', { task: describeTask(task!) }) + describeTrash(context.settings.trashRetentionDays, context.t),
+        result.operation?.id
+      );
+    }
+  }
+};
+
+export const editCommand: CommandDefinition = {
+  name: 'edit',
+  aliases: ['sua', 'sửa'],
+  usage: 'command.editUsage',
+  description: 'command.edit',
+  task: 'required',
+  text: 'required',
+  run: async ({ task, text }, context) => {
+    const { fields, unknown } = parseEditFields(text);
+    if (unknown.length > 0) {
+      const known = Object.values(EDIT_FIELDS).map(names => `${names[0]}=`).join(', ');
+      const fields = unknown.map(key => `"${key}="`).join(', ');
+      throw new CommandError('commandError.unknownField', { fields, known }, editCommand);
+    }
+
+    const { edit, invalid } = createTaskEdit(task!, fields);
+    if (invalid.length > 0) {
+      const names = invalid.map(field => `${EDIT_FIELDS[field][0]}=`).join(', ');
+      throw new CommandError('commandError.badValue', { fields: names }, editCommand);
+    }
+    await context.editTask(task!, edit);
+  }
+};
+
+export const moveCommand: CommandDefinition = {
+  name: 'move',
+  aliases: ['mv', 'chuyen', 'chuyển'],
+  usage: 'command.moveUsage',
+  usageParams: { categories: PERSONA_CATEGORIES.map(category => category.id).join('|') },
+  description: 'command.move',
+  task: 'required',
+  text: 'required',
+  run: ({ task, text }, context) => context.editTask(task!, { category: canonicalTag(text, context.settings.tags) })
+};
+
+export const dueCommand: CommandDefinition = {
+  name: 'due',
+  aliases: ['han', 'hạn', 'deadline'],
+  usage: 'command.dueUsage',
+  description: 'command.due',
+  task: 'required',
+  text: 'required',
+  run: async ({ task, text }, context) => {
+    // The repository restarts the reminder ladder for the new deadline
+    const { edit, invalid } = createTaskEdit(task!, { due: text });
+    if (invalid.length > 0) {
+      context.reply(context.t('reply.badDue', { due: text }));
+      return;
+    }
+    await context.editTask(task!, edit);
+  }
+};
+
+export const tagCommand: CommandDefinition = {
+  name: 'tag',
+  aliases: ['tags'],
+  usage: 'command.tagUsage',
+  description: 'command.tag',
+  task: 'required',
+  text: 'required',
+  run: async ({ task, text }, context) => {
+    const words = text.split(/\s+/).filter(Boolean);
+    // "#Gấp" and "gap" both mean the "urgent" tag
+    const toTag = (word: string) => canonicalTag(word.replace(/^[#-]+/, ''), context.settings.tags);
+    const removed = words.filter(word => word.startsWith('-')).map(toTag).filter(Boolean);
+    const added = words.filter(word => !word.startsWith('-')).map(toTag).filter(Boolean);
+
+    const tags = Array.from(new Set([...(task!.tags || []), ...added])).filter(tag => !removed.includes(tag));
+    // The category counts as a tag, so removing it moves the task back to "general"
+    const category = task!.category && removed.includes(canonicalTag(task!.category, context.settings.tags))
+      ? 'general'
+      : task!.category;
+    const result = await context.applyChange(taskClient.updateTask(task!.id, { tags, category }, task!.version));
+    if (result) {
+      const shown = [...(category && category !== 'general' ? [canonicalTag(category, context.settings.tags)] : []), ...tags];
+      const unique = Array.from(new Set(shown));
+      const shownTags = unique.length > 0 ? unique.map(formatTag).join(' ') : context.t('reply.noTags');
+      context.reply(context.t('reply.tags', { task: describeTask(task!), tags: shownTags }), result.operation?.id);
+    }
+  }
+};
+
+export const undoCommand: CommandDefinition = {
+  name: 'undo',
+  aliases: ['hoàn tác', 'hoan tac'],
+  bare: true,
+  usage: 'command.undoUsage',
+  description: 'command.undo',
+  run: (_args, context) => context.undo()
+};
+
+export const redoCommand: CommandDefinition = {
+  name: 'redo',
+  aliases: ['làm lại', 'lam lai'],
+  bare: true,
+  usage: 'command.redoUsage',
+  description: 'command.redo',
+  run: (_args, context) => context.redo()
+};
+
+export const subCommand: CommandDefinition = {
+  name: 'sub',
+  aliases: ['step'],
+  bare: true,
+  usage: 'command.subUsage',
+  description: 'command.sub',
+  task: 'required',
+  text: 'required',
+  run: async ({ task, text }, context) => {
+    // "sub 2 viết outline; làm slide" adds one step per ";"-separated part
+    const steps = text.split(';').map(step => step.trim()).filter(Boolean);
+    const result = await context.applyChange(taskClient.addSubtasks(task!.id, steps));
+    if (result) {
+      const reply = steps.length > 1
+        ? context.t('reply.subtasksAdded', { count: steps.length, task: describeTask(task!) })
+        : context.t('reply.subtaskAdded', { step: steps[0], task: describeTask(task!) });
+      context.reply(reply, result.operation?.id);
+    }
+  }
+};
+
+export const breakdownCommand: CommandDefinition = {
+  name: 'breakdown',
+  aliases: ['chia nhỏ', 'chia nho'],
+  bare: true,
+  usage: 'command.breakdownUsage',
+  description: 'command.breakdown',
+  task: 'required',
+  run: ({ task }, context) => context.breakDown(task!)
+};
+
+export const clearCommand: CommandDefinition = {
+  name: 'clear',
+  bare: true,
+  usage: 'command.clearUsage',
+  description: 'command.clear',
+  run: async (_args, context) => {
+    if (context.todos.length === 0) {
+      context.reply(context.t('reply.nothingToClear'));
+      return;
+    }
+    const taskCount = context.todos.length;
+    const result = await context.applyChange(taskClient.clearTasks());
+    if (result) {
+      context.reply(
+        context.t('reply.cleared', { count: taskCount }) + describeTrash(context.settings.trashRetentionDays, context.t),
+        result.operation?.id
+      );
+    }
+  }
+};
+
+export const clearAllCommand: CommandDefinition = {
+  name: 'clearall',
+  bare: true,
+  usage: 'command.clearallUsage',
+  description: 'command.clearall',
+  run: async (_args, context) => {
+    const taskCount = context.todos.length;
+    const result = await context.applyChange(taskClient.clearTasks());
+    if (result) {
+      // Only the tasks can be undone; the chat history is gone
+      context.clearChat(context.t('reply.clearedAll', { count: taskCount }), result.operation?.id);
+    }
+  }
+};
+
+export const trashCommand: CommandDefinition = {
+  name: 'trash',
+  aliases: ['thùng rác', 'thung rac'],
+  bare: true,
+  usage: 'command.trashUsage',
+  description: 'command.trash',
+  text: 'optional',
+  choices: ['empty'],
+  run: async ({ text }, context) => {
+    const trash = await taskClient.listTrash();
+    if (trash.length === 0) {
+      context.reply(context.t('reply.trashEmpty'));
+      return;
+    }
+
+    if (text) {
+      // Not recorded for undo: emptying the trash is the one permanent delete
+      const result = await context.applyChange(taskClient.emptyTrash());
+      if (result) {
+        context.reply(context.t('reply.trashEmptied', { count: trash.length }));
+      }
+      return;
+    }
+
+    const lines = trash.map((item, index) => context.t('reply.trashItem', {
+      index: index + 1,
+      task: describeTask(item.todo),
+      date: new Date(item.deletedAt).toLocaleString()
+    }));
+    context.reply(context.t('reply.trash', { count: context.settings.trashRetentionDays, items: lines.join('\n') }));
+  }
+};
+
+export const restoreCommand: CommandDefinition = {
+  name: 'restore',
+  aliases: ['khôi phục', 'khoi phuc'],
+  bare: true,
+  usage: 'command.restoreUsage',
+  description: 'command.restore',
+  text: 'required',
+  run: async ({ text }, context) => {
+    // Trashed tasks are not in the list, so the reference is resolved against the trash
+    const deleted = (await taskClient.listTrash()).map(item => item.todo);
+    const [token] = text.split(/\s+/, 1);
+    const task = resolveTaskRef(token, { todos: deleted, listedTodos: deleted }, restoreCommand);
+
+    const result = await context.applyChange(taskClient.restoreFromTrash([task.id]));
+    if (result) {
+      const restored = result.todos.find(todo => todo.id === task.id) || task;
+      context.showTask(restored);
+      context.reply(context.t('reply.restored', { task: describeTask(restored) }), result.operation?.id);
+    }
+  }
+};
+
+export const exportCommand: CommandDefinition = {
+  name: 'export',
+  bare: true,
+  usage: 'command.exportUsage',
+  description: 'command.export',
+  text: 'optional',
+  choices: Object.keys(EXPORT_FORMATS),
+  run: ({ text }, context) => {
+    const [format = 'json', variant] = text.toLowerCase().split(/\s+/).filter(Boolean);
+    // "export ics todo" writes VTODO entries for Thunderbird/Outlook task lists
+    context.exportTasks(EXPORT_FORMATS[format], variant === 'todo' ? 'VTODO' : 'VEVENT');
+  }
+};
+
+export const importCommand: CommandDefinition = {
+  name: 'import',
+  bare: true,
+  usage: 'command.importUsage',
+  description: 'command.import',
+  run: (_args, context) => {
+    context.openImport();
+    context.reply(context.t('reply.importHint'));
+  }
+};
@@ -0,0 +1,51 @@
+import { Todo, AppSettings } from '../types/shared';
+import { ExportFormat } from '../utils/backup';
+import { TaskResult } from '../storage/taskClient';
+import { TaskEdit } from '../utils/taskEdit';
+import { CalendarComponent } from '../utils/icalendar';
+import { MessageKey, MessageParams, Translator } from '../localization';
+
+export type ArgRequirement = 'required' | 'optional';
+
+export interface CommandArgs {
+  task?: Todo;    // Resolved from "#a3f" or a list number
+  text: string;   // Everything after the task reference, trimmed
+}
+
+/**
+ * What a command may do in the popup. Built by App for every message it handles.
+ */
+export interface CommandContext {
+  todos: Todo[];
+  listedTodos: Todo[];  // Order shown by 'list'; list numbers refer to it
+  settings: AppSettings;
+  t: Translator;        // Messages in the language picked in settings
+  reply(text: string, operationId?: string): void;  // With operationId the reply gets a "Hoàn tác" button
+  showTask(todo: Todo): void;
+  showTaskList(tags?: string[]): void;  // Limited to tasks carrying all of these tags
+  // Runs a repository write and shows the new list; null when it failed (already reported)
+  applyChange(request: Promise<TaskResult>): Promise<TaskResult | null>;
+  setCompleted(todo: Todo, completed: boolean): void;
+  // Saves the edit if `todo` is still the stored version and posts what changed (with a "Hoàn tác" button)
+  editTask(todo: Todo, edit: TaskEdit): Promise<void>;
+  undo(): void;
+  redo(): void;
+  clearChat(confirmation: string, operationId?: string): void;
+  exportTasks(format: ExportFormat, component: CalendarComponent): void;
+  openImport(): void;
+  breakDown(todo: Todo): void;
+}
+
+export interface CommandDefinition {
+  name: string;           // Typed as "/name"
+  aliases?: string[];
+  bare?: boolean;         // Also understood without the slash, like the original "add ..." and "list"
+  bareText?: boolean;     // Bare form accepts any text; others need a task reference or choice first
+  usage: MessageKey;
+  usageParams?: MessageParams;  // Filled into the usage line, e.g. the category list
+  description: MessageKey;
+  task?: ArgRequirement;
+  text?: ArgRequirement;
+  choices?: string[];     // Allowed first word of `text`
+  run(args: CommandArgs, context: CommandContext): void | Promise<void>;
+}
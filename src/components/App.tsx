@@ -1,32 +1,60 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import styled from '@emotion/styled';
 import { keyframes } from '@emotion/react';
 import TaskCompletionAnimation from './TaskCompletionAnimation';
-import {
-  TaskDetectionResult,
-  BlameMessageResult,
-  DEFAULT_BLAME_MESSAGES,
-  formatBlamePrompt
-} from '../prompts/taskAnalysis';
+import { TaskDetectionResult } from '../prompts/taskAnalysis';
+import { PERSONA_IDS, PERSONA_CATEGORIES, getPersona, resolvePersona } from '../prompts/personas';
 import { handleTaskDetectionError, handleBlameMessageError } from '../utils/errorHandler';
-import { 
-  AppStrings, 
-  TASK_DETECTION_PROMPT,
-  BLAME_MESSAGE_PROMPT,
-  formatTaskDetectionPrompt,
-} from '../localization/vi';
-import { formatString, getRandomItem } from '../utils/stringUtils';
-import { Todo, AIConfig } from '../types/shared';
-
-interface ChatMessage {
-  id: string;
-  text: string;
-  isBot: boolean;
-  timestamp: number;
-  todo?: Todo; // Optional todo item to display in chat
-  isTodoList?: boolean; // Flag for messages that contain the todo list
-  isProcessing?: boolean; // Flag for messages that are processing
-}
+import { LOCALES, LOCALE_NAMES, Translator, createTranslator, isLocale } from '../localization';
+import { Todo, AIConfig, AppSettings, PersonaId, ChatMessage, TagDefinition, SpiceLevel, MeetingSafeHours, TimeWindow, Locale, DigestTask, PendingBlameMessage } from '../types/shared';
+import { getRemainingTime, isTaskExpired, formatDuration } from '../utils/timebox';
+import { parseDeadline } from '../utils/deadlineParser';
+import { parseTaskInput } from '../utils/taskInput';
+import { describeRecurrence } from '../utils/recurrence';
+import { PRIORITIES, PRIORITY_COLORS, formatPriority, getPriority, isTaskPriority, sortTasks } from '../utils/priority';
+import { TaskEdit, TaskEditField, createTaskEdit, describeTaskEdit } from '../utils/taskEdit';
+import {
+  canonicalTag,
+  createTagDefinition,
+  filterTasksByTags,
+  formatTag,
+  getTaskIcon,
+  getTaskTags,
+  resolveTag,
+  DEFAULT_TAG_COLOR
+} from '../utils/tags';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from '../utils/settings';
+import { readStorage, writeStorage, removeStorage } from '../storage/storage';
+import { detectTasks, breakDownTask } from '../utils/aiTasks';
+import { SPICE_LEVELS } from '../utils/messageQuality';
+import { WEEKDAYS, formatWeekday, toggleDay } from '../utils/schedule';
+import { DEFAULT_QUIET_WINDOW, PAUSE_OPTIONS, PauseOption, getPauseEnd } from '../utils/quietHours';
+import { formatDigestText } from '../utils/dailyDigest';
+import { PROVIDERS, getProvider, isAIConfigured } from '../providers';
+import { StructuredOutputError, formatIssues } from '../utils/schema';
+import { SNOOZE_OPTIONS, getSubtaskProgress } from '../utils/taskActions';
+import { formatTaskRef } from '../utils/taskRefs';
+import {
+  CommandContext,
+  CommandError,
+  CommandSuggestion,
+  ParsedCommand,
+  parseCommand,
+  formatCommandError,
+  getCommandSuggestions
+} from '../commands';
+import { TaskRepositoryError } from '../storage/taskMessages';
+import * as taskClient from '../storage/taskClient';
+import {
+  ExportFormat,
+  createBackup,
+  parseBackup,
+  mergeMessages,
+  exportTasksCSV,
+  exportTasksMarkdown
+} from '../utils/backup';
+import { downloadFile, getExportFileName } from '../utils/fileTransfer';
+import { CalendarComponent, exportTasksICS, parseICS } from '../utils/icalendar';
 
 // Animations - with reduced motion (even more reduced to prevent display issues)
 const fadeIn = `
@@ -112,6 +140,30 @@ const TestNotificationButton = styled.button`
   }
 `;
 
+// Snooze / done buttons shown under a task opened from a notification
+const TaskActions = styled.div`
+  display: flex;
+  gap: 6px;
+  margin-top: 8px;
+`;
+
+const TaskActionButton = styled.button<{ primary?: boolean }>`
+  flex: 1;
+  background: ${props => props.primary ? '#10b981' : '#374151'};
+  border: none;
+  border-radius: 4px;
+  color: white;
+  font-size: 12px;
+  font-weight: 500;
+  padding: 6px 8px;
+  cursor: pointer;
+  transition: all 0.2s ease;
+  
+  &:hover {
+    background: ${props => props.primary ? '#059669' : '#4b5563'};
+  }
+`;
+
 // Update AppTitle to match modern apps
 const AppTitle = styled.div`
   font-size: 16px;
@@ -153,6 +205,30 @@ const AISettingsButton = styled.button`
   }
 `;
 
+// "Pause reminders" buttons next to the settings button
+const HeaderActions = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+`;
+
+const PauseButton = styled.button<{ active?: boolean }>`
+  background: ${props => props.active ? 'rgba(79, 70, 229, 0.5)' : 'rgba(30, 41, 59, 0.4)'};
+  border: none;
+  height: 32px;
+  padding: 0 8px;
+  border-radius: 8px;
+  color: #a5b4fc;
+  font-size: 12px;
+  cursor: pointer;
+  transition: all 0.15s ease;
+  
+  &:hover {
+    background: rgba(30, 41, 59, 0.6);
+    color: #c7d2fe;
+  }
+`;
+
 // Modern chat container
 const ChatContainer = styled.div`
   flex: 1;
@@ -184,6 +260,50 @@ const InputContainer = styled.div`
   z-index: 5;
 `;
 
+// Auto-complete for slash commands, shown above the input
+const SuggestionList = styled.div`
+  display: flex;
+  flex-direction: column;
+  margin: 0 12px -4px;
+  background: rgba(15, 23, 42, 0.95);
+  border: 1px solid rgba(99, 102, 241, 0.3);
+  border-radius: 12px;
+  overflow: hidden;
+`;
+
+const SuggestionItem = styled.button`
+  display: flex;
+  align-items: baseline;
+  gap: 8px;
+  padding: 6px 12px;
+  background: transparent;
+  border: none;
+  color: #e2e8f0;
+  font-size: 12px;
+  text-align: left;
+  cursor: pointer;
+  
+  strong {
+    color: #a5b4fc;
+    flex-shrink: 0;
+  }
+  
+  span {
+    color: #94a3b8;
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+  
+  &:first-of-type {
+    background: rgba(79, 70, 229, 0.15);
+  }
+  
+  &:hover {
+    background: rgba(79, 70, 229, 0.25);
+  }
+`;
+
 // Update Input to match modern chat apps
 const Input = styled.input`
   flex: 1;
@@ -298,6 +418,13 @@ const TodoListTitle = styled.div`
   }
 `;
 
+// The digest title brings its own emoji
+const DigestTitle = styled(TodoListTitle)`
+  &::before {
+    content: none;
+  }
+`;
+
 // Update TodoItem for a more compact, chatbot-like design with enhanced animations
 const TodoItem = styled.div<{ completed: boolean }>`
   display: flex;
@@ -410,6 +537,112 @@ const Deadline = styled.div`
   }
 `;
 
+// Small P1-P4 pill in front of the task text
+const PriorityBadge = styled.span<{ color: string }>`
+  font-size: 10px;
+  font-weight: 700;
+  color: ${props => props.color};
+  border: 1px solid ${props => props.color};
+  border-radius: 6px;
+  padding: 0 5px;
+  margin-right: 6px;
+  line-height: 16px;
+  flex-shrink: 0;
+`;
+
+// Stable "#a3f" reference next to the task text, used by the slash commands
+const TaskRef = styled.span`
+  font-size: 10px;
+  font-family: monospace;
+  color: #64748b;
+  margin-left: 16px;
+  flex-shrink: 0;
+`;
+
+// Checklist steps under a task, with a progress bar
+const SubtaskList = styled.div`
+  display: flex;
+  flex-direction: column;
+  margin-top: 6px;
+`;
+
+const SubtaskProgress = styled.div<{ percent: number }>`
+  height: 3px;
+  border-radius: 2px;
+  margin: 2px 0 4px;
+  background: linear-gradient(to right, rgba(79, 70, 229, 0.8) ${props => props.percent}%, rgba(66, 68, 101, 0.3) ${props => props.percent}%);
+`;
+
+const SubtaskItem = styled.div<{ completed: boolean }>`
+  display: flex;
+  align-items: center;
+  font-size: 12px;
+  padding: 2px 0;
+  color: ${props => props.completed ? 'rgba(226, 232, 240, 0.5)' : '#cbd5e1'};
+  text-decoration: ${props => props.completed ? 'line-through' : 'none'};
+  cursor: pointer;
+  
+  &::before {
+    content: ${props => props.completed ? "'☑'" : "'☐'"};
+    margin-right: 6px;
+  }
+  
+  &:hover {
+    color: #e2e8f0;
+  }
+`;
+
+// "#work" chip in the tag's own color
+const TagChip = styled.span<{ color: string }>`
+  display: inline-block;
+  font-size: 11px;
+  color: ${props => props.color};
+  background: ${props => props.color}22;
+  border: 1px solid ${props => props.color}55;
+  border-radius: 8px;
+  padding: 0 6px;
+  margin: 2px 4px 0 0;
+  line-height: 16px;
+`;
+
+// Inline editor shown under a task while it is being edited
+const TaskEditForm = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  margin-top: 6px;
+  cursor: default;
+`;
+
+const TaskEditRow = styled.div`
+  display: flex;
+  gap: 6px;
+`;
+
+// One tag in settings: icon, color, aliases and remove
+const TagSettingsRow = styled.div`
+  display: grid;
+  grid-template-columns: 44px 36px 1fr 28px;
+  gap: 6px;
+  align-items: center;
+  margin-bottom: 6px;
+`;
+
+const EditButton = styled.button`
+  background: none;
+  border: none;
+  color: #64748b;
+  font-size: 12px;
+  margin-left: 6px;
+  padding: 0 2px;
+  cursor: pointer;
+  flex-shrink: 0;
+  
+  &:hover {
+    color: #a5b4fc;
+  }
+`;
+
 // Update MessageBubble for more consistent styling and positioning
 const MessageBubble = styled.div<{ isBot: boolean }>`
   background: ${props => props.isBot ? 'rgba(30, 41, 59, 0.4)' : 'rgba(79, 70, 229, 0.2)'};
@@ -463,22 +696,6 @@ const Timestamp = styled.div<{ isBot: boolean }>`
   text-align: ${props => props.isBot ? 'left' : 'right'};
 `;
 
-// Add category icon based on todo category
-const getCategoryIcon = (category?: string) => {
-  const lowerCategory = category?.toLowerCase() || 'general';
-  
-  if (lowerCategory.includes('work')) return '💼';
-  if (lowerCategory.includes('personal')) return '👤';
-  if (lowerCategory.includes('health')) return '💪';
-  if (lowerCategory.includes('study') || lowerCategory.includes('school')) return '📚';
-  if (lowerCategory.includes('home')) return '🏠';
-  if (lowerCategory.includes('shop') || lowerCategory.includes('buy')) return '🛒';
-  if (lowerCategory.includes('urgent')) return '🔥';
-  if (lowerCategory.includes('idea')) return '💡';
-  if (lowerCategory.includes('travel')) return '✈️';
-  return '📌';
-};
-
 // Adding missing FloatingActionButton component
 const FloatingActionButton = styled.button`
   position: absolute;
@@ -602,6 +819,28 @@ const AISettingsInput = styled.input`
   }
 `;
 
+const AISettingsTextarea = styled.textarea`
+  width: 100%;
+  min-height: 72px;
+  padding: 8px 10px;
+  background-color: #1e293b;
+  color: white;
+  border: 1px solid #475569;
+  border-radius: 6px;
+  font-size: 13px;
+  font-family: inherit;
+  resize: vertical;
+  
+  &:focus {
+    outline: none;
+    border-color: #6366f1;
+  }
+  
+  &::placeholder {
+    color: #64748b;
+  }
+`;
+
 const ToggleContainer = styled.div`
   display: flex;
   justify-content: space-between;
@@ -708,18 +947,40 @@ const CountdownTimer = styled.div<{ isExpired: boolean }>`
   }
 `;
 
-// Add a generic type for safeParseJSON
-interface SafeParseResult {
-  detectedTasks?: Array<{
-    text: string;
-    deadline?: string;
-  }>;
-  category?: string;
-  blameMessages?: string[];
-}
+// Start / end time and weekday picker for a settings time window
+const TimeWindowFields = ({ window, locale, t, onChange }: {
+  window: TimeWindow;
+  locale: Locale;
+  t: Translator;
+  onChange: (changes: Partial<TimeWindow>) => void;
+}) => (
+  <>
+    <TaskActions>
+      <div style={{ flex: 1 }}>
+        <AISettingsLabel>{t('settings.timeFrom')}</AISettingsLabel>
+        <AISettingsInput type="time" value={window.start} onChange={(e) => onChange({ start: e.target.value })} />
+      </div>
+      <div style={{ flex: 1 }}>
+        <AISettingsLabel>{t('settings.timeTo')}</AISettingsLabel>
+        <AISettingsInput type="time" value={window.end} onChange={(e) => onChange({ end: e.target.value })} />
+      </div>
+    </TaskActions>
+    <TaskActions>
+      {WEEKDAYS.map(day => (
+        <TaskActionButton
+          key={day}
+          primary={window.days.includes(day)}
+          onClick={() => onChange({ days: toggleDay(window.days, day) })}
+        >
+          {formatWeekday(day, locale)}
+        </TaskActionButton>
+      ))}
+    </TaskActions>
+  </>
+);
 
 // Add a helper component to request notification permission
-const NotificationPermissionRequest = () => {
+const NotificationPermissionRequest = ({ t }: { t: Translator }) => {
   const [permission, setPermission] = useState<string>(Notification.permission);
   
   const requestPermission = async () => {
@@ -728,8 +989,8 @@ const NotificationPermissionRequest = () => {
       setPermission(result);
       if (result === 'granted') {
         // Show a sample notification to confirm it works
-        new Notification('Notifications Enabled', {
-          body: 'You will now receive notifications for overdue tasks'
+        new Notification(t('notification.enabledTitle'), {
+          body: t('notification.enabledBody')
         });
       }
     } catch (error) {
@@ -749,10 +1010,10 @@ const NotificationPermissionRequest = () => {
       textAlign: 'center'
     }}>
       <div style={{ fontWeight: 'bold', marginBottom: '8px' }}>
-        Notifications are disabled
+        {t('notification.disabled')}
       </div>
       <div style={{ marginBottom: '10px', fontSize: '14px' }}>
-        Please enable notifications to get reminders for your tasks
+        {t('notification.disabledHint')}
       </div>
       <button 
         onClick={requestPermission}
@@ -766,7 +1027,7 @@ const NotificationPermissionRequest = () => {
           cursor: 'pointer'
         }}
       >
-        Enable Notifications
+        {t('notification.enable')}
       </button>
     </div>
   );
@@ -791,6 +1052,7 @@ const App: React.FC = () => {
   const [schedulerEnabled, setSchedulerEnabled] = useState(false);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   // Add AI config state
   const [aiConfig, setAIConfig] = useState<AIConfig>(() => {
@@ -807,12 +1069,47 @@ const App: React.FC = () => {
   });
   const [showAISettings, setShowAISettings] = useState(false);
   
+  // User-level settings (timebox defaults etc.)
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  
+  // Chat, commands and settings follow the language picked in settings
+  const t = useMemo(() => createTranslator(settings.language), [settings.language]);
+  
+  const updateMeetingSafe = (changes: Partial<MeetingSafeHours>) => setSettings((prev: AppSettings) => ({
+    ...prev,
+    meetingSafe: { ...prev.meetingSafe, ...changes }
+  }));
+  
+  const updateQuietHours = (quietHours: TimeWindow[]) => setSettings((prev: AppSettings) => ({ ...prev, quietHours }));
+  
+  // Order used by 'list', the task list and 'delete [số thứ tự]'
+  const sortedTodos = useMemo(() => sortTasks(todos, settings), [todos, settings]);
+  
+  const suggestions = useMemo(
+    () => getCommandSuggestions(inputValue, { todos, listedTodos: sortedTodos }, t),
+    [inputValue, todos, sortedTodos, t]
+  );
+  
   // Add state for notification permission
   const [notificationPermission, setNotificationPermission] = useState<string | null>(null);
   
   // Add state for completed task animation
   const [completedTaskId, setCompletedTaskId] = useState<string | null>(null);
   
+  // Task open in the inline editor; an empty due field keeps the current deadline
+  const [taskEditDraft, setTaskEditDraft] = useState<{
+    id: string;
+    version?: number;  // Version the editor was opened on, so a change made meanwhile is a conflict
+    text: string;
+    due: string;
+    category: string;
+    priority: string;
+  } | null>(null);
+  // Name typed into "add tag" in settings
+  const [newTagName, setNewTagName] = useState('');
+  // Reminders are held back until this time (ms); the background reads it from storage
+  const [pausedUntil, setPausedUntil] = useState(0);
+  
   // Load todos and AI config from Chrome storage when app starts
   useEffect(() => {
     const loadData = async () => {
@@ -824,35 +1121,56 @@ const App: React.FC = () => {
           console.error('Error sending popup opened message:', error);
         }
 
-        const data = await chrome.storage.local.get([
-          'todos', 
+        // Tasks come from the background repository, which migrates stored data first;
+        // only then can the popup tell whether its old localStorage copy still needs importing
+        const listedTodos = await taskClient.listTasks();
+        const storedTodos = (await taskClient.importLegacyTodos()) ?? listedTodos;
+        const data = await readStorage([
           'aiConfig', 
-          'pendingBlameMessages'
+          'pendingBlameMessages',
+          'focusTaskId',
+          'pausedUntil',
+          'pendingDigest'
         ]);
         
-        // Check for and display any pending blame messages
-        if (data.pendingBlameMessages && Array.isArray(data.pendingBlameMessages) && data.pendingBlameMessages.length > 0) {
-          console.log('Found pending blame messages:', data.pendingBlameMessages);
-          
-          // Display each message in the chat
-          data.pendingBlameMessages.forEach(message => {
-            addBotMessageSimple(message.message);
-          });
-          
-          // Clear pending messages after displaying
-          await chrome.storage.local.set({ pendingBlameMessages: [] });
+        const loadedSettings = await loadSettings();
+        setSettings(loadedSettings);
+        setPausedUntil(data.pausedUntil || 0);
+        
+        // Morning digest sent while the popup was closed, shown as a card
+        if (data.pendingDigest) {
+          const digest = data.pendingDigest;
+          setMessages(prev => [...prev, {
+            id: `digest-${digest.date}`,
+            text: formatDigestText(digest, createTranslator(loadedSettings.language), loadedSettings.language),
+            isBot: true,
+            timestamp: Date.now(),
+            digest
+          }]);
+          await removeStorage(['pendingDigest']);
         }
         
-        if (data.todos && Array.isArray(data.todos)) {
-          setTodos(data.todos);
-        } else {
-          // Try to load from localStorage for backward compatibility
-          const savedTodos = localStorage.getItem('todos');
-          if (savedTodos) {
-            const parsedTodos = JSON.parse(savedTodos);
-            setTodos(parsedTodos);
-            // Also save to Chrome storage
-            await chrome.storage.local.set({ todos: parsedTodos });
+        // Reminders sent while the popup was closed
+        await showPendingBlameMessages(data.pendingBlameMessages);
+        
+        if (storedTodos.length > 0) {
+          setTodos(storedTodos);
+          
+          // Opened from a notification: show that task with snooze / done actions
+          const focusTaskId = data.focusTaskId || new URLSearchParams(window.location.search).get('task');
+          const focusedTodo = focusTaskId ? storedTodos.find(todo => todo.id === focusTaskId) : undefined;
+          if (focusedTodo && !focusedTodo.completed) {
+            setMessages(prev => [...prev, {
+              id: `focus-${Date.now()}`,
+              text: focusedTodo.text,
+              isBot: true,
+              timestamp: Date.now(),
+              todo: focusedTodo,
+              showTaskActions: true
+            }]);
+          }
+          if (data.focusTaskId) {
+            await removeStorage(['focusTaskId']);
           }
         }
         
@@ -865,35 +1183,10 @@ const App: React.FC = () => {
             const parsedConfig = JSON.parse(savedConfig);
             setAIConfig(parsedConfig);
             // Also save to Chrome storage
-            await chrome.storage.local.set({ aiConfig: parsedConfig });
+            await writeStorage({ aiConfig: parsedConfig });
           }
         }
         
-        // Check if we need to show a notification
-        if (data.showNotification) {
-          console.log('Found notification to show:', data.showNotification);
-          
-          // Instead of using browser notifications, display in the app
-          const notificationMessage = data.showNotification.message;
-          // Use normal chat message to display notification
-          addBotMessageSimple(`🚨 ${notificationMessage}`);
-          
-          // Mark as displayed
-          const pendingBlameMessages = data.pendingBlameMessages || [];
-          const updatedMessages = pendingBlameMessages.map((msg: any) => {
-            if (msg.message === notificationMessage) {
-              return { ...msg, displayed: true };
-            }
-            return msg;
-          });
-          
-          // Update storage
-          await chrome.storage.local.set({ 
-            pendingBlameMessages: updatedMessages,
-            showNotification: null // Clear the notification
-          });
-        }
-        
         setIsLoading(false);
       } catch (error) {
         console.error('Error loading data from Chrome storage:', error);
@@ -904,24 +1197,100 @@ const App: React.FC = () => {
     loadData();
   }, []);
   
-  // Save todos to Chrome storage when they change
-  useEffect(() => {
-    if (todos.length > 0 || !isLoading) {
-      try {
-        chrome.storage.local.set({ todos });
-        // Also save to localStorage for backward compatibility
-        localStorage.setItem('todos', JSON.stringify(todos));
-      } catch (error) {
-        console.error('Error saving todos to Chrome storage:', error);
+  // Pauses reminders, or resumes them when `option` is null; resuming asks the background
+  // to send what was held back right away instead of at the next alarm tick
+  const handlePause = async (option: PauseOption | null) => {
+    const until = option ? getPauseEnd(option) : 0;
+    setPausedUntil(until);
+    try {
+      await writeStorage({ pausedUntil: until });
+      if (!option) {
+        chrome.runtime.sendMessage({ action: 'checkTasks' });
       }
+    } catch (error) {
+      console.error('Error saving reminder pause:', error);
     }
-  }, [todos, isLoading]);
+  };
+  
+  // Replace the list with the repository's copy, keeping the popup-only countdown values
+  const applyTasks = useCallback((nextTodos: Todo[]) => {
+    setTodos(prev => nextTodos.map(todo => {
+      const previous = prev.find(item => item.id === todo.id);
+      return previous?.remainingTime !== undefined ? { ...todo, remainingTime: previous.remainingTime } : todo;
+    }));
+  }, []);
+  
+  // The background owns the todo list; follow its changes instead of writing our own copy
+  useEffect(() => taskClient.subscribeToTasks(applyTasks), [applyTasks]);
+  
+  // Report repository failures in the chat
+  const reportTaskError = (error: unknown) => {
+    console.error('Task repository request failed:', error);
+    // The task changed since it was loaded (a reminder, another window); the list already shows the new copy
+    if (error instanceof TaskRepositoryError && error.code === 'conflict' && error.todo) {
+      addBotMessageSimple(t('chat.saveConflict', { task: `${formatTaskRef(error.todo)} "${error.todo.text}"` }));
+      return;
+    }
+    addBotMessageSimple(t('chat.saveFailed'));
+  };
+  
+  // Runs a repository write and shows the result; the repository records it for /undo
+  const applyChange = async (request: Promise<taskClient.TaskResult>): Promise<taskClient.TaskResult | null> => {
+    try {
+      const result = await request;
+      applyTasks(result.todos);
+      return result;
+    } catch (error) {
+      reportTaskError(error);
+      return null;
+    }
+  };
+  
+  // Undo the latest change, or the one whose "Hoàn tác" button was clicked
+  const handleUndo = async (operationId?: string) => {
+    try {
+      const { todos: updatedTodos, operation } = await taskClient.undo(operationId);
+      applyTasks(updatedTodos);
+      // The confirmation's button has done its job
+      setMessages(prev => prev.map(m => m.operationId && m.operationId === operation?.id ? { ...m, operationId: undefined } : m));
+      addBotMessageSimple(t('undo.done', { label: operation?.label ?? '' }));
+    } catch (error) {
+      if (error instanceof TaskRepositoryError && error.code === 'not_found') {
+        addBotMessageSimple(t(operationId ? 'undo.expired' : 'undo.empty'));
+        return;
+      }
+      // A task the step touched was edited since; the step stays in the history
+      if (error instanceof TaskRepositoryError && error.code === 'conflict' && error.todo) {
+        addBotMessageSimple(t('undo.conflict', { task: `${formatTaskRef(error.todo)} "${error.todo.text}"` }));
+        return;
+      }
+      reportTaskError(error);
+    }
+  };
+  
+  const handleRedo = async () => {
+    try {
+      const { todos: updatedTodos, operation } = await taskClient.redo();
+      applyTasks(updatedTodos);
+      addBotMessageSimple(t('redo.done', { label: operation?.label ?? '' }), operation?.id);
+    } catch (error) {
+      if (error instanceof TaskRepositoryError && error.code === 'not_found') {
+        addBotMessageSimple(t('redo.empty'));
+        return;
+      }
+      if (error instanceof TaskRepositoryError && error.code === 'conflict' && error.todo) {
+        addBotMessageSimple(t('redo.conflict', { task: `${formatTaskRef(error.todo)} "${error.todo.text}"` }));
+        return;
+      }
+      reportTaskError(error);
+    }
+  };
   
   // Save AI config to Chrome storage when it changes
   useEffect(() => {
     if (!isLoading) {
       try {
-        chrome.storage.local.set({ aiConfig });
+        writeStorage({ aiConfig });
         // Also save to localStorage for backward compatibility
         localStorage.setItem('aiConfig', JSON.stringify(aiConfig));
       } catch (error) {
@@ -930,6 +1299,15 @@ const App: React.FC = () => {
     }
   }, [aiConfig, isLoading]);
   
+  // Save settings to Chrome storage when they change
+  useEffect(() => {
+    if (!isLoading) {
+      saveSettings(settings).catch(error => {
+        console.error('Error saving settings to Chrome storage:', error);
+      });
+    }
+  }, [settings, isLoading]);
+  
   // Notify background script when tasks are added or modified
   useEffect(() => {
     if (!isLoading && todos.length > 0) {
@@ -941,346 +1319,24 @@ const App: React.FC = () => {
     }
   }, [todos, isLoading]);
   
-  // Function to safely generate blame messages with AI
-  const generateBlameMessage = async (task: { text: string, category?: string, completed: boolean, id: string }): Promise<BlameMessageResult> => {
-    try {
-      if (!aiConfig.enabled || !aiConfig.apiKey) {
-        console.log('AI not enabled or no API key, using default blame messages');
-        return { blameMessages: DEFAULT_BLAME_MESSAGES };
-      }
-      
-      console.log('Generating blame message for task:', task.text, 'using provider:', aiConfig.provider);
-      
-      // Create a promise that rejects after timeout
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('AI request timed out')), 20000); // Increased timeout to 20 seconds to ensure complete response
-      });
-      
-      // Create the actual AI request promise
-      const aiRequestPromise = (async () => {
-        const formatPrompt = formatBlamePrompt({ 
-          text: task.text,
-          category: task.category || 'general',
-        });
-        
-        let apiEndpoint = '';
-        let requestBody = {};
-        
-        switch (aiConfig.provider) {
-          case 'openai':
-            apiEndpoint = 'https://api.openai.com/v1/chat/completions';
-            requestBody = {
-              model: aiConfig.model || "gpt-3.5-turbo",
-              messages: [
-                { role: "system", content: BLAME_MESSAGE_PROMPT },
-                { role: "user", content: formatPrompt }
-              ],
-              temperature: 0.9, // Higher temperature for more creative responses
-              max_tokens: 400,  // Higher token limit for more complete responses
-              frequency_penalty: 0.2  // To encourage more varied responses
-            };
-            break;
-            
-          case 'openrouter':
-            apiEndpoint = 'https://openrouter.ai/api/v1/chat/completions';
-            requestBody = {
-              model: aiConfig.model || "anthropic/claude-3-haiku",  // Try a different model that may handle Vietnamese better
-              messages: [
-                { role: "system", content: BLAME_MESSAGE_PROMPT },
-                { role: "user", content: formatPrompt }
-              ],
-              temperature: 0.9,
-              max_tokens: 400,
-              frequency_penalty: 0.2
-            };
-            break;
-            
-          case 'gemini':
-            apiEndpoint = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent';
-            requestBody = {
-              contents: [{
-                parts: [{
-                  text: `${BLAME_MESSAGE_PROMPT}\n\n${formatPrompt}`
-                }]
-              }],
-              generationConfig: {
-                temperature: 0.9,
-                maxOutputTokens: 400,
-                topP: 0.9,
-                topK: 40
-              },
-              safetySettings: [
-                {
-                  category: "HARM_CATEGORY_HARASSMENT",
-                  threshold: "BLOCK_MEDIUM_AND_ABOVE"
-                }
-              ]
-            };
-            break;
-            
-          default:
-            return { blameMessages: DEFAULT_BLAME_MESSAGES };
-        }
-        
-        const headers: Record<string, string> = {
-          'Content-Type': 'application/json'
-        };
-        
-        if (aiConfig.provider === 'openai' || aiConfig.provider === 'openrouter') {
-          headers['Authorization'] = `Bearer ${aiConfig.apiKey}`;
-        } else if (aiConfig.provider === 'gemini') {
-          headers['x-goog-api-key'] = aiConfig.apiKey;
-        }
-        
-        const response = await fetch(apiEndpoint, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(requestBody)
-        });
-        
-        if (!response.ok) {
-          throw new Error(`API error: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        console.log('Received AI response for blame message:', data);
-        
-        // Parse response based on provider
-        let result: any;
-        
-        if (aiConfig.provider === 'gemini') {
-          const text = data.candidates[0].content.parts[0].text;
-          console.log('Raw Gemini response:', text);
-          result = safeParseJSON(text);
-        } else if (aiConfig.provider === 'openrouter') {
-          const text = data.choices[0].message.content;
-          console.log('Raw OpenRouter response:', text);
-          result = safeParseJSON(text);
-        } else {
-          const text = data.choices[0].message.content;
-          console.log('Raw OpenAI response:', text);
-          result = safeParseJSON(text);
-        }
-        
-        if (!result || !result.blameMessages || !Array.isArray(result.blameMessages) || result.blameMessages.length === 0) {
-          console.error('Invalid or empty blame messages from AI, using defaults');
-          return { blameMessages: DEFAULT_BLAME_MESSAGES };
-        }
-        
-        console.log('Parsed blame messages:', result.blameMessages);
-        return { 
-          blameMessages: result.blameMessages 
-        };
-      })();
-      
-      // Race between the AI request and timeout
-      return await Promise.race([aiRequestPromise, timeoutPromise]);
-    } catch (error) {
-      console.error('Error generating blame message:', error);
-      return { blameMessages: DEFAULT_BLAME_MESSAGES };
-    }
+  // Reminders the background stored for the chat; shown once, then cleared
+  const showPendingBlameMessages = async (pending: PendingBlameMessage[] | undefined) => {
+    if (!Array.isArray(pending) || pending.length === 0) return;
+    pending.forEach(message => addBotMessageSimple(message.message));
+    await writeStorage({ pendingBlameMessages: [] });
   };
   
-  // Helper function to safely parse JSON from AI responses
-  const safeParseJSON = (text: string) => {
-    try {
-      console.log('Parsing raw AI response:', text);
-      
-      // First, try to extract content from markdown code blocks
-      if (text.includes('```')) {
-        // Extract content between code fences
-        const match = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (match && match[1]) {
-          text = match[1].trim();
-          console.log('Extracted JSON from code block:', text);
-        }
+  // While the popup is open, reminders the background sends appear in the chat as well
+  useEffect(() => {
+    const handleChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'local' && changes.pendingBlameMessages) {
+        showPendingBlameMessages(changes.pendingBlameMessages.newValue).catch(error =>
+          console.error('Error showing reminders:', error));
       }
-      
-      // For blame messages that might be too long or have formatting issues
-      // Try to extract just the message content directly if it looks like a blame message
-      if (text.includes('blame') && text.includes('leetcode') && !text.includes('{')) {
-        console.log('Found raw blame message without JSON formatting, converting to proper format');
-        // Split by sentences or lines to get individual messages
-        const sentences = text.split(/[.!?][\s\n]+/).filter(s => s.length > 10);
-        if (sentences.length > 0) {
-          return { 
-            blameMessages: sentences.slice(0, 3).map(s => s.trim() + '!') 
-          };
-        }
-      }
-      
-      // Clean up any extra text around the JSON
-      text = text.replace(/^[^{]*/, '').replace(/[^}]*$/, '');
-      
-      // Complete sanitization of the JSON string to ensure it's valid
-      let sanitizedText = '';
-      let inString = false;
-      let escape = false;
-      
-      // Character-by-character sanitization
-      for (let i = 0; i < text.length; i++) {
-        const char = text[i];
-        
-        // Handle string boundary and escape sequences
-        if (char === '"' && !escape) {
-          inString = !inString;
-          sanitizedText += char;
-        } 
-        // Handle escape character
-        else if (char === '\\' && !escape) {
-          escape = true;
-          sanitizedText += char;
-        }
-        // Handle characters inside strings - remove control characters
-        else if (inString) {
-          // Skip control characters completely
-          if (char >= '\u0000' && char <= '\u001F') {
-            // Skip the character
-          }
-          // Handle escaped characters properly
-          else if (escape) {
-            // Only allow valid escape sequences
-            if ('"\\/bfnrt'.includes(char)) {
-              sanitizedText += char;
-            } else {
-              // Skip invalid escape sequences
-            }
-            escape = false;
-          }
-          // Normal characters within strings
-          else {
-            sanitizedText += char;
-          }
-        }
-        // Handle characters outside strings
-        else {
-          // Only allow valid JSON structural characters outside strings
-          if (/^[\{\}\[\]:,\s0-9.\-+]$/.test(char)) {
-            sanitizedText += char;
-          }
-          escape = false;
-        }
-      }
-      
-      // Ensure strings are properly closed
-      if (inString) {
-        sanitizedText += '"';
-      }
-      
-      console.log('Original JSON text:', text);
-      console.log('Sanitized JSON text:', sanitizedText);
-      
-      // Try parsing the sanitized JSON
-      try {
-        const parsedJson = JSON.parse(sanitizedText);
-        console.log('Successfully parsed sanitized JSON:', parsedJson);
-        
-        // Handle different response formats - look for blameMessages or trollReminders
-        if (parsedJson.blameMessages) {
-          // Handle case where blameMessages is itself a string (not an array)
-          if (typeof parsedJson.blameMessages === 'string') {
-            console.log('Found blameMessages as a string value, converting to array');
-            return { blameMessages: [parsedJson.blameMessages] };
-          }
-          // Handle normal array case
-          else if (Array.isArray(parsedJson.blameMessages)) {
-            // Filter out any items that are literally "blameMessages"
-            const filteredMessages = parsedJson.blameMessages.filter((msg: any) => 
-              msg !== "blameMessages" && msg !== "blameMessages\\"
-            );
-            
-            // Fall back to defaults if all items were filtered out
-            if (filteredMessages.length === 0) {
-              console.log('All blame messages were invalid, using defaults');
-              return { blameMessages: DEFAULT_BLAME_MESSAGES };
-            }
-            
-            // Ensure messages are not too long
-            const messages = filteredMessages.map((msg: string) => 
-              typeof msg === 'string' ? 
-                (msg.length > 150 ? msg.substring(0, 147) + '...' : msg) : 
-                JSON.stringify(msg).substring(0, 100)
-            );
-            return { blameMessages: messages };
-          }
-        }
-        
-        // Check for trollReminders format (seen in Gemini responses)
-        if (parsedJson.trollReminders && Array.isArray(parsedJson.trollReminders)) {
-          console.log('Found trollReminders format, converting to blameMessages');
-          // Extract messages from the trollReminders array
-          if (parsedJson.trollReminders.length > 0) {
-            const messages = parsedJson.trollReminders.map((item: any) => {
-              const msg = typeof item === 'string' ? item : 
-                (item.message || item.text || JSON.stringify(item));
-              return msg.length > 150 ? msg.substring(0, 147) + '...' : msg;
-            }).filter(Boolean);
-            
-            if (messages.length > 0) {
-              return { blameMessages: messages };
-            }
-          }
-        }
-        
-        // Look for any arrays in the response that might contain messages
-        for (const key in parsedJson) {
-          if (Array.isArray(parsedJson[key])) {
-            const possibleMessages = parsedJson[key];
-            if (possibleMessages.length > 0) {
-              // Try to extract message strings from the array
-              const extractedMessages = possibleMessages.map((item: any) => {
-                let msg = '';
-                if (typeof item === 'string') msg = item;
-                else if (item.message) msg = item.message;
-                else if (item.text) msg = item.text;
-                else if (item.content) msg = item.content;
-                else return null;
-                
-                // Truncate long messages
-                return msg.length > 150 ? msg.substring(0, 147) + '...' : msg;
-              }).filter(Boolean);
-              
-              if (extractedMessages.length > 0) {
-                console.log(`Found messages in "${key}" field:`, extractedMessages);
-                return { blameMessages: extractedMessages };
-              }
-            }
-          }
-        }
-      } catch (jsonError) {
-        console.warn('Standard JSON parse failed, trying alternative methods:', jsonError);
-      }
-      
-      // If we're dealing with blame messages, try to extract them directly using regex
-      const blameMessageRegex = /"blameMessages"\s*:\s*\[\s*"([^"]+)"\s*(?:,\s*"([^"]+)"\s*)?(?:,\s*"([^"]+)"\s*)?\]/;
-      const blameMatch = text.match(blameMessageRegex);
-      if (blameMatch) {
-        console.log('Extracted blame messages using regex');
-        const messages = blameMatch.slice(1).filter(Boolean).map(msg => 
-          msg.length > 150 ? msg.substring(0, 147) + '...' : msg
-        );
-        if (messages.length > 0) {
-          return { blameMessages: messages };
-        }
-      }
-      
-      // Final fallback: Extract any quoted strings that look like messages
-      const quotedStringsRegex = /"([^"]{10,150})"/g;
-      const messageMatches = [...text.matchAll(quotedStringsRegex)];
-      if (messageMatches.length > 0) {
-        console.log('Extracted quoted strings that appear to be messages');
-        const messages = messageMatches.map(m => m[1]).slice(0, 3);
-        return { blameMessages: messages };
-      }
-      
-      // If all parsing methods fail, use default messages
-      console.warn('All JSON parsing methods failed, using default messages');
-      return { blameMessages: DEFAULT_BLAME_MESSAGES };
-    } catch (e) {
-      console.error('Error in safeParseJSON:', e);
-      return { blameMessages: DEFAULT_BLAME_MESSAGES };
-    }
-  };
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
   
   // Create a simplified initialization process
   useEffect(() => {
@@ -1299,7 +1355,7 @@ const App: React.FC = () => {
           // Add welcome message if messages array is empty
           const welcomeMsg: ChatMessage = {
             id: Date.now().toString(),
-            text: "Xin chào! Tôi là Task Chat, trợ lý giúp bạn quản lý công việc một cách hiệu quả. Hãy tạo công việc đầu tiên bằng cách nhập 'add [công việc]'.",
+            text: t('chat.welcome'),
             isBot: true,
             timestamp: Date.now()
           };
@@ -1309,7 +1365,7 @@ const App: React.FC = () => {
         // Display a simple welcome message if no saved messages
         const welcomeMsg: ChatMessage = {
           id: Date.now().toString(),
-          text: "Xin chào! Tôi là Task Chat, trợ lý giúp bạn quản lý công việc một cách hiệu quả. Hãy tạo công việc đầu tiên bằng cách nhập 'add [công việc]'.",
+          text: t('chat.welcome'),
           isBot: true,
           timestamp: Date.now()
         };
@@ -1320,7 +1376,7 @@ const App: React.FC = () => {
       // Add fallback welcome message
       const welcomeMsg: ChatMessage = {
         id: Date.now().toString(),
-        text: "Xin chào! Tôi là Task Chat, trợ lý giúp bạn quản lý công việc một cách hiệu quả. Hãy tạo công việc đầu tiên bằng cách nhập 'add [công việc]'.",
+        text: t('chat.welcome'),
         isBot: true,
         timestamp: Date.now()
       };
@@ -1348,7 +1404,7 @@ const App: React.FC = () => {
   }, [messages]);
   
   // Simple function to add a message from the bot
-  const addBotMessageSimple = (text: string) => {
+  const addBotMessageSimple = (text: string, operationId?: string) => {
     // Sanitize text to remove or replace problematic characters
     let sanitizedText = text;
     
@@ -1360,163 +1416,343 @@ const App: React.FC = () => {
     
     // Ensure text isn't undefined or null
     if (!sanitizedText) {
-      sanitizedText = "Tin nhắn không hợp lệ";
+      sanitizedText = t('chat.invalidMessage');
     }
     
     const message: ChatMessage = {
       id: Date.now().toString(),
       text: sanitizedText,
       isBot: true,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      operationId
     };
     setMessages(prev => [...prev, message]);
   };
   
   // Function to show todo list
-  const showTodoListSimple = () => {
-    const todoListMessage = {
+  const showTodoListSimple = (filterTags?: string[]) => {
+    const todoListMessage: ChatMessage = {
       id: Date.now().toString(),
-      text: "Here are your tasks:",
+      text: t('list.intro'),
       isBot: true,
       isTodoList: true,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      ...(filterTags && filterTags.length > 0 ? { filterTags } : {})
     };
     setMessages(prev => [...prev, todoListMessage]);
   };
   
   // Function to handle task completion
-  const handleTaskCompletion = (id: string, completed: boolean) => {
+  const handleTaskCompletion = async (id: string, completed: boolean) => {
     console.log('Task completion triggered', { id, completed });
     
-    setTodos(prev => {
-      const newTodos = prev.map(todo => {
-        if (todo.id === id) {
-          console.log('Found matching todo for completion', todo);
-          return { ...todo, completed };
-        }
-        return todo;
-      });
-      console.log('Updated todos array', newTodos);
-      return newTodos;
-    });
+    const result = await applyChange(taskClient.setTaskCompleted(id, completed));
+    if (!result) return;
+    const updatedTodos = result.todos;
     
     if (completed) {
       console.log('Setting completedTaskId to trigger animation', id);
       // Show celebration animation
       setCompletedTaskId(id);
       
-      // Send message to background script to clear notifications for this task
-      chrome.runtime.sendMessage({
-        action: 'taskCompleted',
-        taskId: id
-      }, (response) => {
-        console.log('Background response to task completion:', response);
-      });
-      
       // Add a congratulatory message
-      addBotMessageSimple(`✅ Great job! You've completed a task.`);
+      const completedTodo = updatedTodos.find(todo => todo.id === id);
+      addBotMessageSimple(t('task.completed', { task: completedTodo?.text ?? '' }), result.operation?.id);
+      
+      // Completing a recurring task schedules its next occurrence
+      const nextOccurrence = completedTodo?.nextOccurrenceId
+        ? updatedTodos.find(todo => todo.id === completedTodo.nextOccurrenceId)
+        : undefined;
+      if (nextOccurrence && nextOccurrence.dueDate && !nextOccurrence.completed) {
+        addBotMessageSimple(t('task.nextOccurrence', { date: new Date(nextOccurrence.dueDate).toLocaleString() }));
+      }
     }
   };
   
-  // Enhanced message handling with basic task functions
-  const handleSendMessage = () => {
-    if (!inputValue.trim()) return;
+  // Save an edit from /edit or the inline editor and record what changed in the chat.
+  // The edit only applies to the version that was shown; anything newer is reported as a conflict.
+  const handleTaskEdit = async (todo: Todo, edit: TaskEdit, expectedVersion: number | undefined = todo.version) => {
+    const unchanged = t('edit.unchanged', { task: `${formatTaskRef(todo)} "${todo.text}"` });
+    if (Object.keys(edit).length === 0) {
+      addBotMessageSimple(unchanged);
+      return;
+    }
     
-    // Add user message
-    const userMessage: ChatMessage = {
-      id: Date.now().toString(),
-      text: inputValue,
-      isBot: false,
-      timestamp: Date.now()
-    };
+    const result = await applyChange(taskClient.editTask(todo.id, edit, expectedVersion));
+    if (!result) return;
     
-    setMessages(prev => [...prev, userMessage]);
+    const edited = result.todos.find(item => item.id === todo.id) || todo;
+    const changes = describeTaskEdit(todo, edited, t);
+    if (changes.length === 0) {
+      addBotMessageSimple(unchanged);
+      return;
+    }
+    addBotMessageSimple(t('edit.saved', {
+      task: `${formatTaskRef(edited)} "${edited.text}"`,
+      changes: changes.map(line => `• ${line}`).join('\n')
+    }), result.operation?.id);
+  };
+  
+  const startTaskEdit = (todo: Todo) => {
+    setTaskEditDraft({
+      id: todo.id,
+      version: todo.version,
+      text: todo.text,
+      due: '',
+      category: todo.category || 'general',
+      priority: String(getPriority(todo))
+    });
+  };
+  
+  // Only fields the user actually changed go into the edit
+  const saveTaskEdit = (todo: Todo) => {
+    if (!taskEditDraft) return;
+    const fields: Partial<Record<TaskEditField, string>> = {};
+    if (taskEditDraft.text.trim() !== todo.text) fields.text = taskEditDraft.text.trim();
+    if (taskEditDraft.due.trim()) fields.due = taskEditDraft.due.trim();
+    if (taskEditDraft.category !== (todo.category || 'general')) fields.category = taskEditDraft.category;
+    if (taskEditDraft.priority !== String(getPriority(todo))) fields.priority = taskEditDraft.priority;
     
-    // Process command
-    const input = inputValue.toLowerCase();
+    const { edit, invalid } = createTaskEdit(todo, fields);
+    if (invalid.length > 0) {
+      addBotMessageSimple(invalid.includes('due')
+        ? t('edit.invalidDue', { due: taskEditDraft.due })
+        : t('edit.emptyText'));
+      return;
+    }
     
-    // Normal task handling logic
-    if (input.startsWith('add ')) {
-      const taskText = inputValue.substring(4).trim();
-      // Create a new task
-      const newTodo: Todo = {
-        id: Date.now().toString(),
-        text: taskText,
-        completed: false,
-        category: 'general',
-        created: Date.now()
-      };
-      
-      // Add to todos
-      setTodos(prev => [...prev, newTodo]);
-      
-      // Show the task in chat
-      const todoMessage: ChatMessage = {
-        id: Date.now().toString(),
-        text: '',
-        isBot: true,
-        timestamp: Date.now(),
-        todo: newTodo
-      };
-      
-      setMessages(prev => [...prev, todoMessage]);
+    setTaskEditDraft(null);
+    handleTaskEdit(todo, edit, taskEditDraft.version);
+  };
+  
+  // Push a task's deadline back and stop nagging about it until then
+  const handleTaskSnooze = async (id: string, minutes: number) => {
+    const result = await applyChange(taskClient.snoozeTask(id, minutes));
+    if (!result) return;
+    
+    addBotMessageSimple(t('task.snoozed', { duration: formatDuration(minutes * 60 * 1000) }), result.operation?.id);
+  };
+  
+  // Tick or untick a checklist step without toggling the parent task
+  const handleSubtaskToggle = (todoId: string, subtaskId: string, completed: boolean) => {
+    applyChange(taskClient.setSubtaskCompleted(todoId, subtaskId, completed));
+  };
+  
+  // Ask the AI to split a task into steps and append them to its checklist
+  const handleBreakDown = async (todo: Todo) => {
+    if (!isAIConfigured(aiConfig)) {
+      addBotMessageSimple(t('breakdown.needsAI'));
+      return;
+    }
+    
+    const processingId = Date.now().toString();
+    setMessages(prev => [...prev, {
+      id: processingId,
+      text: t('breakdown.working', { task: todo.text }),
+      isBot: true,
+      timestamp: Date.now(),
+      isProcessing: true
+    }]);
+    
+    try {
+      const { subtasks } = await breakDownTask(aiConfig, todo, settings.language);
+      const known = new Set((todo.subtasks || []).map(subtask => subtask.text.toLowerCase()));
+      const steps = subtasks.filter(text => !known.has(text.toLowerCase()));
+      setMessages(prev => prev.filter(m => m.id !== processingId));
       
-      // Confirmation message
-      addBotMessageSimple(`✅ Đã thêm công việc: "${taskText}"`);
-    } 
-    else if (input === 'list' || input === 'tasks') {
-      if (todos.length === 0) {
-        addBotMessageSimple("Bạn chưa có công việc nào. Hãy thêm công việc bằng cách nhập 'add [công việc]'.");
-      } else {
-        showTodoListSimple();
+      if (steps.length === 0) {
+        addBotMessageSimple(t('breakdown.nothing', { task: todo.text }));
+        return;
       }
-    }
-    else if (input.startsWith('delete ')) {
-      const taskIdx = parseInt(input.split(' ')[1]) - 1;
       
-      if (isNaN(taskIdx) || taskIdx < 0 || taskIdx >= todos.length) {
-        addBotMessageSimple("Không tìm thấy công việc đó. Hãy nhập 'list' để xem danh sách công việc của bạn.");
+      const { todos: updatedTodos, operation } = await taskClient.addSubtasks(todo.id, steps);
+      applyTasks(updatedTodos);
+      addBotMessageSimple(t('breakdown.done', {
+        task: todo.text,
+        count: steps.length,
+        steps: steps.map((step, i) => `${i + 1}. ${step}`).join('\n')
+      }), operation?.id);
+    } catch (error) {
+      setMessages(prev => prev.filter(m => m.id !== processingId));
+      console.error('Error breaking down task:', error);
+      if (error instanceof StructuredOutputError) {
+        addBotMessageSimple(t('breakdown.badFormat'));
       } else {
-        const deletedTodo = todos[taskIdx];
-        setTodos(prev => prev.filter((_, idx) => idx !== taskIdx));
-        addBotMessageSimple(`🗑️ Đã xóa công việc: "${deletedTodo.text}"`);
+        addBotMessageSimple(t('breakdown.failed', { error: error instanceof Error ? error.message : String(error) }));
       }
     }
-    else if (input === 'help') {
-      addBotMessageSimple("Các lệnh: 'add [công việc]', 'list', 'delete [số thứ tự]', 'clear' (xóa tất cả công việc), 'clearall' (xóa tất cả công việc và tin nhắn), 'help'. Bạn cũng có thể nhắn tin bình thường và tôi sẽ phân tích xem có công việc nào cần làm không.");
+  };
+  
+  // Download tasks (and, for JSON, the whole backup) in the requested format
+  const handleExport = (format: ExportFormat, calendarComponent: CalendarComponent = 'VEVENT') => {
+    if (format === 'ics') {
+      const count = todos.filter(todo => !todo.completed && todo.dueDate).length;
+      downloadFile(getExportFileName('ics'), exportTasksICS(todos, settings, calendarComponent), 'text/calendar;charset=utf-8');
+      addBotMessageSimple(t('export.calendar', { count }));
+      return;
     }
-    else if (input === 'clear') {
-      if (todos.length === 0) {
-        addBotMessageSimple("Bạn chưa có công việc nào để xóa.");
-      } else {
-        const taskCount = todos.length;
-        setTodos([]);
-        addBotMessageSimple(`🧹 Đã xóa tất cả ${taskCount} công việc.`);
-      }
+    if (format === 'json') {
+      const backup = createBackup({ todos, messages, settings, aiConfig });
+      downloadFile(getExportFileName('json'), JSON.stringify(backup, null, 2), 'application/json');
+    } else if (format === 'csv') {
+      downloadFile(getExportFileName('csv'), exportTasksCSV(todos, settings.language), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(getExportFileName('md'), exportTasksMarkdown(todos, settings), 'text/markdown;charset=utf-8');
     }
-    else if (input === 'clearall') {
-      // Clear all tasks
-      const taskCount = todos.length;
-      setTodos([]);
-      
-      // Create welcome message
+    addBotMessageSimple(t('export.done', { count: todos.length, format: format.toUpperCase() }));
+  };
+  
+  // Restore a JSON backup, merging tasks and messages by id instead of replacing them
+  const handleImportFile = async (file: File) => {
+    const text = await file.text();
+    if (file.name.toLowerCase().endsWith('.ics') || text.trimStart().startsWith('BEGIN:VCALENDAR')) {
+      await handleImportCalendar(text);
+      return;
+    }
+    
+    const result = parseBackup(text);
+    if (!result.ok) {
+      console.error('Invalid backup file:', result.issues);
+      addBotMessageSimple(t('import.invalid', { issues: formatIssues(result.issues.slice(0, 3)) }));
+      return;
+    }
+    
+    const backup = result.value;
+    const existing = new Map(todos.map(todo => [todo.id, todo]));
+    const added = backup.todos.filter(todo => !existing.has(todo.id)).length;
+    const updated = backup.todos.filter(todo => {
+      const current = existing.get(todo.id);
+      return current && (todo.version ?? 0) > (current.version ?? 0);
+    }).length;
+    
+    const merge = await applyChange(taskClient.mergeTasks(backup.todos));
+    if (!merge) return;
+    
+    if (backup.messages) {
+      setMessages(prev => mergeMessages(prev, backup.messages!));
+    }
+    if (backup.settings) {
+      setSettings(prev => ({ ...prev, ...backup.settings }));
+    }
+    if (backup.aiConfig) {
+      // Only preferences are imported; the key, provider and endpoint stay as entered
+      setAIConfig(prev => ({ ...prev, ...backup.aiConfig }));
+    }
+    
+    addBotMessageSimple(t('import.done', { added, updated, kept: backup.todos.length - added - updated }), merge.operation?.id);
+  };
+  
+  // Create tasks from calendar entries; ids are stable so importing twice merges
+  const handleImportCalendar = async (text: string) => {
+    const { todos: imported, skipped } = parseICS(text);
+    const skippedNote = skipped > 0 ? t('import.calendarSkipped', { count: skipped }) : '';
+    if (imported.length === 0) {
+      addBotMessageSimple(t('import.calendarEmpty', { details: skippedNote ? ` (${skippedNote})` : '' }));
+      return;
+    }
+    
+    const knownIds = new Set(todos.map(todo => todo.id));
+    const added = imported.filter(todo => !knownIds.has(todo.id)).length;
+    
+    const merge = await applyChange(taskClient.mergeTasks(imported));
+    if (!merge) return;
+    
+    const details = [
+      imported.length > added ? t('import.calendarExisting', { count: imported.length - added }) : '',
+      skippedNote
+    ].filter(Boolean).map(detail => `, ${detail}`).join('');
+    addBotMessageSimple(t('import.calendarDone', { count: added, details }), merge.operation?.id);
+  };
+  
+  // What commands from the registry can do in the popup (see commands/types)
+  const createCommandContext = (userMessage: ChatMessage): CommandContext => ({
+    todos,
+    listedTodos: sortedTodos,
+    settings,
+    t,
+    reply: addBotMessageSimple,
+    showTask: (todo) => {
+      setMessages(prev => [...prev, {
+        id: `${Date.now()}-task`,
+        text: '',
+        isBot: true,
+        timestamp: Date.now(),
+        todo
+      }]);
+    },
+    showTaskList: showTodoListSimple,
+    applyChange,
+    setCompleted: (todo, completed) => handleTaskCompletion(todo.id, completed),
+    editTask: handleTaskEdit,
+    undo: () => handleUndo(),
+    redo: handleRedo,
+    clearChat: (confirmation, operationId) => {
       const welcomeMsg: ChatMessage = {
         id: Date.now().toString(),
-        text: "Xin chào! Tôi là Task Chat, trợ lý giúp bạn quản lý công việc một cách hiệu quả. Hãy tạo công việc đầu tiên bằng cách nhập 'add [công việc]'.",
+        text: t('chat.welcome'),
         isBot: true,
         timestamp: Date.now()
       };
-      
-      // Create confirmation message
       const confirmMsg: ChatMessage = {
         id: (Date.now() + 1).toString(),
-        text: `🧹 Đã xóa tất cả ${taskCount} công việc và lịch sử tin nhắn.`,
+        text: confirmation,
         isBot: true,
-        timestamp: Date.now() + 1
+        timestamp: Date.now() + 1,
+        operationId
       };
-      
-      // Set messages to welcome message, user command, and confirmation
+      // Keep the command that cleared the chat between the greeting and the confirmation
       setMessages([welcomeMsg, userMessage, confirmMsg]);
+    },
+    exportTasks: handleExport,
+    openImport: () => importInputRef.current?.click(),
+    breakDown: handleBreakDown
+  });
+  
+  // Accept an auto-complete suggestion and keep typing after it
+  const applySuggestion = (suggestion: CommandSuggestion) => {
+    setInputValue(suggestion.value);
+    inputRef.current?.focus();
+  };
+  
+  // Enhanced message handling with basic task functions
+  const handleSendMessage = () => {
+    if (!inputValue.trim()) return;
+    
+    // Add user message
+    const userMessage: ChatMessage = {
+      id: Date.now().toString(),
+      text: inputValue,
+      isBot: false,
+      timestamp: Date.now()
+    };
+    
+    setMessages(prev => [...prev, userMessage]);
+    
+    // Slash commands (and the bare "add", "list", ... forms) go through the command registry
+    let parsed: ParsedCommand | null = null;
+    let commandError: CommandError | null = null;
+    try {
+      parsed = parseCommand(inputValue, { todos, listedTodos: sortedTodos });
+    } catch (error) {
+      if (!(error instanceof CommandError)) throw error;
+      commandError = error;
+    }
+    
+    if (commandError) {
+      addBotMessageSimple(formatCommandError(commandError, settings.language));
+    }
+    else if (parsed) {
+      const { command, args } = parsed;
+      console.log('Running command:', command.name, args);
+      Promise.resolve(command.run(args, createCommandContext(userMessage))).catch(error => {
+        // Commands that resolve their own arguments (e.g. /restore from the trash) report them the same way
+        if (error instanceof CommandError) {
+          addBotMessageSimple(formatCommandError(error, settings.language));
+          return;
+        }
+        console.error(`Command /${command.name} failed:`, error);
+        addBotMessageSimple(t('command.failed', { command: command.name }));
+      });
     }
     else {
       // Try simple task detection for direct messages first
@@ -1531,7 +1767,7 @@ const App: React.FC = () => {
         const processingId = Date.now().toString();
         const processingMessage: ChatMessage = {
           id: processingId,
-          text: "Đang phân tích tin nhắn của bạn...",
+          text: t('chat.analyzing'),
           isBot: true,
           timestamp: Date.now(),
           isProcessing: true
@@ -1548,27 +1784,18 @@ const App: React.FC = () => {
               // Task was detected and added, no need for additional response
             } else {
               // No task detected, give a normal response
-              addBotMessageSimple(`Tôi hiểu rồi. Bạn có thể thêm công việc bằng cách nhập 'add [công việc]'.`);
+              addBotMessageSimple(t('chat.noTaskFound'));
             }
           })
           .catch(error => {
             // Remove processing message and show error
             setMessages(prev => prev.filter(m => m.id !== processingId));
             console.error('Error detecting tasks:', error);
-            addBotMessageSimple(`Xin lỗi, tôi gặp vấn đề khi phân tích tin nhắn của bạn. Hãy thử lại sau.`);
+            addBotMessageSimple(t('chat.analyzeFailed'));
           });
       } else {
-        // AI is not enabled, give a normal response
-        const responses = [
-          "💬 Tôi ở đây để giúp bạn năng suất hơn. Thử 'add [công việc]' để tạo công việc mới.",
-          "📋 Muốn xem danh sách công việc? Chỉ cần nhập 'list'.",
-          "📅 Cần đặt thời hạn? Thử 'add mua đồ ngày mai'.",
-          "❓ Không chắc phải làm gì? Nhập 'help' để xem tất cả lệnh.",
-          "🚀 Hãy tập trung vào công việc! Công việc nào chúng ta nên thêm đầu tiên?"
-        ];
-        
-        const randomResponse = getRandomItem(responses);
-        addBotMessageSimple(randomResponse);
+        // AI is not enabled, give a normal response (one of the tips at random)
+        addBotMessageSimple(t('chat.tips'));
       }
     }
     
@@ -1579,241 +1806,80 @@ const App: React.FC = () => {
   // Helper function to detect tasks in a message
   const detectTasksInMessage = async (message: string): Promise<boolean> => {
     try {
-      if (!aiConfig.enabled || !aiConfig.apiKey) {
-        console.log('AI not enabled or no API key, skipping task detection');
+      if (!isAIConfigured(aiConfig)) {
+        console.log('AI not enabled or not configured, skipping task detection');
         return false;
       }
       
       console.log('Checking for tasks in message:', message);
       
-      // Create a promise that rejects after timeout
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('AI request timed out')), 15000); // Increased timeout for better results
-      });
+      const result = await detectTasks(aiConfig, message, settings.language);
       
-      // Create the actual AI request promise
-      const aiRequestPromise = async () => {
-        const formatPrompt = formatTaskDetectionPrompt(message);
-        
-        let apiEndpoint = '';
-        let requestBody = {};
-        
-        switch (aiConfig.provider) {
-          case 'openai':
-            apiEndpoint = 'https://api.openai.com/v1/chat/completions';
-            requestBody = {
-              model: "gpt-3.5-turbo",
-              messages: [
-                { role: "system", content: TASK_DETECTION_PROMPT },
-                { role: "user", content: formatPrompt }
-              ],
-              temperature: 0.7,
-              max_tokens: 350 // Increased for more complete responses
-            };
-            break;
-            
-          case 'openrouter':
-            apiEndpoint = 'https://openrouter.ai/api/v1/chat/completions';
-            requestBody = {
-              model: aiConfig.model || "google/gemini-flash-1.5-8b",
-              messages: [
-                { role: "system", content: TASK_DETECTION_PROMPT },
-                { role: "user", content: formatPrompt }
-              ],
-              temperature: 0.7,
-              max_tokens: 350 // Increased for more complete responses
-            };
-            break;
-            
-          case 'gemini':
-            apiEndpoint = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent';
-            requestBody = {
-              contents: [{
-                parts: [{
-                  text: `${TASK_DETECTION_PROMPT}\n\n${formatPrompt}`
-                }]
-              }],
-              generationConfig: {
-                temperature: 0.7,
-                maxOutputTokens: 350
-              }
-            };
-            break;
-            
-          default:
-            return false;
-        }
+      // Check if task was detected
+      if (result.detectedTasks && result.detectedTasks.length > 0) {
+        const task = result.detectedTasks[0];
         
-        const headers: Record<string, string> = {
-          'Content-Type': 'application/json'
+        // The message is parsed like manual input, so "học bài 2h" is a timebox rather than 02:00
+        const parsedInput = parseTaskInput(message, new Date(), settings.tags);
+        // Create a new task; "công việc" from the model is stored as the "work" tag id
+        const newTodo: Todo = {
+          id: Date.now().toString(),
+          text: task.text,
+          completed: false,
+          category: result.category ? canonicalTag(result.category, settings.tags) : 'general',
+          created: Date.now(),
+          timeboxMinutes: parsedInput.timeboxMinutes,
+          recurrence: parsedInput.recurrence,
+          // An explicit "!1" in the message wins over the model's guess
+          priority: parsedInput.priority ?? (isTaskPriority(task.priority) ? task.priority : undefined)
         };
-        
-        if (aiConfig.provider === 'openai' || aiConfig.provider === 'openrouter') {
-          headers['Authorization'] = `Bearer ${aiConfig.apiKey}`;
-        } else if (aiConfig.provider === 'gemini') {
-          headers['x-goog-api-key'] = aiConfig.apiKey;
+        if (parsedInput.tags) {
+          newTodo.tags = parsedInput.tags;
         }
         
-        console.log(`Sending task detection request to ${aiConfig.provider} AI`);
-        const response = await fetch(apiEndpoint, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(requestBody)
-        });
-        
-        if (!response.ok) {
-          throw new Error(`API error: ${response.status}`);
+        // Add deadline if detected, converting the model's free text into an absolute time
+        if (task.deadline) {
+          newTodo.deadline = task.deadline;
         }
-        
-        const data = await response.json();
-        console.log(`Received task detection response from ${aiConfig.provider} AI:`, data);
-        
-        // Parse response based on provider
-        let rawText: string;
-        
-        if (aiConfig.provider === 'gemini') {
-          rawText = data.candidates[0].content.parts[0].text;
-        } else if (aiConfig.provider === 'openrouter') {
-          rawText = data.choices[0].message.content;
-        } else {
-          rawText = data.choices[0].message.content;
+        const parsedDeadline = task.deadline ? parseDeadline(task.deadline) : null;
+        if (parsedDeadline) {
+          newTodo.dueDate = parsedDeadline.dueDate;
+          newTodo.deadline = newTodo.deadline || parsedDeadline.deadline;
+        } else if (parsedInput.deadline) {
+          newTodo.dueDate = parsedInput.dueDate;
+          newTodo.deadline = newTodo.deadline || parsedInput.deadline;
         }
         
-        console.log('Raw AI task detection response:', rawText);
+        // Add to todos (a failure is already reported in the chat)
+        const saved = await applyChange(taskClient.createTask(newTodo));
+        if (!saved) return true;
         
-        // Process the response with a dedicated task detection parser
-        const result = parseTasks(rawText);
+        // Show the stored copy in chat, so the card carries the short id the repository assigned
+        const todoMessage: ChatMessage = {
+          id: Date.now().toString(),
+          text: '',
+          isBot: true,
+          timestamp: Date.now(),
+          todo: saved.todos.find(todo => todo.id === newTodo.id) ?? newTodo
+        };
         
-        // Check if task was detected
-        if (result.detectedTasks && result.detectedTasks.length > 0) {
-          const task = result.detectedTasks[0];
-          
-          // Create a new task
-          const newTodo: Todo = {
-            id: Date.now().toString(),
-            text: task.text,
-            completed: false,
-            category: result.category || 'general',
-            created: Date.now()
-          };
-          
-          // Add deadline if detected
-          if (task.deadline) {
-            newTodo.deadline = task.deadline;
-          }
-          
-          // Add to todos
-          setTodos(prev => [...prev, newTodo]);
-          
-          // Show the task in chat
-          const todoMessage: ChatMessage = {
-            id: Date.now().toString(),
-            text: '',
-            isBot: true,
-            timestamp: Date.now(),
-            todo: newTodo
-          };
-          
-          setMessages(prev => [...prev, todoMessage]);
-          
-          // Show detection message
-          addBotMessageSimple(`✅ Đã thêm công việc: "${task.text}"`);
-          
-          return true;
-        }
+        setMessages(prev => [...prev, todoMessage]);
         
-        return false;
-      };
-      
-      // Execute the AI request function and then race its promise
-      const aiPromise = aiRequestPromise();
-      return await Promise.race([aiPromise, timeoutPromise]);
-    } catch (error) {
-      console.error('Error detecting tasks:', error);
-      return false;
-    }
-  };
-  
-  // Special parser for task detection responses
-  const parseTasks = (text: string): TaskDetectionResult => {
-    try {
-      console.log('Parsing task detection response:', text);
-      
-      // Extract JSON from code blocks if present
-      if (text.includes('```')) {
-        const match = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (match && match[1]) {
-          text = match[1].trim();
-          console.log('Extracted JSON from code block:', text);
-        }
-      }
-      
-      // Clean up any extra text around the JSON
-      text = text.replace(/^[^{]*/, '').replace(/[^}]*$/, '');
-      
-      // Try standard JSON parse
-      const parsedJson = JSON.parse(text);
-      console.log('Successfully parsed task detection JSON:', parsedJson);
-      
-      // Validate and return the parsed result
-      const result: TaskDetectionResult = {
-        category: parsedJson.category || 'general',
-        detectedTasks: []
-      };
-      
-      // Handle different response formats
-      if (parsedJson.detectedTasks && Array.isArray(parsedJson.detectedTasks)) {
-        result.detectedTasks = parsedJson.detectedTasks;
-      } 
-      // Some models might use a different field name
-      else if (parsedJson.tasks && Array.isArray(parsedJson.tasks)) {
-        result.detectedTasks = parsedJson.tasks.map((task: any) => ({
-          text: task.text || task.task || task.name || task.description || '',
-          deadline: task.deadline || task.due || task.dueDate || undefined
-        }));
-      }
-      // Handle case where the AI returns a single task directly
-      else if (parsedJson.text || parsedJson.task) {
-        result.detectedTasks = [{
-          text: parsedJson.text || parsedJson.task || parsedJson.description || '',
-          deadline: parsedJson.deadline || parsedJson.due || parsedJson.dueDate || undefined
-        }];
-      }
-      
-      // Special case: if our message is directly a task (like "leetcode tối nay"),
-      // make sure we have at least one detected task
-      if (!result.detectedTasks || result.detectedTasks.length === 0) {
-        // Check if there's any indication this is a task
-        const messageLower = text.toLowerCase();
-        if (messageLower.includes('task') || 
-            messageLower.includes('công việc') || 
-            messageLower.includes('làm') ||
-            messageLower.includes('deadline')) {
-          console.log('Message appears to be a task, creating a default task entry');
-          result.detectedTasks = [{
-            text: parsedJson.message || text,
-            deadline: undefined
-          }];
-        }
+        // Show detection message
+        addBotMessageSimple(t('task.added', { task: `"${task.text}"` }), saved.operation?.id);
+        
+        return true;
       }
       
-      return result;
-    } catch (e) {
-      console.error('Error parsing task JSON:', e, 'Original text:', text);
-      
-      // Last attempt: try to create a task directly from the message if it seems like a task
-      if (text.length < 100 && !text.includes('\n\n')) {
-        console.log('Using message directly as a task:', text);
-        return {
-          category: 'general',
-          detectedTasks: [{
-            text: text.trim(),
-            deadline: undefined
-          }]
-        };
+      return false;
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        // The model never produced a valid task list; don't guess a task from its reply
+        console.warn('Task detection reply rejected:', formatIssues(error.issues));
+      } else {
+        console.error('Error detecting tasks:', error);
       }
-      
-      return { category: 'general' };
+      return false;
     }
   };
   
@@ -1831,6 +1897,16 @@ const App: React.FC = () => {
     }
   }, [messages]);
   
+  // Format a task's deadline for display, preferring the parsed absolute due date
+  const formatDeadline = (todo: Todo) => {
+    if (todo.dueDate) {
+      const date = new Date(todo.dueDate);
+      const time = date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+      return `${formatDate(date.toISOString())} ${time}`;
+    }
+    return formatDate(todo.deadline || '');
+  };
+  
   // Format date for display
   const formatDate = (dateStr: string) => {
     try {
@@ -1841,9 +1917,9 @@ const App: React.FC = () => {
         tomorrow.setDate(tomorrow.getDate() + 1);
         
         if (date.toDateString() === today.toDateString()) {
-          return "Today";
+          return t('time.today');
         } else if (date.toDateString() === tomorrow.toDateString()) {
-          return "Tomorrow";
+          return t('time.tomorrow');
         } else {
           return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
         }
@@ -1856,14 +1932,162 @@ const App: React.FC = () => {
   
   // Format remaining time for countdown display
   const formatRemainingTime = (ms: number): string => {
-    if (ms <= 0) return "Time's up!";
+    if (ms <= 0) return t('time.up');
+    
+    return t('time.remaining', { duration: formatDuration(ms) });
+  };
+  
+  // Changes one tag definition in settings
+  const updateTagDefinition = (id: string, patch: Partial<TagDefinition>) => {
+    setSettings((prev: AppSettings) => ({
+      ...prev,
+      tags: prev.tags.map(tag => tag.id === id ? { ...tag, ...patch } : tag)
+    }));
+  };
+  
+  const addTagDefinition = () => {
+    const tag = createTagDefinition(newTagName);
+    if (!tag.id || resolveTag(tag.id, settings.tags)) return;
+    setSettings((prev: AppSettings) => ({ ...prev, tags: [...prev.tags, tag] }));
+    setNewTagName('');
+  };
+  
+  // Tag chips (category included) with the colors and icons from settings
+  const renderTags = (todo: Todo) => {
+    const tags = getTaskTags(todo, settings.tags);
+    if (tags.length === 0) return null;
     
-    const seconds = Math.floor(ms / 1000);
-    return `${seconds}s remaining`;
+    return (
+      <div>
+        {tags.map(tag => {
+          const definition = resolveTag(tag, settings.tags);
+          return (
+            <TagChip key={tag} color={definition?.color || DEFAULT_TAG_COLOR} title={definition?.label}>
+              {definition?.icon ? `${definition.icon} ` : ''}{formatTag(tag)}
+            </TagChip>
+          );
+        })}
+      </div>
+    );
+  };
+  
+  // Tasks a list message shows; numbers still refer to the full list so commands stay valid
+  const getListedTodos = (message: ChatMessage) => message.filterTags
+    ? filterTasksByTags(sortedTodos, message.filterTags, settings.tags)
+    : sortedTodos;
+  
+  // Checklist with progress; clicks on a step must not toggle the parent task
+  // A section of the digest card; tasks still in the list can be ticked off from there
+  const renderDigestTasks = (title: string, tasks: DigestTask[]) => {
+    if (tasks.length === 0) return null;
+    
+    return (
+      <div style={{ marginBottom: '8px' }}>
+        <Deadline>{title}</Deadline>
+        {tasks.map(task => {
+          const todo = todos.find(item => item.id === task.id);
+          return (
+            <TodoItem
+              key={task.id}
+              completed={!!todo?.completed}
+              onClick={() => todo && handleTaskCompletion(todo.id, !todo.completed)}
+            >
+              <TodoCheckbox completed={!!todo?.completed} />
+              <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>
+                <TodoText completed={!!todo?.completed}>{todo?.text || task.text}</TodoText>
+                <Deadline>{new Date(task.dueAt).toLocaleString(settings.language)}</Deadline>
+              </div>
+            </TodoItem>
+          );
+        })}
+      </div>
+    );
+  };
+  
+  const renderSubtasks = (todo: Todo) => {
+    const { done, total } = getSubtaskProgress(todo);
+    if (total === 0) return null;
+    
+    return (
+      <SubtaskList onClick={(e) => e.stopPropagation()}>
+        <Deadline>{t('task.subtaskProgress', { done, count: total })}</Deadline>
+        <SubtaskProgress percent={Math.round((done / total) * 100)} />
+        {todo.subtasks!.map(subtask => (
+          <SubtaskItem
+            key={subtask.id}
+            completed={subtask.completed}
+            onClick={() => handleSubtaskToggle(todo.id, subtask.id, !subtask.completed)}
+          >
+            {subtask.text}
+          </SubtaskItem>
+        ))}
+      </SubtaskList>
+    );
+  };
+  
+  // Inline edit form; clicks inside must not toggle the parent task
+  const renderTaskEditor = (todo: Todo) => {
+    if (!taskEditDraft || taskEditDraft.id !== todo.id) return null;
+    const categories = [
+      { id: 'general', label: t('task.generalCategory') },
+      ...settings.tags.map(tag => ({ id: tag.id, label: `${tag.icon} ${tag.label}` })),
+      // Categories the AI made up stay selectable
+      ...(todo.category && todo.category !== 'general' && !settings.tags.some(tag => tag.id === todo.category)
+        ? [{ id: todo.category, label: todo.category }]
+        : [])
+    ];
+    
+    return (
+      <TaskEditForm
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') saveTaskEdit(todo);
+          if (e.key === 'Escape') setTaskEditDraft(null);
+        }}
+      >
+        <AISettingsInput
+          value={taskEditDraft.text}
+          autoFocus
+          onChange={(e) => setTaskEditDraft({ ...taskEditDraft, text: e.target.value })}
+        />
+        <AISettingsInput
+          value={taskEditDraft.due}
+          placeholder={todo.dueDate ? t('edit.duePlaceholder', { due: formatDeadline(todo) }) : t('edit.addDuePlaceholder')}
+          onChange={(e) => setTaskEditDraft({ ...taskEditDraft, due: e.target.value })}
+        />
+        <TaskEditRow>
+          <AISettingsSelect
+            value={taskEditDraft.category}
+            onChange={(e) => setTaskEditDraft({ ...taskEditDraft, category: e.target.value })}
+          >
+            {categories.map(category => (
+              <option key={category.id} value={category.id}>{category.label}</option>
+            ))}
+          </AISettingsSelect>
+          <AISettingsSelect
+            value={taskEditDraft.priority}
+            onChange={(e) => setTaskEditDraft({ ...taskEditDraft, priority: e.target.value })}
+          >
+            {PRIORITIES.map(priority => (
+              <option key={priority} value={priority}>{formatPriority(priority)} · {t(`priority.${priority}`)}</option>
+            ))}
+          </AISettingsSelect>
+        </TaskEditRow>
+        <TaskActions>
+          <TaskActionButton onClick={() => setTaskEditDraft(null)}>{t('edit.cancel')}</TaskActionButton>
+          <TaskActionButton primary onClick={() => saveTaskEdit(todo)}>{t('edit.save')}</TaskActionButton>
+        </TaskActions>
+      </TaskEditForm>
+    );
   };
   
   // Add back the handleInput function
   const handleInput = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Tab' && suggestions.length > 0) {
+      e.preventDefault();
+      applySuggestion(suggestions[0]);
+      return;
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
@@ -1875,11 +2099,14 @@ const App: React.FC = () => {
     handleSendMessage();
   };
 
+  // Tasks whose expiry this popup has already announced in the chat
+  const expiredTaskIds = useRef<Set<string>>(new Set());
+  
   // Add back the enhanced task scheduler
   useEffect(() => {
     console.log('Starting enhanced task scheduler');
     
-    // Only update countdown timers, with safe AI calls
+    // Only update countdown timers; reminders come from the background
     const timerId = setInterval(() => {
       const now = Date.now();
       
@@ -1894,13 +2121,8 @@ const App: React.FC = () => {
         const updatedTodos = prev.map(todo => {
           if (todo.completed) return todo;
           
-          // Use 10-second timeboxes for development mode
-          const timeboxDuration = 10 * 1000; // 10 seconds
-          const createdTime = todo.created || now - 5000;
-          const expiryTime = createdTime + timeboxDuration;
-          
-          // Calculate remaining time
-          const remainingTime = Math.max(0, expiryTime - now);
+          // Calculate remaining time with the same expiry rule as the background alarm
+          const remainingTime = getRemainingTime(todo, settings, now);
           
           // Check if value changed
           if (todo.remainingTime !== remainingTime) {
@@ -1915,104 +2137,27 @@ const App: React.FC = () => {
         return needsUpdate ? updatedTodos : prev;
       });
       
-      // Safe processing of expired tasks (with AI if enabled)
+      // Expired tasks are handed to the background right away
       todos.forEach(todo => {
-        if (!todo.completed && !todo.timeExpired) {
-          const timeboxDuration = 10 * 1000; // 10 seconds
-          const createdTime = todo.created || now - 5000;
-          const expiryTime = createdTime + timeboxDuration;
-          
-          // If time expired and we haven't already shown a message
-          if (now >= expiryTime) {
-            // Mark task as expired in a separate state update to ensure UI responsiveness
-            setTodos(prev => prev.map(t => {
-              if (t.id === todo.id) {
-                return { ...t, timeExpired: true };
-              }
-              return t;
-            }));
+        if (!todo.completed && !todo.timeExpired && !expiredTaskIds.current.has(todo.id)) {
+          // Only once per task while the popup is open
+          if (isTaskExpired(todo, settings, now)) {
+            expiredTaskIds.current.add(todo.id);
             
-            // Generate AI blame message without blocking the UI
-            if (aiConfig.enabled && aiConfig.apiKey) {
-              console.log(`Getting AI blame message for task: "${todo.text}" (ID: ${todo.id})`);
-              
-              generateBlameMessage(todo).then(result => {
-                try {
-                  let finalMessage = "";
-                  
-                  // Log the entire result to debug
-                  console.log('Full blame message result:', JSON.stringify(result));
-                  
-                  // Check if we have valid blame messages from AI
-                  if (result.blameMessages && result.blameMessages.length > 0) {
-                    // Get a random message from the array
-                    let aiMessage = getRandomItem(result.blameMessages);
-                    
-                    // Special case: if aiMessage is literally "blameMessages", this is an error state
-                    if (aiMessage === "blameMessages" || aiMessage === "blameMessages\\") {
-                      console.log('Got incorrect "blameMessages" string instead of content, using default');
-                      finalMessage = getRandomItem(DEFAULT_BLAME_MESSAGES);
-                    } else {
-                      console.log('Got raw blame message from AI:', aiMessage);
-                      
-                      // Clean up the message
-                      aiMessage = aiMessage.trim().replace(/^["']|["']$/g, '');
-                      aiMessage = aiMessage.replace(/[\x00-\x1F\x7F-\x9F]/g, '');
-                      
-                      // Truncate if too long
-                      if (aiMessage.length > 150) {
-                        aiMessage = aiMessage.substring(0, 147) + '...';
-                      }
-                      
-                      // Check if message is in English
-                      if (/^[a-zA-Z\s\d.,!?'"()-:;]+$/.test(aiMessage)) {
-                        console.log('Received English message from AI:', aiMessage);
-                        
-                        // Check if it has some Vietnamese mixed in
-                        if (!aiMessage.match(/^[a-zA-Z\s\d.,!?'"()-:;]+$/)) {
-                          console.log('Message has Vietnamese characters, using it');
-                          finalMessage = aiMessage;
-                        } else {
-                          // English-only message, use default instead
-                          console.log('Message is English-only, using default Vietnamese message');
-                          finalMessage = getRandomItem(DEFAULT_BLAME_MESSAGES);
-                        }
-                      } else {
-                        // Valid Vietnamese message from AI
-                        console.log('Successfully received Vietnamese blame message from AI:', aiMessage);
-                        finalMessage = aiMessage;
-                      }
-                    }
-                  } else {
-                    // No valid messages from AI, use default
-                    console.log('No valid blame messages returned from AI, using default message');
-                    finalMessage = getRandomItem(DEFAULT_BLAME_MESSAGES);
-                  }
-                  
-                  // Add emoji prefix and display
-                  addBotMessageSimple("⚠️ " + finalMessage);
-                  
-                } catch (error) {
-                  // If anything goes wrong, use a default message
-                  console.error('Error processing blame message:', error);
-                  addBotMessageSimple("⚠️ " + getRandomItem(DEFAULT_BLAME_MESSAGES));
-                }
-              }).catch(error => {
-                console.error('Error generating AI blame message:', error);
-                // Use default message on error
-                addBotMessageSimple("⚠️ " + getRandomItem(DEFAULT_BLAME_MESSAGES));
-              });
-            } else {
-              // Use simple message if AI is not enabled
-              addBotMessageSimple(`⏰ Hết giờ cho công việc: "${todo.text}"`);
-            }
+            // The background marks the expiry, schedules recurring tasks and takes the reminder
+            // from the task's cache; it reaches the chat through pendingBlameMessages
+            chrome.runtime.sendMessage({ action: 'checkTasks' }, () => {
+              if (chrome.runtime.lastError) {
+                console.error('Error asking background to check tasks:', chrome.runtime.lastError);
+              }
+            });
           }
         }
       });
     }, 1000);
     
     return () => clearInterval(timerId);
-  }, [todos, aiConfig.enabled, aiConfig.apiKey, aiConfig.provider]);
+  }, [todos, settings]);
 
   // Simple function to detect obvious tasks without requiring AI
   const detectSimpleTask = (message: string): boolean => {
@@ -2024,7 +2169,8 @@ const App: React.FC = () => {
     
     for (const verb of actionVerbs) {
       if (lowercaseMsg.startsWith(verb + ' ')) {
-        const taskText = message.trim();
+        // Split out timebox and deadline ("8h sáng mai", "thứ 6 tuần sau")
+        const { text: taskText, timeboxMinutes, dueDate, deadline, recurrence, priority, tags } = parseTaskInput(message, new Date(), settings.tags);
         console.log('Simple task detected:', taskText);
         
         // Create and add the task
@@ -2033,29 +2179,16 @@ const App: React.FC = () => {
           text: taskText,
           completed: false,
           category: 'general',
-          created: Date.now()
-        };
-        
-        // Check for time-related keywords to set deadline
-        const timeKeywords = {
-          'ngay': 'Hôm nay',
-          'bây giờ': 'Hôm nay',
-          'hôm nay': 'Hôm nay',
-          'ngày mai': 'Ngày mai',
-          'tuần sau': 'Tuần sau'
+          created: Date.now(),
+          timeboxMinutes,
+          dueDate,
+          deadline,
+          recurrence,
+          priority,
+          tags
         };
         
-        for (const [keyword, deadline] of Object.entries(timeKeywords)) {
-          if (lowercaseMsg.includes(keyword)) {
-            newTodo.deadline = deadline;
-            break;
-          }
-        }
-        
-        // Add to todos
-        setTodos(prev => [...prev, newTodo]);
-        
-        // Show confirmation and the task
+        // Show the task right away; the confirmation waits for the repository's undo step
         const todoMessage: ChatMessage = {
           id: Date.now().toString(),
           text: '',
@@ -2065,7 +2198,11 @@ const App: React.FC = () => {
         };
         
         setMessages(prev => [...prev, todoMessage]);
-        addBotMessageSimple(`✅ Đã thêm công việc: "${taskText}"`);
+        applyChange(taskClient.createTask(newTodo)).then(result => {
+          if (result) {
+            addBotMessageSimple(t('task.added', { task: `"${taskText}"` }), result.operation?.id);
+          }
+        });
         
         return true;
       }
@@ -2095,8 +2232,8 @@ const App: React.FC = () => {
       
       // If granted, show a test notification
       if (permission === 'granted') {
-        new Notification('Notifications Enabled', {
-          body: 'You will now receive notifications for overdue tasks!',
+        new Notification(t('notification.enabledTitle'), {
+          body: t('notification.enabledBody'),
           icon: '/icon128.png'
         });
       }
@@ -2111,7 +2248,7 @@ const App: React.FC = () => {
     chrome.action.setBadgeText({ text: '' });
     
     // Generate a nice test message
-    const testMessage = "🔄 Test notification with badge and notification!";
+    const testMessage = t('notification.test');
     
     // Show in chat immediately
     addBotMessageSimple("🔔 " + testMessage);
@@ -2138,20 +2275,49 @@ const App: React.FC = () => {
         <ProgressBar />
         <Header>
           <AppTitle>Task Chat</AppTitle>
-          <AISettingsButton onClick={() => setShowAISettings(true)}>
-            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-              <path d="M12 15a3 3 0 100-6 3 3 0 000 6z" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-              <path d="M19.4 15a1.65 1.65 0 00.33 1.82l.06.06a2 2 0 010 2.83 2 2 0 01-2.83 0l-.06-.06a1.65 1.65 0 00-1.82-.33 1.65 1.65 0 00-1 1.51V21a2 2 0 01-2 2 2 2 0 01-2-2v-.09A1.65 1.65 0 009 19.4a1.65 1.65 0 00-1.82.33l-.06.06a2 2 0 01-2.83 0 2 2 0 010-2.83l.06-.06a1.65 1.65 0 00.33-1.82 1.65 1.65 0 00-1.51-1H3a2 2 0 01-2-2 2 2 0 012-2h.09A1.65 1.65 0 004.6 9a1.65 1.65 0 00-.33-1.82l-.06-.06a2 2 0 010-2.83 2 2 0 012.83 0l.06.06a1.65 1.65 0 001.82.33H9a1.65 1.65 0 001-1.51V3a2 2 0 012-2 2 2 0 012 2v.09a1.65 1.65 0 001 1.51 1.65 1.65 0 001.82-.33l.06-.06a2 2 0 012.83 0 2 2 0 010 2.83l-.06.06a1.65 1.65 0 00-.33 1.82V9a1.65 1.65 0 001.51 1H21a2 2 0 012 2 2 2 0 01-2 2h-.09a1.65 1.65 0 00-1.51 1z" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-            </svg>
-          </AISettingsButton>
+          <HeaderActions>
+            {pausedUntil > Date.now() ? (
+              <PauseButton active title={t('pause.resume')} onClick={() => handlePause(null)}>
+                {t('pause.active', { time: new Date(pausedUntil).toLocaleTimeString(settings.language, { hour: '2-digit', minute: '2-digit' }) })}
+              </PauseButton>
+            ) : PAUSE_OPTIONS.map(option => (
+              <PauseButton key={option} title={t('pause.hint')} onClick={() => handlePause(option)}>
+                {t(`pause.${option}`)}
+              </PauseButton>
+            ))}
+            <AISettingsButton onClick={() => setShowAISettings(true)}>
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                <path d="M12 15a3 3 0 100-6 3 3 0 000 6z" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                <path d="M19.4 15a1.65 1.65 0 00.33 1.82l.06.06a2 2 0 010 2.83 2 2 0 01-2.83 0l-.06-.06a1.65 1.65 0 00-1.82-.33 1.65 1.65 0 00-1 1.51V21a2 2 0 01-2 2 2 2 0 01-2-2v-.09A1.65 1.65 0 009 19.4a1.65 1.65 0 00-1.82.33l-.06.06a2 2 0 01-2.83 0 2 2 0 010-2.83l.06-.06a1.65 1.65 0 00.33-1.82 1.65 1.65 0 00-1.51-1H3a2 2 0 01-2-2 2 2 0 012-2h.09A1.65 1.65 0 004.6 9a1.65 1.65 0 00-.33-1.82l-.06-.06a2 2 0 010-2.83 2 2 0 012.83 0l.06.06a1.65 1.65 0 001.82.33H9a1.65 1.65 0 001-1.51V3a2 2 0 012-2 2 2 0 012 2v.09a1.65 1.65 0 001 1.51 1.65 1.65 0 001.82-.33l.06-.06a2 2 0 012.83 0 2 2 0 010 2.83l-.06.06a1.65 1.65 0 00-.33 1.82V9a1.65 1.65 0 001.51 1H21a2 2 0 012 2 2 2 0 01-2 2h-.09a1.65 1.65 0 00-1.51 1z" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+              </svg>
+            </AISettingsButton>
+          </HeaderActions>
         </Header>
         
-        <NotificationPermissionRequest />
+        <NotificationPermissionRequest t={t} />
+        
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,.ics,application/json,text/calendar"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            // Reset so picking the same file again still fires onChange
+            e.target.value = '';
+            if (file) {
+              handleImportFile(file).catch(error => {
+                console.error('Error importing file:', error);
+                addBotMessageSimple(t('chat.readFileFailed'));
+              });
+            }
+          }}
+        />
         
         <ChatContainer ref={chatContainerRef}>
           {messages.map((message) => (
             <Message key={message.id} isBot={message.isBot}>
-              <Avatar isBot={message.isBot}>{message.isBot ? 'AI' : 'You'}</Avatar>
+              <Avatar isBot={message.isBot}>{message.isBot ? 'AI' : t('chat.you')}</Avatar>
               <MessageBubble isBot={message.isBot}>
                 {message.todo ? (
                   <TodoItem
@@ -2161,19 +2327,42 @@ const App: React.FC = () => {
                     <TodoCheckbox completed={message.todo.completed} />
                     <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>
                       <div style={{ display: 'flex', alignItems: 'center', marginBottom: '4px' }}>
-                        <span style={{ marginRight: '8px' }}>{getCategoryIcon(message.todo.category)}</span>
+                        <span style={{ marginRight: '8px' }}>{getTaskIcon(message.todo, settings.tags)}</span>
+                        {message.todo.priority && (
+                          <PriorityBadge color={PRIORITY_COLORS[message.todo.priority]} title={t(`priority.${message.todo.priority}`)}>
+                            {formatPriority(message.todo.priority)}
+                          </PriorityBadge>
+                        )}
                         <TodoText completed={message.todo.completed}>
                           {message.todo.text}
                         </TodoText>
+                        <TaskRef>{formatTaskRef(message.todo)}</TaskRef>
+                        <EditButton
+                          title={t('task.edit')}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            // Edit the live task, the message only keeps a snapshot
+                            startTaskEdit(todos.find(todo => todo.id === message.todo!.id) || message.todo!);
+                          }}
+                        >
+                          ✏️
+                        </EditButton>
                       </div>
-                      {message.todo.deadline && (
+                      {renderTaskEditor(todos.find(todo => todo.id === message.todo!.id) || message.todo)}
+                      {(message.todo.dueDate || message.todo.deadline) && (
                         <Deadline>
                           <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                             <path d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                           </svg>
-                          {formatDate(message.todo.deadline)}
+                          {formatDeadline(message.todo)}
                         </Deadline>
                       )}
+                      {message.todo.recurrence && (
+                        <Deadline>{describeRecurrence(message.todo.recurrence, settings.language)}</Deadline>
+                      )}
+                      {renderTags(message.todo)}
+                      {/* The message keeps a snapshot, show the checklist from the live task */}
+                      {renderSubtasks(todos.find(todo => todo.id === message.todo!.id) || message.todo)}
                       {message.todo.remainingTime !== undefined && (
                         <CountdownTimer isExpired={message.todo.remainingTime <= 0}>
                           <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -2182,14 +2371,43 @@ const App: React.FC = () => {
                           {formatRemainingTime(message.todo.remainingTime)}
                         </CountdownTimer>
                       )}
+                      {message.showTaskActions && !todos.find(todo => todo.id === message.todo!.id)?.completed && (
+                        <TaskActions onClick={(e) => e.stopPropagation()}>
+                          {SNOOZE_OPTIONS.map(minutes => (
+                            <TaskActionButton
+                              key={minutes}
+                              onClick={() => handleTaskSnooze(message.todo!.id, minutes)}
+                            >
+                              ⏰ {minutes < 60 ? t('time.minutes', { count: minutes }) : t('time.hours', { count: minutes / 60 })}
+                            </TaskActionButton>
+                          ))}
+                          <TaskActionButton primary onClick={() => handleTaskCompletion(message.todo!.id, true)}>
+                            {t('task.done')}
+                          </TaskActionButton>
+                        </TaskActions>
+                      )}
                     </div>
                   </TodoItem>
+                ) : message.digest ? (
+                  <TodoContainer>
+                    <DigestTitle>{t('digest.title')}</DigestTitle>
+                    <div style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word', marginBottom: '8px' }}>
+                      {message.digest.summary}
+                    </div>
+                    {renderDigestTasks(t('digest.dueToday'), message.digest.dueToday)}
+                    {renderDigestTasks(t('digest.missed'), message.digest.missedYesterday)}
+                    {message.digest.streakDays > 0 && (
+                      <Deadline>{t('digest.stats', { count: message.digest.streakDays, done: message.digest.completedYesterday })}</Deadline>
+                    )}
+                  </TodoContainer>
                 ) : message.isTodoList ? (
                   <TodoContainer>
-                    {todos.length > 0 ? (
+                    {getListedTodos(message).length > 0 ? (
                       <>
-                        <TodoListTitle>Your Tasks</TodoListTitle>
-                        {todos.map((todo, index) => (
+                        <TodoListTitle>
+                          {t('list.title')}{message.filterTags ? ` · ${message.filterTags.map(formatTag).join(' ')}` : ''}
+                        </TodoListTitle>
+                        {getListedTodos(message).map(todo => (
                           <TodoItem 
                             key={todo.id} 
                             completed={todo.completed}
@@ -2198,20 +2416,39 @@ const App: React.FC = () => {
                             <TodoCheckbox completed={todo.completed} />
                             <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>
                               <div style={{ display: 'flex', alignItems: 'center', marginBottom: '4px' }}>
-                                <span style={{ marginRight: '8px' }}>{getCategoryIcon(todo.category)}</span>
+                                <span style={{ marginRight: '8px' }}>{getTaskIcon(todo, settings.tags)}</span>
+                                <PriorityBadge color={PRIORITY_COLORS[getPriority(todo)]} title={t(`priority.${getPriority(todo)}`)}>
+                                  {formatPriority(getPriority(todo))}
+                                </PriorityBadge>
                                 <TodoText completed={todo.completed}>
-                                  {index + 1}. {todo.text}
+                                  {sortedTodos.indexOf(todo) + 1}. {todo.text}
                                 </TodoText>
+                                <TaskRef>{formatTaskRef(todo)}</TaskRef>
+                                <EditButton
+                                  title={t('task.edit')}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    startTaskEdit(todo);
+                                  }}
+                                >
+                                  ✏️
+                                </EditButton>
                               </div>
+                              {renderTaskEditor(todo)}
                               <div style={{ display: 'flex', flexDirection: 'column' }}>
-                                {todo.deadline && (
+                                {(todo.dueDate || todo.deadline) && (
                                   <Deadline>
                                     <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                                       <path d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                                     </svg>
-                                    {formatDate(todo.deadline)}
+                                    {formatDeadline(todo)}
                                   </Deadline>
                                 )}
+                                {todo.recurrence && (
+                                  <Deadline>{describeRecurrence(todo.recurrence, settings.language)}</Deadline>
+                                )}
+                                {renderTags(todo)}
+                                {renderSubtasks(todo)}
                                 {todo.remainingTime !== undefined && (
                                   <CountdownTimer isExpired={todo.remainingTime <= 0}>
                                     <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -2225,13 +2462,22 @@ const App: React.FC = () => {
                           </TodoItem>
                         ))}
                       </>
+                    ) : message.filterTags ? (
+                      <div>{t('list.emptyFilter', { tags: message.filterTags.map(formatTag).join(' ') })}</div>
                     ) : (
-                      <div>No tasks yet. Add a task!</div>
+                      <div>{t('list.empty')}</div>
                     )}
                   </TodoContainer>
                 ) : (
                   <div style={{whiteSpace: 'pre-wrap', wordBreak: 'break-word'}}>
                     {message.text}
+                    {message.operationId && (
+                      <TaskActions>
+                        <TaskActionButton onClick={() => handleUndo(message.operationId)}>
+                          {t('undo.button')}
+                        </TaskActionButton>
+                      </TaskActions>
+                    )}
                   </div>
                 )}
                 <Timestamp isBot={message.isBot}>
@@ -2243,18 +2489,29 @@ const App: React.FC = () => {
           
           {showCommandHint && !isLoading && (
             <CommandHint>
-              Try commands like "add buy milk", "list", or "help"
+              {t('chat.commandHint')}
             </CommandHint>
           )}
         </ChatContainer>
         
+        {suggestions.length > 0 && (
+          <SuggestionList>
+            {suggestions.map(suggestion => (
+              <SuggestionItem key={suggestion.label} onMouseDown={(e) => e.preventDefault()} onClick={() => applySuggestion(suggestion)}>
+                <strong>{suggestion.label}</strong>
+                <span>{suggestion.detail}</span>
+              </SuggestionItem>
+            ))}
+          </SuggestionList>
+        )}
+        
         <InputContainer>
           <Input
             ref={inputRef}
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
             onKeyDown={handleInput}
-            placeholder="Nhập tin nhắn..."
+            placeholder={t('chat.placeholder')}
             disabled={isLoading}
           />
           <SendButton onClick={handleButtonClick} disabled={isLoading}>
@@ -2266,27 +2523,34 @@ const App: React.FC = () => {
         
         <AISettingsOverlay show={showAISettings} onClick={() => setShowAISettings(false)} />
         <AISettingsModal show={showAISettings}>
-          <AISettingsTitle>AI Settings</AISettingsTitle>
+          <AISettingsTitle>{t('settings.title')}</AISettingsTitle>
           <AISettingsGroup>
             <div>
-              <AISettingsLabel>Provider</AISettingsLabel>
+              <AISettingsLabel>{t('settings.language')}</AISettingsLabel>
+              <AISettingsSelect
+                value={settings.language}
+                onChange={(e) => {
+                  const language = e.target.value;
+                  if (isLocale(language)) {
+                    setSettings((prev: AppSettings) => ({ ...prev, language }));
+                  }
+                }}
+              >
+                {LOCALES.map(locale => (
+                  <option key={locale} value={locale}>{LOCALE_NAMES[locale]}</option>
+                ))}
+              </AISettingsSelect>
+            </div>
+            
+            <div>
+              <AISettingsLabel>{t('settings.provider')}</AISettingsLabel>
               <AISettingsSelect 
                 value={aiConfig.provider || ''} 
                 onChange={(e) => {
                   const provider = e.target.value || null;
-                  let endpoint = '';
-                  let model = '';
-                  
-                  if (provider === 'openai') {
-                    endpoint = 'https://api.openai.com/v1/chat/completions';
-                    model = 'gpt-3.5-turbo';
-                  } else if (provider === 'gemini') {
-                    endpoint = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent';
-                    model = 'gemini-pro';
-                  } else if (provider === 'openrouter') {
-                    endpoint = 'https://openrouter.ai/api/v1/chat/completions';
-                    model = 'google/gemini-flash-1.5-8b';
-                  }
+                  const selected = getProvider(provider);
+                  const endpoint = selected ? selected.defaultEndpoint : '';
+                  const model = selected ? selected.defaultModel : '';
                   
                   setAIConfig((prev: AIConfig) => ({
                     ...prev,
@@ -2297,15 +2561,15 @@ const App: React.FC = () => {
                   }));
                 }}
               >
-                <option value="">Select provider...</option>
-                <option value="openai">OpenAI</option>
-                <option value="gemini">Google Gemini</option>
-                <option value="openrouter">OpenRouter</option>
+                <option value="">{t('settings.selectProvider')}</option>
+                {PROVIDERS.map(provider => (
+                  <option key={provider.id} value={provider.id}>{provider.label}</option>
+                ))}
               </AISettingsSelect>
             </div>
             
             <div>
-              <AISettingsLabel>API Key</AISettingsLabel>
+              <AISettingsLabel>{t('settings.apiKey')}</AISettingsLabel>
               <AISettingsInput
                 type="password"
                 value={aiConfig.apiKey}
@@ -2313,12 +2577,42 @@ const App: React.FC = () => {
                   ...prev,
                   apiKey: e.target.value
                 }))}
-                placeholder="Enter API key..."
+                placeholder={getProvider(aiConfig.provider)?.requiresApiKey === false ? t('settings.apiKeyNotRequired') : t('settings.apiKeyPlaceholder')}
               />
             </div>
             
+            {aiConfig.provider && (
+              <>
+                <div>
+                  <AISettingsLabel>{t('settings.endpoint')}</AISettingsLabel>
+                  <AISettingsInput
+                    type="text"
+                    value={aiConfig.endpoint || ''}
+                    onChange={(e) => setAIConfig((prev: AIConfig) => ({
+                      ...prev,
+                      endpoint: e.target.value
+                    }))}
+                    placeholder={getProvider(aiConfig.provider)?.defaultEndpoint}
+                  />
+                </div>
+                
+                <div>
+                  <AISettingsLabel>{t('settings.model')}</AISettingsLabel>
+                  <AISettingsInput
+                    type="text"
+                    value={aiConfig.model || ''}
+                    onChange={(e) => setAIConfig((prev: AIConfig) => ({
+                      ...prev,
+                      model: e.target.value
+                    }))}
+                    placeholder={getProvider(aiConfig.provider)?.defaultModel}
+                  />
+                </div>
+              </>
+            )}
+            
             <ToggleContainer>
-              <span>Enable AI</span>
+              <span>{t('settings.enableAI')}</span>
               <ToggleSwitch>
                 <input 
                   type="checkbox" 
@@ -2333,7 +2627,7 @@ const App: React.FC = () => {
             </ToggleContainer>
             
             <ToggleContainer>
-              <span>Auto-detect Tasks</span>
+              <span>{t('settings.autoDetect')}</span>
               <ToggleSwitch>
                 <input 
                   type="checkbox" 
@@ -2347,8 +2641,312 @@ const App: React.FC = () => {
               </ToggleSwitch>
             </ToggleContainer>
             
+            <div>
+              <AISettingsLabel>{t('settings.defaultTimebox')}</AISettingsLabel>
+              <AISettingsInput
+                type="number"
+                min={1}
+                value={settings.defaultTimeboxMinutes}
+                onChange={(e) => {
+                  const minutes = parseInt(e.target.value, 10);
+                  if (!isNaN(minutes) && minutes > 0) {
+                    setSettings((prev: AppSettings) => ({
+                      ...prev,
+                      defaultTimeboxMinutes: minutes
+                    }));
+                  }
+                }}
+              />
+            </div>
+            
+            <div>
+              <AISettingsLabel>{t('settings.reminderLead')}</AISettingsLabel>
+              <AISettingsInput
+                type="number"
+                min={0}
+                value={settings.reminderLeadMinutes}
+                onChange={(e) => {
+                  const minutes = parseInt(e.target.value, 10);
+                  if (!isNaN(minutes) && minutes >= 0) {
+                    setSettings((prev: AppSettings) => ({
+                      ...prev,
+                      reminderLeadMinutes: minutes
+                    }));
+                  }
+                }}
+              />
+            </div>
+            
+            <div>
+              <AISettingsLabel>{t('settings.trashRetention')}</AISettingsLabel>
+              <AISettingsInput
+                type="number"
+                min={0}
+                value={settings.trashRetentionDays}
+                onChange={(e) => {
+                  const days = parseInt(e.target.value, 10);
+                  if (!isNaN(days) && days >= 0) {
+                    setSettings((prev: AppSettings) => ({
+                      ...prev,
+                      trashRetentionDays: days
+                    }));
+                  }
+                }}
+              />
+            </div>
+            
+            <div>
+              <AISettingsLabel>{t('settings.escalationIntervals')}</AISettingsLabel>
+              <AISettingsInput
+                type="text"
+                // Remount when settings load so the uncontrolled value stays in sync
+                key={settings.escalationIntervalsMinutes.join(',')}
+                defaultValue={settings.escalationIntervalsMinutes.join(', ')}
+                placeholder="15, 30, 60"
+                onBlur={(e) => {
+                  const intervals = e.target.value
+                    .split(',')
+                    .map(value => parseInt(value.trim(), 10))
+                    .filter(minutes => !isNaN(minutes) && minutes > 0);
+                  setSettings((prev: AppSettings) => ({
+                    ...prev,
+                    escalationIntervalsMinutes: intervals
+                  }));
+                }}
+              />
+            </div>
+            
+            <div>
+              <AISettingsLabel>{t('settings.persona')}</AISettingsLabel>
+              <AISettingsSelect
+                value={settings.personaId}
+                onChange={(e) => setSettings((prev: AppSettings) => ({
+                  ...prev,
+                  personaId: e.target.value as PersonaId
+                }))}
+              >
+                {PERSONA_IDS.map(id => (
+                  <option key={id} value={id}>{getPersona(id, settings).name}</option>
+                ))}
+              </AISettingsSelect>
+            </div>
+            
+            <div>
+              <AISettingsLabel>{t('settings.spiceLevel')}</AISettingsLabel>
+              <AISettingsSelect
+                value={settings.spiceLevel}
+                onChange={(e) => setSettings((prev: AppSettings) => ({
+                  ...prev,
+                  spiceLevel: e.target.value as SpiceLevel
+                }))}
+              >
+                {SPICE_LEVELS.map(level => (
+                  <option key={level} value={level}>{t(`settings.spice.${level}`)}</option>
+                ))}
+              </AISettingsSelect>
+            </div>
+            
+            <ToggleContainer>
+              <span>{t('settings.meetingSafe')}</span>
+              <ToggleSwitch>
+                <input 
+                  type="checkbox" 
+                  checked={settings.meetingSafe.enabled}
+                  onChange={(e) => updateMeetingSafe({ enabled: e.target.checked })}
+                />
+                <span></span>
+              </ToggleSwitch>
+            </ToggleContainer>
+            
+            {settings.meetingSafe.enabled && (
+              <TimeWindowFields
+                window={settings.meetingSafe}
+                locale={settings.language}
+                t={t}
+                onChange={updateMeetingSafe}
+              />
+            )}
+            
+            <ToggleContainer>
+              <span>{t('settings.dailyDigest')}</span>
+              <ToggleSwitch>
+                <input 
+                  type="checkbox" 
+                  checked={settings.dailyDigest.enabled}
+                  onChange={(e) => setSettings((prev: AppSettings) => ({
+                    ...prev,
+                    dailyDigest: { ...prev.dailyDigest, enabled: e.target.checked }
+                  }))}
+                />
+                <span></span>
+              </ToggleSwitch>
+            </ToggleContainer>
+            
+            {settings.dailyDigest.enabled && (
+              <div>
+                <AISettingsLabel>{t('settings.dailyDigestTime')}</AISettingsLabel>
+                <AISettingsInput
+                  type="time"
+                  value={settings.dailyDigest.time}
+                  onChange={(e) => setSettings((prev: AppSettings) => ({
+                    ...prev,
+                    dailyDigest: { ...prev.dailyDigest, time: e.target.value }
+                  }))}
+                />
+              </div>
+            )}
+            
+            <div>
+              <AISettingsLabel>{t('settings.quietHours')}</AISettingsLabel>
+              {settings.quietHours.map((window, index) => (
+                <div key={index}>
+                  <TimeWindowFields
+                    window={window}
+                    locale={settings.language}
+                    t={t}
+                    onChange={(changes) => updateQuietHours(settings.quietHours.map((item, i) => i === index ? { ...item, ...changes } : item))}
+                  />
+                  <TaskActions>
+                    <TaskActionButton onClick={() => updateQuietHours(settings.quietHours.filter((_, i) => i !== index))}>
+                      {t('settings.quietHoursRemove')}
+                    </TaskActionButton>
+                  </TaskActions>
+                </div>
+              ))}
+              <TaskActions>
+                <TaskActionButton onClick={() => updateQuietHours([...settings.quietHours, DEFAULT_QUIET_WINDOW])}>
+                  {t('settings.quietHoursAdd')}
+                </TaskActionButton>
+              </TaskActions>
+            </div>
+            
+            {PERSONA_CATEGORIES.map(category => (
+              <div key={category.id}>
+                <AISettingsLabel>{category.label}</AISettingsLabel>
+                <AISettingsSelect
+                  value={settings.categoryPersonas[category.id] || ''}
+                  onChange={(e) => setSettings((prev: AppSettings) => {
+                    // An empty value removes the override so the global persona applies
+                    const { [category.id]: _removed, ...rest } = prev.categoryPersonas;
+                    return {
+                      ...prev,
+                      categoryPersonas: e.target.value
+                        ? { ...rest, [category.id]: e.target.value as PersonaId }
+                        : rest
+                    };
+                  })}
+                >
+                  <option value="">{t('settings.globalPersona')}</option>
+                  {PERSONA_IDS.map(id => (
+                    <option key={id} value={id}>{getPersona(id, settings).name}</option>
+                  ))}
+                </AISettingsSelect>
+              </div>
+            ))}
+            
+            {(settings.personaId === 'custom' || Object.values(settings.categoryPersonas).includes('custom')) && (
+              <>
+                <div>
+                  <AISettingsLabel>{t('settings.customName')}</AISettingsLabel>
+                  <AISettingsInput
+                    type="text"
+                    value={settings.customPersona.name}
+                    placeholder={t('settings.customNamePlaceholder')}
+                    onChange={(e) => setSettings((prev: AppSettings) => ({
+                      ...prev,
+                      customPersona: { ...prev.customPersona, name: e.target.value }
+                    }))}
+                  />
+                </div>
+                
+                <div>
+                  <AISettingsLabel>{t('settings.customPrompt')}</AISettingsLabel>
+                  <AISettingsTextarea
+                    value={settings.customPersona.systemPrompt}
+                    placeholder={t('settings.customPromptPlaceholder')}
+                    onChange={(e) => setSettings((prev: AppSettings) => ({
+                      ...prev,
+                      customPersona: { ...prev.customPersona, systemPrompt: e.target.value }
+                    }))}
+                  />
+                </div>
+                
+                <div>
+                  <AISettingsLabel>{t('settings.customFallback')}</AISettingsLabel>
+                  <AISettingsTextarea
+                    value={settings.customPersona.fallbackMessages.join('\n')}
+                    placeholder={getPersona('bigBrother', settings).fallbackMessages.slice(0, 2).join('\n')}
+                    onChange={(e) => setSettings((prev: AppSettings) => ({
+                      ...prev,
+                      customPersona: { ...prev.customPersona, fallbackMessages: e.target.value.split('\n') }
+                    }))}
+                  />
+                </div>
+              </>
+            )}
+            
+            <div>
+              <AISettingsLabel>{t('settings.tags')}</AISettingsLabel>
+              {settings.tags.map(tag => (
+                <TagSettingsRow key={tag.id}>
+                  <AISettingsInput
+                    type="text"
+                    value={tag.icon}
+                    title={formatTag(tag.id)}
+                    onChange={(e) => updateTagDefinition(tag.id, { icon: e.target.value })}
+                  />
+                  <AISettingsInput
+                    type="color"
+                    value={tag.color}
+                    style={{ padding: 2, height: 34 }}
+                    onChange={(e) => updateTagDefinition(tag.id, { color: e.target.value })}
+                  />
+                  <AISettingsInput
+                    type="text"
+                    // Remount when settings load so the uncontrolled value stays in sync
+                    key={tag.aliases.join(',')}
+                    defaultValue={tag.aliases.join(', ')}
+                    placeholder={`${formatTag(tag.id)} · ${tag.label}`}
+                    onBlur={(e) => updateTagDefinition(tag.id, {
+                      aliases: e.target.value.split(',').map(alias => alias.trim()).filter(Boolean)
+                    })}
+                  />
+                  <EditButton
+                    title={t('settings.removeTag', { tag: formatTag(tag.id) })}
+                    onClick={() => setSettings((prev: AppSettings) => ({
+                      ...prev,
+                      tags: prev.tags.filter(other => other.id !== tag.id)
+                    }))}
+                  >
+                    ✕
+                  </EditButton>
+                </TagSettingsRow>
+              ))}
+              <TaskEditRow>
+                <AISettingsInput
+                  type="text"
+                  value={newTagName}
+                  placeholder={t('settings.newTagPlaceholder')}
+                  onChange={(e) => setNewTagName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addTagDefinition()}
+                />
+                <TaskActionButton onClick={addTagDefinition}>{t('settings.addTag')}</TaskActionButton>
+              </TaskEditRow>
+            </div>
+            
+            <div>
+              <AISettingsLabel>{t('settings.backup')}</AISettingsLabel>
+              <TaskActions>
+                <TaskActionButton onClick={() => handleExport('json')}>JSON</TaskActionButton>
+                <TaskActionButton onClick={() => handleExport('csv')}>CSV</TaskActionButton>
+                <TaskActionButton onClick={() => handleExport('md')}>Markdown</TaskActionButton>
+                <TaskActionButton onClick={() => handleExport('ics')}>iCal</TaskActionButton>
+                <TaskActionButton primary onClick={() => importInputRef.current?.click()}>{t('settings.import')}</TaskActionButton>
+              </TaskActions>
+            </div>
+            
             <AISaveButton onClick={() => setShowAISettings(false)}>
-              Save
+              {t('settings.save')}
             </AISaveButton>
           </AISettingsGroup>
         </AISettingsModal>
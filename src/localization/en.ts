@@ -0,0 +1,308 @@
+import { Catalog } from './vi';
+
+// English messages; keys and parameters mirror vi.ts
+export const en: Catalog = {
+  // Chat
+  'chat.welcome': "Hi! I'm Task Chat, your assistant for keeping on top of your tasks. Create your first task by typing '/add [task]'.",
+  'chat.invalidMessage': 'Invalid message',
+  'chat.placeholder': 'Type a message...',
+  'chat.commandHint': 'Try commands like "/add buy milk", "/list", or "/help"',
+  'chat.you': 'You',
+  'chat.analyzing': 'Analyzing your message...',
+  'chat.noTaskFound': "Got it. You can add a task by typing '/add [task]'.",
+  'chat.analyzeFailed': 'Sorry, I had trouble analyzing your message. Please try again later.',
+  'chat.tips': [
+    "💬 I'm here to help you get things done. Try '/add [task]' to create a task.",
+    "📋 Want to see your tasks? Just type 'list'.",
+    "📅 Need a deadline? Try 'add buy groceries tomorrow'.",
+    "❓ Not sure what to do? Type 'help' to see every command.",
+    "🚀 Let's focus! What should we add first?"
+  ],
+  'chat.saveFailed': "⚠️ Couldn't save the change, please try again.",
+  'chat.saveConflict': '⚠️ {task} was changed somewhere else, so your change was not saved. Check the task and edit it again.',
+  'chat.readFileFailed': "❌ Couldn't read the file.",
+
+  // Tasks
+  'task.added': '✅ Task added: {task}',
+  'task.completed': [
+    '🎉 Done: "{task}"!',
+    '✅ Completed: "{task}"!',
+    '💯 Finished: "{task}"!',
+    '👏 Task complete: "{task}"!',
+    '🌟 Great job! You finished "{task}"!'
+  ],
+  'task.nextOccurrence': '🔁 Next time: {date}',
+  'task.snoozed': '⏰ Snoozed for {duration}. Do it for real this time!',
+  'task.timeUp': '⏰ Time is up for: "{task}"',
+  'task.edit': 'Edit task',
+  'task.done': '✅ Done',
+  'task.subtaskProgress': { one: '☑ {done}/{count} step', other: '☑ {done}/{count} steps' },
+  'task.generalCategory': '📋 General',
+
+  // List
+  'list.intro': 'Here are your tasks:',
+  'list.title': 'Your Tasks',
+  'list.empty': 'No tasks yet. Add a task!',
+  'list.emptyFilter': 'No tasks tagged {tags}.',
+
+  // Dates and durations
+  'time.today': 'Today',
+  'time.tomorrow': 'Tomorrow',
+  'time.up': "Time's up!",
+  'time.remaining': '{duration} remaining',
+  'time.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'time.hours': { one: '{count} hour', other: '{count} hours' },
+
+  // Recurrence, shown after "🔁"
+  'recurrence.hourly': 'every hour',
+  'recurrence.everyHours': 'every {count} hours',
+  'recurrence.daily': 'daily',
+  'recurrence.everyDays': 'every {count} days',
+  'recurrence.weekdays': 'Mon-Fri',
+  'recurrence.weekly': 'weekly',
+  'recurrence.everyWeeks': 'every {count} weeks',
+  'recurrence.onDaysEveryWeeks': '{days}, every {count} weeks',
+  'recurrence.monthly': 'monthly',
+  'recurrence.monthlyOnDay': 'monthly on day {day}',
+
+  // Priorities
+  'priority.1': 'Urgent',
+  'priority.2': 'High',
+  'priority.3': 'Normal',
+  'priority.4': 'Low',
+
+  // Editing
+  'edit.unchanged': '✏️ Nothing changed for {task}.',
+  'edit.saved': '✏️ Edited {task}:\n{changes}',
+  'edit.invalidDue': '❌ Could not understand the deadline "{due}". Try "17h mai", "tối nay" or "none" to remove it.',
+  'edit.emptyText': '❌ The task text cannot be empty.',
+  'edit.duePlaceholder': 'Due: {due} (17h mai, none...)',
+  'edit.addDuePlaceholder': 'Add a deadline: 17h mai, thứ 6...',
+  'edit.cancel': 'Cancel',
+  'edit.save': 'Save',
+  'edit.change.text': 'text: "{before}" → "{after}"',
+  'edit.change.due': 'due: {before} → {after}',
+  'edit.change.category': 'category: {before} → {after}',
+  'edit.change.priority': 'priority: {before} → {after}',
+  'edit.change.timebox': 'timebox: {before} → {after}',
+  'edit.noDue': 'none',
+  'edit.defaultTimebox': 'default',
+
+  // Undo, redo and the operation labels the repository records
+  'undo.done': '↩️ Undone: {label}. Type /redo to redo it.',
+  'undo.expired': 'This change can no longer be undone.',
+  'undo.empty': 'Nothing to undo.',
+  'undo.conflict': '⚠️ Cannot undo: {task} was changed after this step.',
+  'undo.button': '↩️ Undo',
+  'redo.done': '↪️ Redone: {label}',
+  'redo.empty': 'Nothing to redo.',
+  'redo.conflict': '⚠️ Cannot redo: {task} was changed after the undo.',
+  'operation.add': 'add "{task}"',
+  'operation.edit': 'edit "{task}"',
+  'operation.complete': 'complete "{task}"',
+  'operation.reopen': 'reopen "{task}"',
+  'operation.snooze': 'snooze "{task}"',
+  'operation.addSubtasks': 'add steps to "{task}"',
+  'operation.completeSubtask': 'finish a step of "{task}"',
+  'operation.reopenSubtask': 'reopen a step of "{task}"',
+  'operation.delete': 'delete "{task}"',
+  'operation.clear': { one: 'delete {count} task', other: 'delete {count} tasks' },
+  'operation.import': { one: 'import {count} task', other: 'import {count} tasks' },
+  'operation.restore': 'restore "{task}"',
+  'operation.restoreMany': { one: 'restore {count} task', other: 'restore {count} tasks' },
+
+  // AI breakdown
+  'breakdown.needsAI': "🤖 Turn on AI in the settings to break tasks down. You can still add steps yourself with 'sub [number] [step]'.",
+  'breakdown.working': '🧩 Breaking down "{task}"...',
+  'breakdown.nothing': '🧩 The AI had no new steps for "{task}".',
+  'breakdown.done': {
+    one: '🧩 Split "{task}" into {count} step:\n{steps}',
+    other: '🧩 Split "{task}" into {count} steps:\n{steps}'
+  },
+  'breakdown.badFormat': '😅 The AI replied in the wrong format, so nothing was split. Try again later.',
+  'breakdown.failed': "😅 Couldn't break the task down: {error}",
+
+  // Export and import
+  'export.calendar': {
+    one: '📅 Exported {count} task with a deadline to a calendar file (.ics).',
+    other: '📅 Exported {count} tasks with a deadline to a calendar file (.ics).'
+  },
+  'export.calendarDeadline': 'Deadline: {deadline}',
+  'export.done': { one: '📤 Exported {count} task ({format}).', other: '📤 Exported {count} tasks ({format}).' },
+  'export.markdownTitle': 'TaskTroll — Task list',
+  'export.markdownExportedAt': 'Exported {time}',
+  'export.markdownOpen': 'Open ({count})',
+  'export.markdownDone': 'Done ({count})',
+  'export.markdownNoOpen': 'No open tasks.',
+  'export.markdownNoDone': 'Nothing finished yet.',
+  'export.markdownDue': 'due {time}',
+  'export.markdownOverdue': '⚠️ overdue',
+  'import.invalid': '❌ Invalid backup file: {issues}',
+  'import.done': '📥 Imported {added} new tasks, updated {updated}, kept {kept} unchanged.',
+  'import.calendarEmpty': '📅 No tasks found in the calendar file{details}.',
+  'import.calendarDone': {
+    one: '📅 Imported {count} task from the calendar{details}.',
+    other: '📅 Imported {count} tasks from the calendar{details}.'
+  },
+  'import.calendarExisting': '{count} already there',
+  'import.calendarSkipped': { one: 'skipped {count} past or cancelled entry', other: 'skipped {count} past or cancelled entries' },
+
+  // Reminders
+  'reminder.gentle': '⏳ "{task}" is due soon, time to get going!',
+  'reminder.urgent': '🔥 URGENT task! ',
+  'reminder.overdue': '🚨 "{task}" is {duration} late! {message}',
+  'notification.snooze': '⏰ Snooze {count} min',
+  'notification.done': '✅ Done',
+  'notification.test': '🔄 Test notification with badge and notification!',
+  'notification.enabledTitle': 'Notifications Enabled',
+  'notification.enabledBody': 'You will now receive notifications for overdue tasks!',
+  'notification.disabled': 'Notifications are disabled',
+  'notification.disabledHint': 'Please enable notifications to get reminders for your tasks',
+  'notification.enable': 'Enable Notifications',
+  'notification.digestTitle': '🌅 While you were away',
+  'notification.digestMessage': { one: '{count} reminder is waiting for you', other: '{count} reminders are waiting for you' },
+  'digest.title': '☀️ Your day at a glance',
+  'digest.summary': { one: 'Good morning! {count} task is due today.', other: 'Good morning! {count} tasks are due today.' },
+  'digest.summaryNone': 'Good morning! Nothing is due today.',
+  'digest.summaryMissed': { one: 'You missed {count} task yesterday, catch up on it.', other: 'You missed {count} tasks yesterday, catch up on them.' },
+  'digest.summaryStreak': '🔥 {count}-day streak of getting things done, keep it up!',
+  'digest.dueToday': '📅 Due today',
+  'digest.missed': '⚠️ Missed yesterday',
+  'digest.stats': '🔥 {count}-day streak · {done} done yesterday',
+  'pause.hour': '🔕 1 hour',
+  'pause.tomorrow': '🌙 Till tomorrow',
+  'pause.hint': 'Pause reminders',
+  'pause.active': '🔕 Until {time}',
+  'pause.resume': 'Click to resume reminders',
+
+  // Commands
+  'command.failed': '⚠️ The /{command} command failed, please try again.',
+  'command.usage': 'Usage: {usage}',
+  'command.help': 'Commands:\n{commands}\n\nPick a task by its id (#a3f) or its number in the list. You can also just chat and I will look for tasks in your messages.',
+  'command.add': 'Add a new task',
+  'command.list': 'Show your tasks, optionally filtered by tag',
+  'command.done': 'Mark a task as done',
+  'command.undone': 'Reopen a completed task',
+  'command.delete': 'Delete a task',
+  'command.edit': 'Change the text, deadline, category, priority or timebox',
+  'command.move': 'Move a task to another category',
+  'command.due': 'Set a new deadline',
+  'command.tag': 'Add or remove tags',
+  'command.undo': 'Undo the last change',
+  'command.redo': 'Redo the change you just undid',
+  'command.sub': 'Add steps to a task',
+  'command.breakdown': 'Let the AI break a task down',
+  'command.clear': 'Delete all tasks',
+  'command.clearall': 'Delete all tasks and messages',
+  'command.trash': 'Show the trash, or empty it with "empty"',
+  'command.restore': 'Restore a task from the trash',
+  'command.export': 'Export tasks to a file',
+  'command.import': 'Import a backup (.json) or calendar (.ics)',
+  'command.helpDescription': 'Show the commands',
+  'command.addUsage': '/add [!1-!4] <task> [#tag] [30m/2h] [every 2h/every morning] [tonight]',
+  'command.listUsage': '/list [#tag...] (a task id such as #a3f wins over a tag with the same name)',
+  'command.doneUsage': '/done <#id|number>',
+  'command.undoneUsage': '/undone <#id|number>',
+  'command.deleteUsage': '/delete <#id|number>',
+  'command.editUsage': '/edit <#id|number> [new text] [text=…] [due=5pm tomorrow|none] [cat=work] [p=1-4] [time=30m|none]',
+  'command.moveUsage': '/move <#id|number> <{categories}|general>',
+  'command.dueUsage': '/due <#id|number> <deadline, e.g. 5pm tomorrow, friday|none>',
+  'command.tagUsage': '/tag <#id|number> <tag...> (prefix "-" to remove a tag, e.g. -work)',
+  'command.undoUsage': '/undo',
+  'command.redoUsage': '/redo',
+  'command.subUsage': '/sub <#id|number> <step>[; another step]',
+  'command.breakdownUsage': '/breakdown <#id|number>',
+  'command.clearUsage': '/clear',
+  'command.clearallUsage': '/clearall',
+  'command.trashUsage': '/trash [empty]',
+  'command.restoreUsage': '/restore <#id|number in /trash>',
+  'command.exportUsage': '/export [json|csv|md|ics] [todo]',
+  'command.importUsage': '/import',
+  'command.helpUsage': '/help',
+
+  'reply.noTasks': "You have no tasks yet. Add one by typing '/add [task]'.",
+  'reply.alreadyDone': '{task} is already done.',
+  'reply.stillOpen': '{task} is still open.',
+  'reply.deleted': '🗑️ Deleted task: {task}.',
+  'reply.inTrash': { one: ' It stays in the trash for {count} day (/trash).', other: ' It stays in the trash for {count} days (/trash).' },
+  'reply.badDue': '❌ Could not understand the deadline "{due}". Try "17h mai", "tối nay" or "thứ 6 tuần sau".',
+  'reply.tags': '🏷️ Tags of {task}: {tags}',
+  'reply.noTags': '(none)',
+  'reply.subtaskAdded': '➕ Added step "{step}" to {task}',
+  'reply.subtasksAdded': '➕ Added {count} steps to {task}',
+  'reply.nothingToClear': 'You have no tasks to delete.',
+  'reply.cleared': { one: '🧹 Deleted {count} task.', other: '🧹 Deleted all {count} tasks.' },
+  'reply.clearedAll': { one: '🧹 Deleted {count} task and the chat history.', other: '🧹 Deleted all {count} tasks and the chat history.' },
+  'reply.trashEmpty': '🗑️ The trash is empty.',
+  'reply.trashEmptied': { one: '🗑️ Permanently deleted {count} task from the trash.', other: '🗑️ Permanently deleted {count} tasks from the trash.' },
+  'reply.trashItem': '{index}. {task} — deleted {date}',
+  'reply.trash': {
+    one: '🗑️ Trash (kept for {count} day):\n{items}\n\nType /restore <#id|number> to restore, /trash empty to empty it.',
+    other: '🗑️ Trash (kept for {count} days):\n{items}\n\nType /restore <#id|number> to restore, /trash empty to empty it.'
+  },
+  'reply.restored': '♻️ Restored {task}',
+  'reply.importHint': '📂 Pick a backup (.json) or calendar file (.ics) to import. Tasks with the same id are merged, not overwritten.',
+
+  // Invalid commands
+  'commandError.unknown': 'Unknown command "/{name}". Type /help to list commands.',
+  'commandError.unknownSuggest': 'Unknown command "/{name}". Did you mean /{suggestion}? Type /help to list commands.',
+  'commandError.ambiguousRef': '{ref} matches several tasks: {refs}. Type more characters.',
+  'commandError.refNotFound': "Task {ref} not found. Type 'list' to see task ids.",
+  'commandError.numberNotFound': "There is no task number {ref}. Type 'list' to see your tasks.",
+  'commandError.notARef': '"{ref}" is not a task reference. Use an id like #a3f or a list number.',
+  'commandError.missingRef': 'Missing task reference (#a3f or a list number).',
+  'commandError.unexpectedText': '/{command} does not take "{text}".',
+  'commandError.missingText': 'Missing text for this command.',
+  'commandError.badChoice': '"{choice}" is not valid, use one of: {choices}.',
+  'commandError.emptyTask': 'A task needs some text, not just tags.',
+  'commandError.listFilter': 'Lists can only be filtered by tag, e.g. /list #work. Did not understand "{text}".',
+  'commandError.unknownField': 'Unknown field {fields}. Use {known}.',
+  'commandError.badValue': 'Invalid value for {fields}.',
+
+  // Instructions sent to the AI
+  'ai.repairPrompt': 'The reply above is not valid: {issues}. Answer again with ONLY a JSON object in the requested format, without any other text.',
+  'ai.customPersonaStyle': 'Keep the voice of the character in the system prompt',
+
+  // Settings
+  'settings.title': 'AI Settings',
+  'settings.language': 'Language',
+  'settings.provider': 'Provider',
+  'settings.selectProvider': 'Select provider...',
+  'settings.apiKey': 'API Key',
+  'settings.apiKeyPlaceholder': 'Enter API key...',
+  'settings.apiKeyNotRequired': 'Not required',
+  'settings.endpoint': 'Endpoint',
+  'settings.model': 'Model',
+  'settings.enableAI': 'Enable AI',
+  'settings.autoDetect': 'Auto-detect Tasks',
+  'settings.defaultTimebox': 'Default timebox (minutes)',
+  'settings.reminderLead': 'Heads-up before deadline (minutes, 0 = off)',
+  'settings.trashRetention': 'Keep deleted tasks in the trash (days, 0 = delete right away)',
+  'settings.escalationIntervals': 'Follow-up intervals after expiry (minutes)',
+  'settings.persona': 'Coach persona',
+  'settings.globalPersona': 'Same as the coach persona',
+  'settings.spiceLevel': 'How spicy AI reminders may get',
+  'settings.spice.wholesome': '😇 Wholesome, no swearing',
+  'settings.spice.mild': '🌶️ Mild, light swearing',
+  'settings.spice.spicy': '🔥 Spicy, anything goes',
+  'settings.meetingSafe': '🤫 Meeting hours: always wholesome',
+  'settings.timeFrom': 'From',
+  'settings.timeTo': 'To',
+  'settings.dailyDigest': '☀️ Morning digest',
+  'settings.dailyDigestTime': 'Digest time',
+  'settings.quietHours': '🌙 Quiet hours (no notifications, a digest afterwards)',
+  'settings.quietHoursAdd': '➕ Add quiet hours',
+  'settings.quietHoursRemove': '🗑️ Remove these hours',
+  'settings.customName': 'Custom persona name',
+  'settings.customNamePlaceholder': '✍️ Custom',
+  'settings.customPrompt': 'Custom persona prompt',
+  'settings.customPromptPlaceholder': 'You are my mom, nagging me about my tasks in a grumpy but loving way...',
+  'settings.customFallback': 'Fallback messages (one per line)',
+  'settings.tags': 'Tags (icon, color, aliases separated by commas)',
+  'settings.newTagPlaceholder': 'New tag, e.g. family',
+  'settings.addTag': 'Add',
+  'settings.removeTag': 'Remove {tag}',
+  'settings.backup': 'Backup & export',
+  'settings.import': 'Import',
+  'settings.save': 'Save'
+};
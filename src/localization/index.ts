@@ -0,0 +1,56 @@
+import { Locale } from '../types/shared';
+import { vi, Catalog, CatalogEntry, MessageKey } from './vi';
+import { en } from './en';
+
+export type { Catalog, CatalogEntry, MessageKey, PluralMessage } from './vi';
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Locale, Catalog> = { vi, en };
+
+export const LOCALES = Object.keys(CATALOGS) as Locale[];
+
+export const DEFAULT_LOCALE: Locale = 'vi';
+
+// Shown in the language picker, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  vi: 'Tiếng Việt',
+  en: 'English'
+};
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// "{task}" -> params.task; unknown names are left in place so a missing parameter is easy to spot
+const interpolate = (template: string, params: MessageParams = {}) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match);
+
+const selectForm = (entry: CatalogEntry, locale: Locale, params?: MessageParams): string => {
+  if (typeof entry === 'string') return entry;
+  if (Array.isArray(entry)) return entry[Math.floor(Math.random() * entry.length)];
+  const count = Number(params?.count ?? 0);
+  const form = new Intl.PluralRules(locale).select(count);
+  return (form === 'one' && entry.one) || entry.other;
+};
+
+/**
+ * Message `key` in `locale`, falling back to Vietnamese. Plural entries use `params.count`;
+ * pools return one of their messages at random.
+ */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const entry = CATALOGS[locale]?.[key] ?? vi[key];
+  return interpolate(selectForm(entry, locale, params), params);
+};
+
+/**
+ * Every message of a pool (or the single message), e.g. to hand a list to code that picks itself.
+ */
+export const translateAll = (locale: Locale, key: MessageKey, params?: MessageParams): string[] => {
+  const entry = CATALOGS[locale]?.[key] ?? vi[key];
+  const messages = Array.isArray(entry) ? entry : [selectForm(entry, locale, params)];
+  return messages.map(message => interpolate(message, params));
+};
+
+export const createTranslator = (locale: Locale): Translator =>
+  (key, params) => translate(locale, key, params);
@@ -1,132 +1,306 @@
-// Modern, minimal English text resources
-
-export const AppStrings = {
-  // App UI
-  appTitle: '✨ Task Chat',
-  settings: '⚙️',
-  inputPlaceholder: '✍️ Nhập nhiệm vụ...',
-  send: '➤',
-  
-  // Settings UI
-  aiProvider: '🤖 Provider',
-  apiKey: 'Key',
-  apiKeyPlaceholder: '🔒 Enter key...',
-  selectProvider: '📱 Select',
-  openRouter: 'OpenRouter',
-  openAI: 'OpenAI',
-  googleGemini: 'Gemini',
-  deepSeek: 'DeepSeek',
-  enableAI: '🚀 Enable',
-  autoDetectTasks: 'Auto-detect',
-  saveSettings: 'Save',
-  testConnection: 'Test',
-  
-  // Todo List
-  todoListTitle: '📋 Tasks',
-  emptyTodoList: '🤷‍♂️ No tasks yet',
-  
-  // Testing
-  testingConnection: '⏳ Testing...',
-  testError: '❌ Error: {0}',
-  testSuccess: '✅ Success!',
-  testResultJson: '📊 Result: {0}',
-  testResult: '📊 Result: {0}',
-  testPrompt: 'Hello!',
-  
-  // Errors
-  apiError: '❌ {0}',
-  connectionError: '📶 Connection error',
-  
-  // Help command output
-  helpText: `**Commands:**
-      
-📋 /list - View tasks
-❌ /delete - Remove task
-❓ /help - Help`,
-
-  // Initial greeting
-  greeting: '👋 Let\'s manage your tasks! Type something to add a task or /help',
-  
-  // Task completion messages
-  taskCompletedMessages: [
-    '🎉 Xong rồi: "{0}"!',
-    '✅ Hoàn thành: "{0}"!',
-    '💯 Đã làm xong: "{0}"!',
-    '👏 Nhiệm vụ đã hoàn thành: "{0}"!',
-    '🌟 Tuyệt vời! Đã hoàn thành: "{0}"!'
+// Vietnamese messages, the reference catalog: every other locale must provide the same keys.
+// "{name}" is filled in by translate(); plural entries pick a form by the `count` parameter;
+// arrays are pools one message is picked from at random.
+
+export type PluralMessage = { one?: string; other: string };
+
+export type CatalogEntry = string | PluralMessage | string[];
+
+export const vi = {
+  // Chat
+  'chat.welcome': "Xin chào! Tôi là Task Chat, trợ lý giúp bạn quản lý công việc một cách hiệu quả. Hãy tạo công việc đầu tiên bằng cách nhập '/add [công việc]'.",
+  'chat.invalidMessage': 'Tin nhắn không hợp lệ',
+  'chat.placeholder': 'Nhập tin nhắn...',
+  'chat.commandHint': 'Thử các lệnh như "/add mua sữa", "/list" hoặc "/help"',
+  'chat.you': 'Bạn',
+  'chat.analyzing': 'Đang phân tích tin nhắn của bạn...',
+  'chat.noTaskFound': "Tôi hiểu rồi. Bạn có thể thêm công việc bằng cách nhập '/add [công việc]'.",
+  'chat.analyzeFailed': 'Xin lỗi, tôi gặp vấn đề khi phân tích tin nhắn của bạn. Hãy thử lại sau.',
+  'chat.tips': [
+    "💬 Tôi ở đây để giúp bạn năng suất hơn. Thử '/add [công việc]' để tạo công việc mới.",
+    "📋 Muốn xem danh sách công việc? Chỉ cần nhập 'list'.",
+    "📅 Cần đặt thời hạn? Thử 'add mua đồ ngày mai'.",
+    "❓ Không chắc phải làm gì? Nhập 'help' để xem tất cả lệnh.",
+    '🚀 Hãy tập trung vào công việc! Công việc nào chúng ta nên thêm đầu tiên?'
   ],
-  
-  // New task addition messages with icons
-  taskAddedMessages: [
-    '📝 Đã thêm: "{0}"',
-    '✓ Thêm nhiệm vụ: "{0}"',
-    '➕ Nhiệm vụ mới: "{0}"',
-    '🗒️ Ghi nhớ: "{0}"',
-    '📌 Đã ghim: "{0}"'
+  'chat.saveFailed': '⚠️ Không lưu được thay đổi, thử lại nhé.',
+  'chat.saveConflict': '⚠️ {task} vừa được thay đổi ở nơi khác nên thay đổi của bạn chưa được lưu. Xem lại công việc rồi sửa lại nhé.',
+  'chat.readFileFailed': '❌ Không đọc được file.',
+
+  // Tasks
+  'task.added': '✅ Đã thêm công việc: {task}',
+  'task.completed': [
+    '🎉 Xong rồi: "{task}"!',
+    '✅ Hoàn thành: "{task}"!',
+    '💯 Đã làm xong: "{task}"!',
+    '👏 Nhiệm vụ đã hoàn thành: "{task}"!',
+    '🌟 Tuyệt vời! Đã hoàn thành: "{task}"!'
   ],
+  'task.nextOccurrence': '🔁 Lần tiếp theo: {date}',
+  'task.snoozed': '⏰ Đã hoãn thêm {duration}. Lần này làm thật nhé!',
+  'task.timeUp': '⏰ Hết giờ cho công việc: "{task}"',
+  'task.edit': 'Sửa công việc',
+  'task.done': '✅ Xong',
+  'task.subtaskProgress': '☑ {done}/{count} bước',
+  'task.generalCategory': '📋 Chung',
+
+  // List
+  'list.intro': 'Đây là các công việc của bạn:',
+  'list.title': 'Công việc của bạn',
+  'list.empty': 'Chưa có công việc nào. Thêm một việc nhé!',
+  'list.emptyFilter': 'Không có công việc nào có tag {tags}.',
+
+  // Dates and durations
+  'time.today': 'Hôm nay',
+  'time.tomorrow': 'Ngày mai',
+  'time.up': 'Hết giờ!',
+  'time.remaining': 'Còn {duration}',
+  'time.minutes': '{count} phút',
+  'time.hours': '{count} giờ',
+
+  // Recurrence, shown after "🔁"
+  'recurrence.hourly': 'mỗi giờ',
+  'recurrence.everyHours': 'mỗi {count} giờ',
+  'recurrence.daily': 'hàng ngày',
+  'recurrence.everyDays': 'mỗi {count} ngày',
+  'recurrence.weekdays': 'thứ 2 - thứ 6',
+  'recurrence.weekly': 'hàng tuần',
+  'recurrence.everyWeeks': 'mỗi {count} tuần',
+  'recurrence.onDaysEveryWeeks': '{days}, mỗi {count} tuần',
+  'recurrence.monthly': 'hàng tháng',
+  'recurrence.monthlyOnDay': 'hàng tháng ngày {day}',
+
+  // Priorities
+  'priority.1': 'Khẩn cấp',
+  'priority.2': 'Cao',
+  'priority.3': 'Bình thường',
+  'priority.4': 'Thấp',
+
+  // Editing
+  'edit.unchanged': '✏️ {task} không có gì thay đổi.',
+  'edit.saved': '✏️ Đã sửa {task}:\n{changes}',
+  'edit.invalidDue': '❌ Không hiểu thời hạn "{due}". Thử "17h mai", "tối nay" hoặc "none" để bỏ hạn.',
+  'edit.emptyText': '❌ Nội dung công việc không được để trống.',
+  'edit.duePlaceholder': 'Hạn: {due} (17h mai, none...)',
+  'edit.addDuePlaceholder': 'Thêm hạn: 17h mai, thứ 6...',
+  'edit.cancel': 'Hủy',
+  'edit.save': 'Lưu',
+  'edit.change.text': 'nội dung: "{before}" → "{after}"',
+  'edit.change.due': 'hạn: {before} → {after}',
+  'edit.change.category': 'loại: {before} → {after}',
+  'edit.change.priority': 'ưu tiên: {before} → {after}',
+  'edit.change.timebox': 'thời lượng: {before} → {after}',
+  'edit.noDue': 'không có',
+  'edit.defaultTimebox': 'mặc định',
+
+  // Undo, redo and the operation labels the repository records
+  'undo.done': '↩️ Đã hoàn tác: {label}. Gõ /redo để làm lại.',
+  'undo.expired': 'Thay đổi này không hoàn tác được nữa.',
+  'undo.empty': 'Không có thay đổi nào để hoàn tác.',
+  'undo.conflict': '⚠️ Không hoàn tác được: {task} đã thay đổi sau bước này.',
+  'undo.button': '↩️ Hoàn tác',
+  'redo.done': '↪️ Đã làm lại: {label}',
+  'redo.empty': 'Không có thay đổi nào để làm lại.',
+  'redo.conflict': '⚠️ Không làm lại được: {task} đã thay đổi sau khi hoàn tác.',
+  'operation.add': 'thêm "{task}"',
+  'operation.edit': 'sửa "{task}"',
+  'operation.complete': 'hoàn thành "{task}"',
+  'operation.reopen': 'mở lại "{task}"',
+  'operation.snooze': 'hoãn "{task}"',
+  'operation.addSubtasks': 'thêm bước vào "{task}"',
+  'operation.completeSubtask': 'xong một bước của "{task}"',
+  'operation.reopenSubtask': 'mở lại một bước của "{task}"',
+  'operation.delete': 'xóa "{task}"',
+  'operation.clear': 'xóa {count} công việc',
+  'operation.import': 'nhập {count} công việc',
+  'operation.restore': 'khôi phục "{task}"',
+  'operation.restoreMany': 'khôi phục {count} công việc',
+
+  // AI breakdown
+  'breakdown.needsAI': "🤖 Cần bật AI trong phần cài đặt để chia nhỏ công việc. Bạn vẫn có thể tự thêm bước bằng 'sub [số thứ tự] [bước]'.",
+  'breakdown.working': '🧩 Đang chia nhỏ "{task}"...',
+  'breakdown.nothing': '🧩 AI không đề xuất thêm bước nào cho "{task}".',
+  'breakdown.done': '🧩 Đã chia "{task}" thành {count} bước:\n{steps}',
+  'breakdown.badFormat': '😅 AI trả lời sai định dạng, chưa chia nhỏ được. Thử lại sau nhé.',
+  'breakdown.failed': '😅 Không chia nhỏ được công việc: {error}',
+
+  // Export and import
+  'export.calendar': '📅 Đã xuất {count} công việc có hạn ra file lịch (.ics).',
+  'export.calendarDeadline': 'Hạn: {deadline}',
+  'export.done': '📤 Đã xuất {count} công việc ({format}).',
+  'export.markdownTitle': 'TaskTroll — Danh sách công việc',
+  'export.markdownExportedAt': 'Xuất lúc {time}',
+  'export.markdownOpen': 'Đang làm ({count})',
+  'export.markdownDone': 'Đã xong ({count})',
+  'export.markdownNoOpen': 'Không có công việc nào.',
+  'export.markdownNoDone': 'Chưa hoàn thành công việc nào.',
+  'export.markdownDue': 'hạn {time}',
+  'export.markdownOverdue': '⚠️ quá hạn',
+  'import.invalid': '❌ File backup không hợp lệ: {issues}',
+  'import.done': '📥 Đã nhập {added} công việc mới, cập nhật {updated}, giữ nguyên {kept}.',
+  'import.calendarEmpty': '📅 Không tìm thấy công việc nào trong file lịch{details}.',
+  'import.calendarDone': '📅 Đã nhập {count} công việc từ lịch{details}.',
+  'import.calendarExisting': '{count} đã có sẵn',
+  'import.calendarSkipped': 'bỏ qua {count} mục đã qua hoặc đã hủy',
+
+  // Reminders
+  'reminder.gentle': '⏳ Sắp tới hạn "{task}" rồi đó, làm dần đi là vừa!',
+  'reminder.urgent': '🔥 Việc KHẨN CẤP! ',
+  'reminder.overdue': '🚨 "{task}" đã trễ {duration}! {message}',
+  'notification.snooze': '⏰ Hoãn {count} phút',
+  'notification.done': '✅ Xong rồi',
+  'notification.test': '🔄 Thông báo thử với badge và thông báo!',
+  'notification.enabledTitle': 'Đã bật thông báo',
+  'notification.enabledBody': 'Bạn sẽ nhận được thông báo cho các công việc trễ hạn!',
+  'notification.disabled': 'Thông báo đang tắt',
+  'notification.disabledHint': 'Hãy bật thông báo để nhận lời nhắc cho công việc của bạn',
+  'notification.enable': 'Bật thông báo',
+  'notification.digestTitle': '🌅 Trong lúc bạn nghỉ',
+  'notification.digestMessage': '{count} lời nhắc đang chờ bạn',
+  'digest.title': '☀️ Tóm tắt hôm nay',
+  'digest.summary': 'Chào buổi sáng! Hôm nay có {count} việc đến hạn.',
+  'digest.summaryNone': 'Chào buổi sáng! Hôm nay không có việc nào đến hạn.',
+  'digest.summaryMissed': 'Hôm qua lỡ hạn {count} việc, làm bù luôn nhé.',
+  'digest.summaryStreak': '🔥 Chuỗi {count} ngày hoàn thành việc, giữ vững nhé!',
+  'digest.dueToday': '📅 Hạn hôm nay',
+  'digest.missed': '⚠️ Lỡ hạn hôm qua',
+  'digest.stats': '🔥 Chuỗi {count} ngày · hôm qua xong {done} việc',
+  'pause.hour': '🔕 1 giờ',
+  'pause.tomorrow': '🌙 Đến mai',
+  'pause.hint': 'Tạm dừng nhắc nhở',
+  'pause.active': '🔕 Đến {time}',
+  'pause.resume': 'Bấm để bật lại nhắc nhở',
+
+  // Commands
+  'command.failed': '⚠️ Lệnh /{command} bị lỗi, thử lại nhé.',
+  'command.usage': 'Cú pháp: {usage}',
+  'command.help': 'Các lệnh:\n{commands}\n\nChọn công việc bằng mã (#a3f) hoặc số thứ tự trong danh sách. Bạn cũng có thể nhắn tin bình thường và tôi sẽ phân tích xem có công việc nào cần làm không.',
+  'command.add': 'Thêm công việc mới',
+  'command.list': 'Xem danh sách công việc, có thể lọc theo tag',
+  'command.done': 'Đánh dấu hoàn thành',
+  'command.undone': 'Mở lại công việc đã hoàn thành',
+  'command.delete': 'Xóa công việc',
+  'command.edit': 'Sửa nội dung, hạn, loại, ưu tiên hoặc thời lượng',
+  'command.move': 'Chuyển công việc sang loại khác',
+  'command.due': 'Đặt thời hạn mới',
+  'command.tag': 'Gắn hoặc bỏ tag',
+  'command.undo': 'Hoàn tác thay đổi vừa rồi',
+  'command.redo': 'Làm lại thay đổi vừa hoàn tác',
+  'command.sub': 'Thêm bước nhỏ vào công việc',
+  'command.breakdown': 'Nhờ AI chia nhỏ công việc',
+  'command.clear': 'Xóa tất cả công việc',
+  'command.clearall': 'Xóa tất cả công việc và tin nhắn',
+  'command.trash': 'Xem thùng rác, hoặc dọn sạch với "empty"',
+  'command.restore': 'Khôi phục công việc từ thùng rác',
+  'command.export': 'Xuất công việc ra file',
+  'command.import': 'Nhập file backup (.json) hoặc lịch (.ics)',
+  'command.helpDescription': 'Xem các lệnh',
+  'command.addUsage': '/add [!1-!4] <công việc> [#tag] [30p/2h] [every 2h/mỗi sáng] [tối nay]',
+  'command.listUsage': '/list [#tag...] (#mã của một công việc được ưu tiên hơn tag trùng tên)',
+  'command.doneUsage': '/done <#mã|số>',
+  'command.undoneUsage': '/undone <#mã|số>',
+  'command.deleteUsage': '/delete <#mã|số>',
+  'command.editUsage': '/edit <#mã|số> [nội dung mới] [text=…] [due=17h mai|none] [cat=work] [p=1-4] [time=30p|none]',
+  'command.moveUsage': '/move <#mã|số> <{categories}|general>',
+  'command.dueUsage': '/due <#mã|số> <thời hạn, ví dụ: 17h mai, thứ 6|none>',
+  'command.tagUsage': '/tag <#mã|số> <tag...> (thêm "-" để bỏ tag, ví dụ -work)',
+  'command.undoUsage': '/undo',
+  'command.redoUsage': '/redo',
+  'command.subUsage': '/sub <#mã|số> <bước>[; bước khác]',
+  'command.breakdownUsage': '/breakdown <#mã|số>',
+  'command.clearUsage': '/clear',
+  'command.clearallUsage': '/clearall',
+  'command.trashUsage': '/trash [empty]',
+  'command.restoreUsage': '/restore <#mã|số trong /trash>',
+  'command.exportUsage': '/export [json|csv|md|ics] [todo]',
+  'command.importUsage': '/import',
+  'command.helpUsage': '/help',
+
+  'reply.noTasks': "Bạn chưa có công việc nào. Hãy thêm công việc bằng cách nhập '/add [công việc]'.",
+  'reply.alreadyDone': '{task} đã xong từ trước rồi.',
+  'reply.stillOpen': '{task} vẫn đang mở.',
+  'reply.deleted': '🗑️ Đã xóa công việc: {task}.',
+  'reply.inTrash': ' Công việc nằm trong thùng rác {count} ngày (/trash).',
+  'reply.badDue': '❌ Không hiểu thời hạn "{due}". Thử "17h mai", "tối nay" hoặc "thứ 6 tuần sau".',
+  'reply.tags': '🏷️ Tag của {task}: {tags}',
+  'reply.noTags': '(không có)',
+  'reply.subtaskAdded': '➕ Đã thêm bước "{step}" vào {task}',
+  'reply.subtasksAdded': '➕ Đã thêm {count} bước vào {task}',
+  'reply.nothingToClear': 'Bạn chưa có công việc nào để xóa.',
+  'reply.cleared': '🧹 Đã xóa tất cả {count} công việc.',
+  'reply.clearedAll': '🧹 Đã xóa tất cả {count} công việc và lịch sử tin nhắn.',
+  'reply.trashEmpty': '🗑️ Thùng rác trống.',
+  'reply.trashEmptied': '🗑️ Đã xóa vĩnh viễn {count} công việc trong thùng rác.',
+  'reply.trashItem': '{index}. {task} — xóa lúc {date}',
+  'reply.trash': '🗑️ Thùng rác (giữ {count} ngày):\n{items}\n\nGõ /restore <#mã|số> để khôi phục, /trash empty để dọn sạch.',
+  'reply.restored': '♻️ Đã khôi phục {task}',
+  'reply.importHint': '📂 Chọn file backup (.json) hoặc file lịch (.ics) để nhập. Công việc trùng id sẽ được gộp, không bị ghi đè.',
+
+  // Invalid commands
+  'commandError.unknown': 'Không có lệnh "/{name}". Gõ /help để xem các lệnh.',
+  'commandError.unknownSuggest': 'Không có lệnh "/{name}". Ý bạn là /{suggestion}? Gõ /help để xem các lệnh.',
+  'commandError.ambiguousRef': 'Mã {ref} khớp nhiều công việc: {refs}. Gõ thêm ký tự.',
+  'commandError.refNotFound': "Không tìm thấy công việc {ref}. Gõ 'list' để xem mã các công việc.",
+  'commandError.numberNotFound': "Không có công việc số {ref}. Gõ 'list' để xem danh sách.",
+  'commandError.notARef': '"{ref}" không phải mã công việc. Dùng mã như #a3f hoặc số thứ tự.',
+  'commandError.missingRef': 'Thiếu mã công việc (#a3f) hoặc số thứ tự.',
+  'commandError.unexpectedText': 'Lệnh /{command} không nhận thêm nội dung "{text}".',
+  'commandError.missingText': 'Thiếu nội dung cho lệnh.',
+  'commandError.badChoice': '"{choice}" không hợp lệ, chọn một trong: {choices}.',
+  'commandError.emptyTask': 'Công việc cần có nội dung, không chỉ tag.',
+  'commandError.listFilter': 'Chỉ lọc được theo tag, ví dụ /list #work. Không hiểu "{text}".',
+  'commandError.unknownField': 'Không có trường {fields}. Dùng {known}.',
+  'commandError.badValue': 'Giá trị của {fields} không hợp lệ.',
+
+  // Instructions sent to the AI
+  'ai.repairPrompt': 'Phản hồi trên không hợp lệ: {issues}. Hãy trả lời lại CHỈ bằng một đối tượng JSON đúng định dạng đã yêu cầu, không thêm chữ nào khác.',
+  'ai.customPersonaStyle': 'Giữ đúng giọng điệu của nhân vật trong system prompt',
+
+  // Settings
+  'settings.title': 'Cài đặt AI',
+  'settings.language': 'Ngôn ngữ',
+  'settings.provider': 'Nhà cung cấp',
+  'settings.selectProvider': 'Chọn nhà cung cấp...',
+  'settings.apiKey': 'API Key',
+  'settings.apiKeyPlaceholder': 'Nhập API key...',
+  'settings.apiKeyNotRequired': 'Không cần',
+  'settings.endpoint': 'Endpoint',
+  'settings.model': 'Model',
+  'settings.enableAI': 'Bật AI',
+  'settings.autoDetect': 'Tự phát hiện công việc',
+  'settings.defaultTimebox': 'Thời lượng mặc định (phút)',
+  'settings.reminderLead': 'Nhắc trước hạn (phút, 0 = tắt)',
+  'settings.trashRetention': 'Giữ công việc đã xóa trong thùng rác (ngày, 0 = xóa ngay)',
+  'settings.escalationIntervals': 'Khoảng nhắc lại sau khi hết hạn (phút)',
+  'settings.persona': 'Nhân vật nhắc việc',
+  'settings.globalPersona': 'Theo persona chung',
+  'settings.spiceLevel': 'Độ "mặn" của lời nhắc AI',
+  'settings.spice.wholesome': '😇 Lành mạnh, không chửi thề',
+  'settings.spice.mild': '🌶️ Vừa phải, chửi thề nhẹ',
+  'settings.spice.spicy': '🔥 Cay, không kiêng gì',
+  'settings.meetingSafe': '🤫 Giờ họp: luôn lành mạnh',
+  'settings.timeFrom': 'Từ',
+  'settings.timeTo': 'Đến',
+  'settings.dailyDigest': '☀️ Tóm tắt mỗi sáng',
+  'settings.dailyDigestTime': 'Giờ gửi tóm tắt',
+  'settings.quietHours': '🌙 Giờ yên tĩnh (không thông báo, gửi tóm tắt sau đó)',
+  'settings.quietHoursAdd': '➕ Thêm giờ yên tĩnh',
+  'settings.quietHoursRemove': '🗑️ Xóa khung giờ này',
+  'settings.customName': 'Tên nhân vật tự tạo',
+  'settings.customNamePlaceholder': '✍️ Tự tạo',
+  'settings.customPrompt': 'Prompt của nhân vật tự tạo',
+  'settings.customPromptPlaceholder': 'Bạn là mẹ tôi, nhắc việc bằng giọng cằn nhằn nhưng thương con...',
+  'settings.customFallback': 'Tin nhắn dự phòng (mỗi dòng một tin)',
+  'settings.tags': 'Tag (biểu tượng, màu, tên gọi khác cách nhau bởi dấu phẩy)',
+  'settings.newTagPlaceholder': 'Tag mới, ví dụ: gia đình',
+  'settings.addTag': 'Thêm',
+  'settings.removeTag': 'Xóa {tag}',
+  'settings.backup': 'Sao lưu & xuất',
+  'settings.import': 'Nhập',
+  'settings.save': 'Lưu'
 };
 
-export const DEFAULT_BLAME_MESSAGES = [
-  "🕒 Task due soon!",
-  "⏰ Don't forget this task!",
-  "⚠️ Task pending!",
-  "📌 Reminder: complete this!",
-  "🔔 Task needs attention!",
-  "💭 Don't forget this one!",
-  "📢 This task is waiting!",
-  "⏱️ Tick tock...",
-  "🎯 Focus on this task!"
-];
-
-// AI Prompts
-export const TASK_DETECTION_PROMPT = `You're a task detection assistant:
-
-🔍 Find tasks in messages
-📅 Extract deadlines 
-🏷️ Categorize tasks
-
-JSON response:
-{
-  "category": "task category",
-  "detectedTasks": [
-    {
-      "text": "detected task",
-      "deadline": "deadline (if any)"
-    }
-  ]
-}`;
-
-export const BLAME_MESSAGE_PROMPT = `Create gentle reminder messages for incomplete tasks:
-
-- Motivational
-- Positive tone
-- Action-oriented
-
-JSON:
-{
-  "blameMessages": ["reminder messages"]
-}`;
-
-export const formatTaskDetectionPrompt = (taskText: string) => 
-  `Phân tích: "${taskText}".
-   Tách thành:
-   1. Nhiệm vụ chính (không bao gồm thời gian)
-   2. Thời hạn (nếu có)
-   
-   Reply in JSON format:
-   {
-     "detectedTasks": [
-       {
-         "text": "nhiệm vụ chính, không bao gồm thời gian",
-         "deadline": "thời hạn nếu có (hoặc null)"
-       }
-     ],
-     "category": "loại nhiệm vụ"
-   }`;
-
-export const formatBlamePrompt = (task: { text: string, category: string, deadline?: string }) => 
-  `Create reminder:
-   - Task: ${task.text}
-   - Type: ${task.category}
-   ${task.deadline ? `- Deadline: ${task.deadline}` : ''}
-   Reply in JSON format.`; 
\ No newline at end of file
+export type MessageKey = keyof typeof vi;
+
+// What other locales must provide
+export type Catalog = Record<MessageKey, CatalogEntry>;
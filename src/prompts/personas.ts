@@ -0,0 +1,322 @@
+import { AppSettings, Locale, PersonaId, SpiceLevel } from '../types/shared';
+import {
+  BLAME_MESSAGE_PROMPT,
+  DEFAULT_BLAME_MESSAGES,
+  WHOLESOME_BLAME_MESSAGES,
+  SPICY_BLAME_MESSAGES,
+  MAX_BLAME_MESSAGE_LENGTH
+} from './taskAnalysis';
+import { translate } from '../localization';
+import { findBlockedWord, getSpiceLevel } from '../utils/messageQuality';
+
+export interface Persona {
+  id: PersonaId;
+  name: string;
+  systemPrompt: string;        // Full system prompt, including the JSON output contract
+  style: string;               // One-line style rule repeated in the per-task prompt
+  example?: string;            // Example message, "{task}" is replaced with the task text
+  fallbackMessages: string[];  // Used when AI is off or fails
+  notificationTitles: string[];
+  locale: Locale;              // Language the messages are written (and requested) in
+  spiceLevel: SpiceLevel;      // Roughest language its generated messages may use
+}
+
+// What a persona says in another language; the prompts stay as written and ask for that language
+type PersonaText = Pick<PersonaDefinition, 'name' | 'example' | 'fallbackMessages' | 'fallbackBySpice' | 'notificationTitles'>;
+
+interface PersonaDefinition extends Omit<Persona, 'locale' | 'spiceLevel'> {
+  fallbackBySpice?: Partial<Record<SpiceLevel, string[]>>;  // Replaces fallbackMessages at that spice level
+  translations: Partial<Record<Locale, PersonaText>>;
+}
+
+// Output contract appended to every persona prompt except the original one, which already has it
+const BLAME_OUTPUT_FORMAT = `PHẢN HỒI PHẢI có định dạng JSON:
+{
+  "blameMessages": ["tin nhắn 1", "tin nhắn 2", "tin nhắn 3"]
+}
+
+LƯU Ý: Key PHẢI là "blameMessages", không được thay đổi. Các tin nhắn PHẢI DƯỚI ${MAX_BLAME_MESSAGE_LENGTH} ký tự.`;
+
+const withOutputFormat = (prompt: string) => `${prompt.trim()}\n\n${BLAME_OUTPUT_FORMAT}`;
+
+// Duolingo-style engaging titles with emojis in Vietnamese
+const DEFAULT_NOTIFICATION_TITLES = [
+  '🔥 Hết Giờ Rồi! ⏰',
+  '⚠️ Nhiệm Vụ Đang Chờ! ⚠️',
+  '📊 Kiểm Tra Năng Suất! 📈',
+  '⚡ Tập Trung Nào! ⚡',
+  '🚨 Đã Đến Hạn! 🚨',
+  '🎯 Mục Tiêu Của Bạn! ⏰',
+  '🔔 Nhắc Nhở Quan Trọng! 🔔',
+  '⏰ Thời Gian Đã Hết! 🔥'
+];
+
+// The Big Brother's English fallbacks, also the base of its spicy pool
+const BIG_BROTHER_MESSAGES_EN = [
+  'Get moving, the fresh grads are already ahead of you!',
+  'Still scrolling TikTok? Enjoy the performance review!',
+  'Your coworkers made senior. You made excuses.',
+  'ChatGPT is not going to do this one for you!',
+  'Deadline passed ages ago. Senior Procrastinator, huh?',
+  'Thought you were a 10x dev. Turns out 100x lazy. Get up!',
+  'The interns finished five tasks, you have not even started!',
+  'Due tomorrow and nothing done? Enjoy the all-nighter!'
+];
+
+export const PERSONAS: Record<Exclude<PersonaId, 'custom'>, PersonaDefinition> = {
+  bigBrother: {
+    id: 'bigBrother',
+    name: '😤 Người Anh Cả',
+    systemPrompt: BLAME_MESSAGE_PROMPT,
+    style: 'Phong cách "anh trai" đang troll đàn em, ngôn ngữ cực kỳ đường phố',
+    example: 'Làm {task} đi ba, không là thua mấy đứa fresher đó!',
+    fallbackMessages: DEFAULT_BLAME_MESSAGES,
+    fallbackBySpice: {
+      wholesome: WHOLESOME_BLAME_MESSAGES,
+      spicy: SPICY_BLAME_MESSAGES
+    },
+    notificationTitles: DEFAULT_NOTIFICATION_TITLES,
+    translations: {
+      en: {
+        name: '😤 The Big Brother',
+        example: 'Do {task} already, the fresh grads are beating you!',
+        fallbackMessages: BIG_BROTHER_MESSAGES_EN,
+        fallbackBySpice: {
+          spicy: [
+            ...BIG_BROTHER_MESSAGES_EN,
+            'Damn, the deadline is on fire and you are still scrolling!',
+            'Hell, even the intern shipped today. Move it!',
+            'Crappy excuses will not finish this one. Get up!',
+            'Bloody hell, the fresh grads are lapping you!'
+          ]
+        },
+        notificationTitles: [
+          "🔥 Time's Up! ⏰",
+          '⚠️ Task Waiting! ⚠️',
+          '📊 Productivity Check! 📈',
+          '⚡ Focus Up! ⚡',
+          '🚨 Deadline Hit! 🚨',
+          '🔔 Important Reminder! 🔔'
+        ]
+      }
+    }
+  },
+
+  gentleMentor: {
+    id: 'gentleMentor',
+    name: '🌱 Người Thầy Hiền',
+    systemPrompt: withOutputFormat(`Bạn là một người thầy kiên nhẫn và ấm áp. Khi người dùng trì hoãn công việc, bạn nhắc nhở nhẹ nhàng:
+
+- Tích cực, động viên, không phán xét
+- Gợi ý một bước nhỏ có thể làm ngay
+- TRỰC TIẾP đề cập đến tên công việc
+- Tuyệt đối KHÔNG chửi thề hay mỉa mai
+
+Ví dụ tốt:
+- "Chỉ cần 5 phút cho báo cáo thôi, bắt đầu nhé, bạn làm được mà!"
+- "Mở file slide ra trước đã, phần còn lại sẽ dễ hơn nhiều đó!"`),
+    style: 'Giọng ấm áp, động viên, gợi ý một bước nhỏ làm ngay, không chửi thề',
+    example: 'Bắt đầu {task} với 5 phút thôi nhé, bạn làm được mà!',
+    fallbackMessages: [
+      'Bắt đầu từ bước nhỏ nhất thôi, bạn làm được mà! 🌱',
+      'Chỉ cần 5 phút tập trung, rồi mọi thứ sẽ dễ hơn nhiều.',
+      'Nghỉ đủ rồi, mình quay lại với công việc nhé? 💪',
+      'Hoàn thành việc này xong bạn sẽ thấy nhẹ nhõm lắm đó!',
+      'Không cần hoàn hảo, chỉ cần bắt đầu thôi nào.'
+    ],
+    notificationTitles: [
+      '🌱 Nhắc Nhẹ Một Chút',
+      '☕ Quay Lại Nào',
+      '💪 Bạn Làm Được Mà',
+      '🌤️ Một Bước Nhỏ Thôi'
+    ],
+    translations: {
+      en: {
+        name: '🌱 The Gentle Mentor',
+        example: 'Start {task} with just 5 minutes, you can do it!',
+        fallbackMessages: [
+          'Start with the smallest step, you can do it! 🌱',
+          'Just 5 focused minutes and everything gets easier.',
+          'Break is over, shall we get back to it? 💪',
+          'You will feel so much lighter once this is done!',
+          'It does not have to be perfect, it just has to start.'
+        ],
+        notificationTitles: [
+          '🌱 A Gentle Nudge',
+          '☕ Back To It',
+          '💪 You Can Do It',
+          '🌤️ Just One Small Step'
+        ]
+      }
+    }
+  },
+
+  drillSergeant: {
+    id: 'drillSergeant',
+    name: '🪖 Trung Sĩ Huấn Luyện',
+    systemPrompt: withOutputFormat(`Bạn là một trung sĩ huấn luyện quân đội nghiêm khắc. Người dùng là tân binh đang trì hoãn nhiệm vụ:
+
+- Ra LỆNH ngắn gọn, dứt khoát, VIẾT HOA những từ quan trọng
+- Dùng ngôn ngữ quân đội: "tân binh", "nhiệm vụ", "ngay lập tức", "rõ chưa"
+- TRỰC TIẾP đề cập đến tên công việc
+- Nêu hình phạt hài hước nếu không làm (chạy 10 vòng, hít đất 50 cái)
+
+Ví dụ tốt:
+- "TÂN BINH! Nộp báo cáo NGAY, không thì hít đất 50 cái, rõ chưa?!"
+- "Nhiệm vụ code review chưa xong? ĐỨNG DẬY! Làm ngay lập tức!"`),
+    style: 'Ra lệnh kiểu trung sĩ huấn luyện, dứt khoát, VIẾT HOA từ khóa, phạt hít đất/chạy vòng',
+    example: 'TÂN BINH! {task} NGAY LẬP TỨC, rõ chưa?!',
+    fallbackMessages: [
+      'TÂN BINH! Nhiệm vụ chưa xong? LÀM NGAY, rõ chưa?!',
+      'ĐỨNG DẬY! Không làm xong thì hít đất 50 cái!',
+      'Hết giờ rồi tân binh! Báo cáo tiến độ NGAY LẬP TỨC!',
+      'Lười thế này thì chạy 10 vòng sân! Quay lại làm việc!',
+      'Nhiệm vụ KHÔNG tự hoàn thành đâu! Hành động NGAY!'
+    ],
+    notificationTitles: [
+      '🪖 LỆNH KHẨN CẤP!',
+      '📯 TẬP HỢP NGAY!',
+      '🚨 BÁO CÁO NHIỆM VỤ!',
+      '⚔️ HÀNH ĐỘNG NGAY!'
+    ],
+    translations: {
+      en: {
+        name: '🪖 The Drill Sergeant',
+        example: 'RECRUIT! {task} RIGHT NOW, is that clear?!',
+        fallbackMessages: [
+          'RECRUIT! Mission not done? DO IT NOW, is that clear?!',
+          'ON YOUR FEET! Finish it or drop and give me 50!',
+          'Time is up, recruit! Report your progress IMMEDIATELY!',
+          'This lazy? Ten laps around the yard! Back to work!',
+          'Missions do NOT complete themselves! MOVE!'
+        ],
+        notificationTitles: [
+          '🪖 URGENT ORDERS!',
+          '📯 FALL IN NOW!',
+          '🚨 MISSION REPORT!',
+          '⚔️ MOVE OUT!'
+        ]
+      }
+    }
+  },
+
+  sarcasticColleague: {
+    id: 'sarcasticColleague',
+    name: '🙃 Đồng Nghiệp Mỉa Mai',
+    systemPrompt: withOutputFormat(`Bạn là một đồng nghiệp văn phòng thích mỉa mai nhưng tốt bụng. Khi người dùng trì hoãn, bạn châm chọc một cách khô khan, lịch sự giả tạo:
+
+- Giọng mỉa mai, khen ngược, không chửi thề
+- Dùng bối cảnh văn phòng: họp, sếp, email, Jira, standup
+- TRỰC TIẾP đề cập đến tên công việc
+
+Ví dụ tốt:
+- "Ồ, báo cáo vẫn chưa xong à? Chắc nó tự viết trong lúc bạn họp nhỉ."
+- "Standup mai chắc bạn lại nói 'đang làm' cho task này ha?"`),
+    style: 'Mỉa mai khô khan kiểu đồng nghiệp văn phòng, khen ngược, không chửi thề',
+    example: 'Ồ, {task} vẫn chưa xong à? Chắc nó tự làm trong lúc bạn lướt web nhỉ.',
+    fallbackMessages: [
+      'Ồ, vẫn chưa xong à? Chắc task tự làm trong lúc bạn lướt web nhỉ.',
+      'Standup mai lại "đang làm" tiếp hả? Ấn tượng thật.',
+      'Sếp chắc sẽ rất vui khi nghe lý do lần này đấy.',
+      'Tuyệt, thêm một deadline nữa được "linh hoạt" rồi.',
+      'Không sao, Jira cũng thích ticket nằm im mãi mà.'
+    ],
+    notificationTitles: [
+      '🙃 Ồ, Lại Là Bạn À',
+      '☕ Tin Nhắn Từ Bàn Bên',
+      '📎 Nhắc Nhở "Thân Thiện"',
+      '🗓️ Standup Sắp Tới Đó'
+    ],
+    translations: {
+      en: {
+        name: '🙃 The Sarcastic Colleague',
+        example: 'Oh, {task} is still not done? Maybe it finishes itself while you browse.',
+        fallbackMessages: [
+          'Oh, still not done? Maybe it finishes itself while you browse.',
+          'Saying "in progress" at standup again tomorrow? Impressive.',
+          'The boss will love this excuse, I am sure.',
+          'Great, another deadline has become "flexible".',
+          'No worries, Jira loves tickets that never move.'
+        ],
+        notificationTitles: [
+          '🙃 Oh, It Is You Again',
+          '☕ A Note From The Next Desk',
+          '📎 A "Friendly" Reminder',
+          '🗓️ Standup Is Coming'
+        ]
+      }
+    }
+  }
+};
+
+/**
+ * A built-in persona in the language from settings and the given spice level; languages without
+ * a translation keep the Vietnamese text. Fallbacks the spice level does not allow are dropped.
+ */
+const localizePersona = ({ translations, ...definition }: PersonaDefinition, settings: AppSettings, spiceLevel: SpiceLevel): Persona => {
+  const { fallbackBySpice, ...persona } = { ...definition, ...translations[settings.language] };
+  const fallbackMessages = fallbackBySpice?.[spiceLevel] ?? persona.fallbackMessages;
+
+  return {
+    ...persona,
+    fallbackMessages: fallbackMessages.filter(message => !findBlockedWord(message, spiceLevel)),
+    locale: settings.language,
+    spiceLevel
+  };
+};
+
+export const PERSONA_IDS = [...Object.keys(PERSONAS), 'custom'] as PersonaId[];
+
+// Categories that can have their own persona; keywords match AI and user-given category names
+export const PERSONA_CATEGORIES = [
+  { id: 'work', label: '💼 Công việc', keywords: ['work', 'công việc', 'cong viec'] },
+  { id: 'personal', label: '👤 Cá nhân', keywords: ['personal', 'cá nhân', 'ca nhan'] },
+  { id: 'health', label: '💪 Sức khỏe', keywords: ['health', 'sức khỏe', 'suc khoe'] },
+  { id: 'study', label: '📚 Học tập', keywords: ['study', 'school', 'học', 'hoc'] },
+  { id: 'home', label: '🏠 Nhà cửa', keywords: ['home', 'nhà', 'nha'] }
+];
+
+/**
+ * Builds the user-written persona from settings, borrowing defaults for anything left empty.
+ */
+const getCustomPersona = (settings: AppSettings, spiceLevel: SpiceLevel): Persona => {
+  const custom = settings.customPersona;
+  const fallbackMessages = custom.fallbackMessages
+    .filter(message => message.trim().length > 0 && !findBlockedWord(message, spiceLevel));
+  const defaults = localizePersona(PERSONAS.bigBrother, settings, spiceLevel);
+
+  return {
+    id: 'custom',
+    name: custom.name.trim() || translate(settings.language, 'settings.customNamePlaceholder'),
+    systemPrompt: custom.systemPrompt.trim()
+      ? withOutputFormat(custom.systemPrompt)
+      : defaults.systemPrompt,
+    style: translate(settings.language, 'ai.customPersonaStyle'),
+    fallbackMessages: fallbackMessages.length > 0 ? fallbackMessages : defaults.fallbackMessages,
+    notificationTitles: defaults.notificationTitles,
+    locale: settings.language,
+    spiceLevel
+  };
+};
+
+/**
+ * A persona as it speaks at `now`: meeting-safe hours turn every persona wholesome.
+ */
+export const getPersona = (id: PersonaId, settings: AppSettings, now: number = Date.now()): Persona => {
+  const spiceLevel = getSpiceLevel(settings, now);
+  if (id === 'custom') return getCustomPersona(settings, spiceLevel);
+  return localizePersona(PERSONAS[id] || PERSONAS.bigBrother, settings, spiceLevel);
+};
+
+/**
+ * Picks the persona for a task: a per-category choice wins over the global one.
+ */
+export const resolvePersona = (settings: AppSettings, category?: string, now: number = Date.now()): Persona => {
+  const lowerCategory = category?.toLowerCase() || '';
+  const match = lowerCategory
+    ? PERSONA_CATEGORIES.find(item => item.keywords.some(keyword => lowerCategory.includes(keyword)))
+    : undefined;
+  const categoryPersona = match ? settings.categoryPersonas[match.id] : undefined;
+
+  return getPersona(categoryPersona || settings.personaId, settings, now);
+};
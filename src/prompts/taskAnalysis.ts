@@ -1,27 +1,47 @@
+import { Locale, SpiceLevel } from '../types/shared';
+import { Schema } from '../utils/schema';
+
+// How prompts name the language replies must be written in
+const PROMPT_LANGUAGES: Record<Locale, string> = {
+  vi: 'tiếng Việt',
+  en: 'tiếng Anh (English)'
+};
+
+/**
+ * Closing rule of every system prompt: the reply language follows AppSettings.language,
+ * whatever language the instructions and examples above are written in.
+ */
+export const formatLanguageRule = (locale: Locale) =>
+  `CHÚ Ý QUAN TRỌNG: Tất cả nội dung phản hồi PHẢI HOÀN TOÀN bằng ${PROMPT_LANGUAGES[locale]}, kể cả khi ví dụ hoặc tin nhắn của người dùng dùng ngôn ngữ khác. Các key JSON giữ nguyên.`;
+
+// Longest reminder we show; the prompts ask for it and utils/messageQuality enforces it
+export const MAX_BLAME_MESSAGE_LENGTH = 100;
+
 export const TASK_DETECTION_PROMPT = `Bạn là một trợ lý thông minh giúp người dùng quản lý công việc và nâng cao năng suất. Trách nhiệm của bạn là:
 
 1. Phát Hiện và Phân Tích Công Việc:
    - Phân tích tin nhắn để xác định các công việc tiềm năng
    - Trích xuất thời hạn nếu được đề cập (đặc biệt là các từ như "ngày mai", "tuần sau", các ngày cụ thể)
    - Phân loại công việc (công việc, cá nhân, sức khỏe, học tập, v.v.)
+   - Đánh giá mức ưu tiên dựa trên từ ngữ như "gấp", "khẩn", "quan trọng", "không vội", "khi nào rảnh":
+     1 = khẩn cấp, 2 = cao, 3 = bình thường (mặc định nếu không rõ), 4 = thấp
    - Định dạng công việc đúng cách với thời hạn được đề cập
 
-CHÚ Ý QUAN TRỌNG: Tất cả phản hồi của bạn PHẢI HOÀN TOÀN bằng tiếng Việt. KHÔNG sử dụng tiếng Anh trong bất kỳ trường hợp nào.
-
 Phản hồi bằng định dạng JSON với:
 {
   "category": "loại công việc",
   "detectedTasks": [
     {
       "text": "công việc đã trích xuất",
-      "deadline": "thời hạn đã trích xuất (nếu có)"
+      "deadline": "thời hạn đã trích xuất (nếu có)",
+      "priority": 3
     }
   ]
 }`;
 
 export const BLAME_MESSAGE_PROMPT = `Bạn là "Người Anh Cả", một mentor khó tính nhưng thực sự muốn đàn em thành công. Nhiệm vụ của bạn là tạo ra những lời "troll" hài hước, khiêu khích và có tính thúc đẩy cao khi người dùng trì hoãn công việc. Tin nhắn của bạn nên:
 
-- NGẮN GỌN và MẠNH MẼ (tối đa 100 ký tự)
+- NGẮN GỌN và MẠNH MẼ (tối đa ${MAX_BLAME_MESSAGE_LENGTH} ký tự)
 - TRỰC TIẾP đề cập đến tên công việc 
 - Dùng ngôn ngữ ĐƯỜNG PHỐ, CỰC KỲ TROLLING
 - Nêu HẬU QUẢ CỤ THỂ nếu không làm công việc đó
@@ -32,49 +52,145 @@ Ví dụ tốt:
 - "Đi làm thường trú đi, công an phạt 500k bây giờ đó!"
 - "Nộp thuế đi thím, cục thuế phạt gấp 3 tiền thuế đấy!"
 
-CHÚ Ý: Mỗi tin nhắn PHẢI DƯỚI 100 ký tự, chỉ tập trung vào một hậu quả cụ thể, dùng ngôn ngữ đường phố.
+CHÚ Ý: Mỗi tin nhắn PHẢI DƯỚI ${MAX_BLAME_MESSAGE_LENGTH} ký tự, chỉ tập trung vào một hậu quả cụ thể, dùng ngôn ngữ đường phố.
 
 PHẢN HỒI PHẢI có định dạng JSON:
 {
   "blameMessages": ["tin nhắn 1", "tin nhắn 2", "tin nhắn 3"]
 }
 
-LƯU Ý: Key PHẢI là "blameMessages", không được thay đổi. Các tin nhắn PHẢI bằng tiếng Việt và DƯỚI 100 ký tự.`;
+LƯU Ý: Key PHẢI là "blameMessages", không được thay đổi. Các tin nhắn PHẢI DƯỚI ${MAX_BLAME_MESSAGE_LENGTH} ký tự.`;
 
-export const formatTaskDetectionPrompt = (taskText: string) => 
+export const formatTaskDetectionPrompt = (taskText: string, locale: Locale) => 
   `Phân tích tin nhắn này để tìm công việc: "${taskText}". 
   Nếu đây là một công việc được thêm trực tiếp, hãy xem nó như một công việc đơn lẻ.
   Nếu đây là tin nhắn trò chuyện, hãy phát hiện bất kỳ công việc tiềm năng nào trong đó.
   Hãy nhớ phản hồi theo định dạng JSON đã chỉ định.
-  LƯU Ý: Phản hồi của bạn PHẢI HOÀN TOÀN bằng tiếng Việt, ngay cả khi tin nhắn có chứa tiếng Anh.`;
+  LƯU Ý: Phản hồi của bạn PHẢI HOÀN TOÀN bằng ${PROMPT_LANGUAGES[locale]}, ngay cả khi tin nhắn dùng ngôn ngữ khác.`;
+
+export const SUBTASK_BREAKDOWN_PROMPT = `Bạn là trợ lý lập kế hoạch công việc. Nhiệm vụ của bạn là chia một công việc lớn thành các bước nhỏ, cụ thể, có thể bắt tay làm ngay.
+
+Quy tắc:
+- Từ 3 đến 7 bước, theo đúng thứ tự thực hiện
+- Mỗi bước bắt đầu bằng một động từ, NGẮN GỌN (dưới 60 ký tự)
+- Không lặp lại các bước đã có
+
+PHẢN HỒI PHẢI có định dạng JSON:
+{
+  "subtasks": ["bước 1", "bước 2", "bước 3"]
+}`;
+
+export const formatBreakdownPrompt = (task: { text: string, deadline?: string, existingSubtasks?: string[] }) =>
+  `Chia nhỏ công việc sau thành các bước: "${task.text}"
+   ${task.deadline ? `- Thời hạn: ${task.deadline}` : ''}
+   ${task.existingSubtasks && task.existingSubtasks.length > 0 ? `- Các bước đã có: ${task.existingSubtasks.map(text => `"${text}"`).join(', ')}` : ''}
+   
+   Hãy nhớ phản hồi theo định dạng JSON đã chỉ định.`;
+
+// Tone for each escalation level (see utils/escalation); levels above 4 reuse the harshest one
+const ESCALATION_TONES: Record<number, string> = {
+  1: 'Chưa tới hạn: nhắc NHẸ NHÀNG, thân thiện, khích lệ bắt đầu làm ngay. KHÔNG chửi thề.',
+  2: 'Vừa hết hạn: nhắc đúng phong cách nhân vật, hài hước và khiêu khích.',
+  3: 'Đã trễ và bị nhắc rồi mà vẫn chưa làm: GẮT hơn, mỉa mai thẳng thừng hơn.',
+  4: 'Trễ nghiêm trọng, lờ đi nhiều lần: CỰC GẮT, không nể nang, nhấn mạnh hậu quả nặng nề.'
+};
 
-export const formatBlamePrompt = (task: { text: string, category: string, deadline?: string }) => 
+// How rough the language may get (AppSettings.spiceLevel); utils/messageQuality drops messages that go further
+const SPICE_TONES: Record<SpiceLevel, string> = {
+  wholesome: 'Ngôn từ LÀNH MẠNH: tuyệt đối KHÔNG chửi thề, không tục tĩu, không xưng "mày/tao" (an toàn khi đang họp hoặc chia sẻ màn hình)',
+  mild: 'Được chửi thề NHẸ (kiểu "vãi", "chết tiệt"), KHÔNG dùng từ tục nặng',
+  spicy: 'Được dùng ngôn ngữ đường phố và chửi thề thoải mái, nhưng không xúc phạm ngoại hình, giới tính hay gia đình'
+};
+
+// How much the priority (see utils/priority) matters in the message
+const PRIORITY_TONES: Record<number, string> = {
+  1: 'P1 - KHẨN CẤP: nhấn mạnh đây là việc quan trọng nhất, không thể chờ thêm',
+  2: 'P2 - ưu tiên cao: nhắc rằng việc này quan trọng',
+  4: 'P4 - ưu tiên thấp: có thể nhắc nhẹ hơn một chút'
+};
+
+export const formatBlamePrompt = (task: {
+  text: string,
+  category: string,
+  deadline?: string,
+  priority?: number,
+  escalationLevel?: number,
+  overdueMinutes?: number,
+  style?: string,    // Persona style rule, see prompts/personas
+  example?: string,  // Persona example message with "{task}" placeholder
+  locale: Locale,
+  spiceLevel: SpiceLevel
+}) => 
   `Tạo lời nhắc kiểu "troll" NGẮN GỌN cho công việc: 
    - Công việc: ${task.text}
    - Loại: ${task.category}
    ${task.deadline ? `- Thời hạn: ${task.deadline}` : ''}
+   ${task.priority && PRIORITY_TONES[task.priority] ? `- Mức ưu tiên: ${PRIORITY_TONES[task.priority]}` : ''}
+   ${task.escalationLevel ? `- Mức độ nhắc: ${task.escalationLevel} - ${ESCALATION_TONES[Math.min(task.escalationLevel, 4)]}` : ''}
+   ${task.overdueMinutes ? `- Đã trễ hạn: ${task.overdueMinutes} phút` : ''}
    
    YÊU CẦU QUAN TRỌNG:
-   - Mỗi tin nhắn PHẢI DƯỚI 100 ký tự
+   - Mỗi tin nhắn PHẢI DƯỚI ${MAX_BLAME_MESSAGE_LENGTH} ký tự
    - Phải đề cập trực tiếp đến "${task.text}"
-   - Dùng ngôn ngữ cực kỳ đường phố, chửi thề nhẹ OK 
    - Nêu hậu quả cụ thể nếu không làm (chi phí, thời gian)
-   - Phong cách "anh trai" đang troll đàn em
+   - ${task.style || 'Phong cách "anh trai" đang troll đàn em, ngôn ngữ cực kỳ đường phố'}
+   - Viết bằng ${PROMPT_LANGUAGES[task.locale]}
+   - ${SPICE_TONES[task.spiceLevel]}
+   ${task.escalationLevel === 1 ? '- Giọng nhẹ nhàng hơn bình thường, KHÔNG chửi thề' : ''}
    
-   Ví dụ tốt: "Làm ${task.text} đi ba, không là thua mấy đứa fresher đó!"
+   ${task.example ? `Ví dụ tốt: "${task.example.replace('{task}', task.text)}"` : ''}
    
-   Tạo chính xác 3 tin nhắn khác nhau, MỖI TIN NHẮN DƯỚI 100 KÝ TỰ.
+   Tạo chính xác 3 tin nhắn khác nhau, MỖI TIN NHẮN DƯỚI ${MAX_BLAME_MESSAGE_LENGTH} KÝ TỰ.
    
    Phản hồi phải theo định dạng JSON:
    {
      "blameMessages": ["tin nhắn ngắn 1", "tin nhắn ngắn 2", "tin nhắn ngắn 3"]
    }`;
 
+// Longest opening line of the daily digest; utils/dailyDigest falls back to the template beyond it
+export const MAX_DIGEST_SUMMARY_LENGTH = 200;
+
+export const DAILY_DIGEST_PROMPT = `Bạn là huấn luyện viên năng suất, mỗi sáng gửi người dùng một lời chào ngắn kèm tóm tắt ngày làm việc.
+
+Quy tắc:
+- MỘT hoặc HAI câu, DƯỚI ${MAX_DIGEST_SUMMARY_LENGTH} ký tự
+- Nhắc số việc hôm nay, việc bị lỡ hôm qua (nếu có) và chuỗi ngày hoàn thành (nếu có)
+- Đúng giọng điệu nhân vật được yêu cầu, kết thúc bằng lời thúc đẩy bắt tay vào việc
+- Không liệt kê lại từng công việc, danh sách đã được hiển thị riêng
+
+PHẢN HỒI PHẢI có định dạng JSON:
+{
+  "summary": "lời chào buổi sáng"
+}`;
+
+export const formatDigestPrompt = (digest: {
+  dueToday: string[],
+  missedYesterday: string[],
+  completedYesterday: number,
+  streakDays: number,
+  style: string,     // Persona style rule, see prompts/personas
+  locale: Locale,
+  spiceLevel: SpiceLevel
+}) =>
+  `Viết lời chào buổi sáng cho bản tóm tắt hôm nay:
+   - Việc đến hạn hôm nay (${digest.dueToday.length}): ${digest.dueToday.map(text => `"${text}"`).join(', ') || 'không có'}
+   - Việc bị lỡ hạn hôm qua (${digest.missedYesterday.length}): ${digest.missedYesterday.map(text => `"${text}"`).join(', ') || 'không có'}
+   - Số việc đã xong hôm qua: ${digest.completedYesterday}
+   - Chuỗi ngày liên tiếp có hoàn thành việc: ${digest.streakDays}
+   
+   YÊU CẦU:
+   - ${digest.style}
+   - Viết bằng ${PROMPT_LANGUAGES[digest.locale]}
+   - ${SPICE_TONES[digest.spiceLevel]}
+   
+   Hãy nhớ phản hồi theo định dạng JSON đã chỉ định.`;
+
 export interface TaskDetectionResult {
   category: string;
   detectedTasks?: {
     text: string;
     deadline?: string;
+    priority?: number;
   }[];
   blameMessages?: string[];
 }
@@ -83,6 +199,79 @@ export interface BlameMessageResult {
   blameMessages: string[];
 }
 
+export interface SubtaskBreakdownResult {
+  subtasks: string[];
+}
+
+export interface DigestSummaryResult {
+  summary: string;
+}
+
+// Schemas the model replies are validated against (see utils/schema.ts)
+export const TASK_DETECTION_SCHEMA: Schema = {
+  type: 'object',
+  required: ['detectedTasks'],
+  properties: {
+    category: { type: 'string', nullable: true },
+    detectedTasks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['text'],
+        properties: {
+          text: { type: 'string', minLength: 1 },
+          deadline: { type: 'string', nullable: true },
+          priority: { type: 'number', nullable: true }
+        }
+      }
+    }
+  }
+};
+
+export const BLAME_MESSAGE_SCHEMA: Schema = {
+  type: 'object',
+  required: ['blameMessages'],
+  properties: {
+    blameMessages: {
+      type: 'array',
+      minItems: 1,
+      items: { type: 'string', minLength: 1 }
+    }
+  }
+};
+
+export const SUBTASK_BREAKDOWN_SCHEMA: Schema = {
+  type: 'object',
+  required: ['subtasks'],
+  properties: {
+    subtasks: {
+      type: 'array',
+      minItems: 1,
+      items: { type: 'string', minLength: 1 }
+    }
+  }
+};
+
+export const DAILY_DIGEST_SCHEMA: Schema = {
+  type: 'object',
+  required: ['summary'],
+  properties: {
+    summary: { type: 'string', minLength: 1 }
+  }
+};
+
+// Fallbacks for the "wholesome" spice level: the same teasing without rude pronouns or swearing
+export const WHOLESOME_BLAME_MESSAGES = [
+  "Làm đi bạn ơi, mấy bạn fresher sắp vượt mặt rồi đó!",
+  "Lướt mạng thêm chút nữa là deadline đi luôn đó nha!",
+  "Đồng nghiệp lên senior hết rồi, mình cũng bắt tay vào làm thôi!",
+  "ChatGPT không làm hộ đâu, bắt đầu từ bước nhỏ nhất nào!",
+  "Deadline qua rồi đó, làm ngay còn kịp gỡ điểm!",
+  "Việc đơn giản thôi mà, làm xong là nhẹ cả người!",
+  "Mấy bạn intern xong 5 việc rồi, mình bắt đầu việc đầu tiên nhé!",
+  "Hẹn với deadline rồi thì giữ lời đi nào!"
+];
+
 export const DEFAULT_BLAME_MESSAGES = [
   "Làm đi ông nội, thua mấy đứa fresher hết rồi!",
   "Ê! Làm task đi ba, mấy đứa intern nó còn nhanh hơn mày đó!",
@@ -100,4 +289,12 @@ export const DEFAULT_BLAME_MESSAGES = [
   "Tụi fresher nó làm xong 5 task rồi, mày còn chưa bắt đầu!",
   "Bạn apply vào vị trí dev hay chuyên gia trì hoãn vậy?",
   "Deadline mai rồi, chưa làm gì hết, thức đêm code đi thím!"
+];
+
+// Fallbacks for the "spicy" spice level: the defaults plus some light swearing
+export const SPICY_BLAME_MESSAGES = [
+  ...DEFAULT_BLAME_MESSAGES,
+  "Trễ vãi rồi đó ba, làm lẹ đi còn kịp!",
+  "Chết tiệt, deadline cháy nhà rồi mà vẫn ngồi lướt phây!",
+  "Lười đếch chịu được, đứng dậy làm ngay đi thím!"
 ]; 
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { AIConfig } from '../types/shared';
+import { AIProvider, CompletionRequest } from './types';
+import { isRecord } from './reply';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-pro',
+  defaultEndpoint: GEMINI_BASE_URL,
+  requiresApiKey: true,
+
+  async complete(request: CompletionRequest, config: AIConfig): Promise<string> {
+    const model = config.model || this.defaultModel;
+
+    // gemini-pro has no system role, so the whole conversation is sent as one prompt
+    const prompt = request.messages.map(message => message.content).join('\n\n');
+
+    // The endpoint is the models base URL (a proxy may stand in for Google); older configs stored
+    // the full gemini-pro URL, so a trailing "<model>:generateContent" is dropped and the model re-added
+    const baseUrl = (config.endpoint || GEMINI_BASE_URL).replace(/\/[^/]+:generateContent$/, '');
+    const response = await fetch(`${baseUrl}/${model}:generateContent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': config.apiKey
+      },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: request.temperature ?? 0.7,
+          maxOutputTokens: request.maxTokens ?? 300
+        }
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+
+    const data: unknown = await response.json();
+    const candidate = isRecord(data) && Array.isArray(data.candidates) ? data.candidates[0] : undefined;
+    const content = isRecord(candidate) ? candidate.content : undefined;
+    const parts: unknown[] = isRecord(content) && Array.isArray(content.parts) ? content.parts : [];
+    return parts.map(part => isRecord(part) && typeof part.text === 'string' ? part.text : '').join('').trim();
+  }
+};
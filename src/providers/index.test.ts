@@ -0,0 +1,61 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { requestStructured } from '.';
+import { StructuredOutputError } from '../utils/schema';
+import { TASK_DETECTION_SCHEMA, TaskDetectionResult } from '../prompts/taskAnalysis';
+import { AIConfig } from '../types/shared';
+
+// The local provider needs no API key and speaks the OpenAI chat format
+const CONFIG: AIConfig = { enabled: true, apiKey: '', provider: 'local' };
+
+const REQUEST = { messages: [{ role: 'user' as const, content: 'mai nộp báo cáo' }] };
+
+const originalFetch = globalThis.fetch;
+
+// Answers each fetch with the next reply text and records the messages that were sent
+const stubReplies = (replies: string[]) => {
+  const sent: { role: string; content: string }[][] = [];
+  globalThis.fetch = (async (_url: string, init: RequestInit) => {
+    sent.push(JSON.parse(String(init.body)).messages);
+    const content = replies.shift();
+    return {
+      ok: true,
+      json: async () => ({ choices: [{ message: { content } }] })
+    };
+  }) as unknown as typeof fetch;
+  return sent;
+};
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('requestStructured', () => {
+  it('returns a valid first reply without a repair round', async () => {
+    const sent = stubReplies(['{"detectedTasks": [{"text": "nộp báo cáo", "deadline": "mai"}]}']);
+    const result = await requestStructured<TaskDetectionResult>(CONFIG, REQUEST, TASK_DETECTION_SCHEMA, 'vi');
+    assert.deepEqual(result, { detectedTasks: [{ text: 'nộp báo cáo', deadline: 'mai' }] });
+    assert.equal(sent.length, 1);
+  });
+
+  it('asks once for a repair listing the wrong fields and returns the repaired reply', async () => {
+    const sent = stubReplies([
+      '{"detectedTasks": [{"deadline": "mai"}]}',
+      '{"detectedTasks": [{"text": "nộp báo cáo", "deadline": "mai"}]}'
+    ]);
+    const result = await requestStructured<TaskDetectionResult>(CONFIG, REQUEST, TASK_DETECTION_SCHEMA, 'en');
+    assert.equal(result.detectedTasks?.[0].text, 'nộp báo cáo');
+    assert.equal(sent.length, 2);
+    const repairPrompt = sent[1][sent[1].length - 1];
+    assert.equal(repairPrompt.role, 'user');
+    assert.match(repairPrompt.content, /detectedTasks\[0\]\.text: is required/);
+  });
+
+  it('rejects with the issues when the repaired reply is still malformed', async () => {
+    stubReplies(['not json', '{"detectedTasks": "none"}']);
+    await assert.rejects(
+      requestStructured(CONFIG, REQUEST, TASK_DETECTION_SCHEMA, 'vi'),
+      (error: unknown) => error instanceof StructuredOutputError && error.rawText === '{"detectedTasks": "none"}'
+    );
+  });
+});
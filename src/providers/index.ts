@@ -0,0 +1,109 @@
+import { AIConfig, Locale } from '../types/shared';
+import { translate } from '../localization';
+import { Schema, StructuredOutputError, parseStructured, formatIssues } from '../utils/schema';
+import { AIProvider, CompletionRequest } from './types';
+import { openAIProvider } from './openai';
+import { openRouterProvider } from './openrouter';
+import { geminiProvider } from './gemini';
+import { localProvider } from './local';
+
+export * from './types';
+
+const DEFAULT_TIMEOUT_MS = 20000;
+
+// Registered providers, in the order they are offered in the settings UI
+export const PROVIDERS: AIProvider[] = [
+  openAIProvider,
+  geminiProvider,
+  openRouterProvider,
+  localProvider
+];
+
+export const getProvider = (id: string | null | undefined): AIProvider | undefined => {
+  return PROVIDERS.find(provider => provider.id === id);
+};
+
+/**
+ * True when AI is enabled and the selected provider has everything it needs to make a call.
+ */
+export const isAIConfigured = (config: AIConfig): boolean => {
+  const provider = getProvider(config.provider);
+  if (!config.enabled || !provider) {
+    return false;
+  }
+  return !provider.requiresApiKey || !!config.apiKey;
+};
+
+/**
+ * Sends a chat completion to the configured provider and returns the raw reply text.
+ * Rejects if the provider is unknown, the request fails or it exceeds the timeout.
+ */
+export const requestCompletion = async (config: AIConfig, request: CompletionRequest): Promise<string> => {
+  const provider = getProvider(config.provider);
+  if (!provider) {
+    throw new Error(`Unknown AI provider: ${config.provider}`);
+  }
+
+  console.log(`Sending request to ${provider.label}`);
+
+  // The timeout aborts the underlying fetch too, so a slow vendor doesn't keep the connection open
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error('AI request timed out'));
+    }, request.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  });
+
+  try {
+    const text = await Promise.race([
+      provider.complete({ ...request, signal: controller.signal }, config),
+      timeoutPromise
+    ]);
+    console.log(`Raw ${provider.label} response:`, text);
+    return text;
+  } finally {
+    // Every call, the repair retry included, gets its own timer; don't leave it pending
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Requests JSON output and validates it against `schema`. If the first reply does not
+ * match, the model gets exactly one repair prompt (in `locale`) listing the wrong fields;
+ * a second invalid reply rejects with a StructuredOutputError.
+ */
+export const requestStructured = async <T>(
+  config: AIConfig,
+  request: CompletionRequest,
+  schema: Schema,
+  locale: Locale
+): Promise<T> => {
+  const jsonRequest = { ...request, json: request.json ?? true };
+  const text = await requestCompletion(config, jsonRequest);
+  const first = parseStructured<T>(text, schema);
+  if (first.ok) {
+    return first.value;
+  }
+
+  console.warn('Structured output invalid, asking model to repair:', formatIssues(first.issues));
+
+  const repairText = await requestCompletion(config, {
+    ...jsonRequest,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: text },
+      {
+        role: 'user',
+        content: translate(locale, 'ai.repairPrompt', { issues: formatIssues(first.issues) })
+      }
+    ]
+  });
+  const repaired = parseStructured<T>(repairText, schema);
+  if (repaired.ok) {
+    return repaired.value;
+  }
+
+  throw new StructuredOutputError(repaired.issues, repairText);
+};
@@ -0,0 +1,11 @@
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+// Any OpenAI-compatible server on this machine: Ollama, LM Studio, llama.cpp server.
+// Nothing leaves the computer and no API key is needed.
+export const localProvider = createOpenAICompatibleProvider({
+  id: 'local',
+  label: 'Local (Ollama / LM Studio / llama.cpp)',
+  defaultModel: 'llama3.2',
+  defaultEndpoint: 'http://localhost:11434/v1/chat/completions',
+  requiresApiKey: false
+});
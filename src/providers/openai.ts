@@ -0,0 +1,8 @@
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+export const openAIProvider = createOpenAICompatibleProvider({
+  id: 'openai',
+  label: 'OpenAI',
+  defaultModel: 'gpt-3.5-turbo',
+  defaultEndpoint: 'https://api.openai.com/v1/chat/completions'
+});
@@ -0,0 +1,81 @@
+import { AIConfig } from '../types/shared';
+import { AIProvider, CompletionRequest } from './types';
+import { isRecord } from './reply';
+
+interface OpenAICompatibleOptions {
+  id: string;
+  label: string;
+  defaultModel: string;
+  defaultEndpoint: string;
+  requiresApiKey?: boolean;
+  extraHeaders?: Record<string, string>;
+}
+
+// Some OpenAI-compatible gateways (OpenRouter) return content as an array of parts
+const extractContent = (data: unknown): string => {
+  const choice = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+  const message = isRecord(choice) ? choice.message : undefined;
+  const content = isRecord(message) ? message.content : undefined;
+
+  if (typeof content === 'string') {
+    return content.trim();
+  }
+
+  if (Array.isArray(content)) {
+    return content
+      .map(part => isRecord(part) && part.type === 'text' && typeof part.text === 'string' ? part.text : '')
+      .join('')
+      .trim();
+  }
+
+  return '';
+};
+
+/**
+ * Creates an adapter for any endpoint that speaks the OpenAI chat completions API.
+ * The request goes to `AIConfig.endpoint` when set, otherwise to the vendor default.
+ */
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): AIProvider => ({
+  id: options.id,
+  label: options.label,
+  defaultModel: options.defaultModel,
+  defaultEndpoint: options.defaultEndpoint,
+  requiresApiKey: options.requiresApiKey ?? true,
+
+  async complete(request: CompletionRequest, config: AIConfig): Promise<string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...options.extraHeaders
+    };
+
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const body: Record<string, unknown> = {
+      model: config.model || options.defaultModel,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 300
+    };
+
+    if (request.json) {
+      body.response_format = { type: 'json_object' };
+    }
+
+    // A user-supplied endpoint (e.g. a proxy or local server) takes precedence
+    const response = await fetch(config.endpoint || options.defaultEndpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+
+    const data: unknown = await response.json();
+    return extractContent(data);
+  }
+});
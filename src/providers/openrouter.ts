@@ -0,0 +1,12 @@
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+export const openRouterProvider = createOpenAICompatibleProvider({
+  id: 'openrouter',
+  label: 'OpenRouter',
+  defaultModel: 'google/gemini-flash-1.5-8b',
+  defaultEndpoint: 'https://openrouter.ai/api/v1/chat/completions',
+  extraHeaders: {
+    'HTTP-Referer': 'https://github.com/khoatran3005/tasktroll', // Required by OpenRouter
+    'X-Title': 'TaskTroll Chrome Extension'  // Helps identify the app in OpenRouter logs
+  }
+});
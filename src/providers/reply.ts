@@ -0,0 +1,6 @@
+/**
+ * Vendor replies arrive as untyped JSON; adapters narrow them with this guard
+ * instead of trusting the shape.
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
@@ -0,0 +1,28 @@
+import { AIConfig } from '../types/shared';
+
+export interface CompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: CompletionMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;        // Ask the model for a JSON object where the vendor supports it
+  timeoutMs?: number;
+  signal?: AbortSignal;  // Aborted by requestCompletion when the timeout fires
+}
+
+/**
+ * A vendor adapter. Every provider takes the same chat-style request and returns
+ * the raw text of the model's reply; parsing is done once, outside the adapters.
+ */
+export interface AIProvider {
+  id: string;
+  label: string;
+  defaultModel: string;
+  defaultEndpoint: string;
+  requiresApiKey: boolean;  // Local servers accept requests without a key
+  complete(request: CompletionRequest, config: AIConfig): Promise<string>;
+}
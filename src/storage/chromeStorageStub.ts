@@ -0,0 +1,26 @@
+/**
+ * An in-memory chrome.storage.local for the node tests, installed as the `chrome` global.
+ * Values are copied through JSON on the way in and out, as the real storage does.
+ * Returns the backing map so a test can look at what was written.
+ */
+export const installChromeStorage = (initial: Record<string, unknown> = {}): Map<string, unknown> => {
+  const data = new Map<string, unknown>();
+  const copy = (value: unknown) => JSON.parse(JSON.stringify(value));
+  const store = (values: Record<string, unknown>) => {
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined) data.set(key, copy(value));
+    }
+  };
+
+  const local = {
+    get: async (keys: string[]) => Object.fromEntries(keys.filter(key => data.has(key)).map(key => [key, copy(data.get(key))])),
+    set: async (values: Record<string, unknown>) => store(values),
+    remove: async (keys: string[]) => {
+      keys.forEach(key => data.delete(key));
+    }
+  };
+
+  (globalThis as unknown as { chrome: unknown }).chrome = { storage: { local } };
+  store(initial);
+  return data;
+};
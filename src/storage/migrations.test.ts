@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installChromeStorage } from './chromeStorageStub';
+import { SCHEMA_VERSION, migrateLegacyTodos, runMigrations } from './migrations';
+import { DEFAULT_SETTINGS } from '../utils/settings';
+import { ESCALATION_EXPIRED } from '../utils/escalation';
+import { Todo } from '../types/shared';
+
+const NOW = new Date(2026, 9, 30, 10, 0).getTime();
+
+const todo = (id: string, extra: Partial<Todo> = {}): Todo => ({ id, text: `task ${id}`, completed: false, created: NOW, ...extra });
+
+// Runs every migration after `fromVersion` on the given data and returns what was stored
+const migrateFrom = async (fromVersion: number, values: Record<string, unknown>) => {
+  const store = installChromeStorage({ schemaVersion: fromVersion, ...values });
+  assert.equal(await runMigrations(NOW), SCHEMA_VERSION);
+  return store;
+};
+
+describe('runMigrations', () => {
+  it('v1 normalizes todos saved by older popups', async () => {
+    const store = installChromeStorage({
+      todos: [
+        { id: 1761800000000, text: 'numeric id', remainingTime: 30, customBlameMessages: [] },
+        { id: 'b', text: 'done', completed: 1, created: 5 },
+        { text: 'no id' },
+        null
+      ]
+    });
+    await runMigrations(NOW);
+    const [first, second, ...rest] = store.get('todos') as Todo[];
+    assert.equal(rest.length, 0);
+    assert.equal(first.id, '1761800000000');
+    assert.equal(first.created, 1761800000000);
+    assert.equal(first.completed, false);
+    assert.equal('remainingTime' in first, false);
+    assert.equal(second.completed, true);
+    assert.equal(second.created, 5);
+  });
+
+  it('v2 fills AI config defaults and moves the old OpenAI default to OpenRouter', async () => {
+    const store = await migrateFrom(1, { aiConfig: { enabled: false, apiKey: 'key', provider: 'openai' } });
+    assert.deepEqual(store.get('aiConfig'), { enabled: false, apiKey: 'key', provider: 'openrouter' });
+  });
+
+  it('v3 completes partial settings', async () => {
+    const store = await migrateFrom(2, { settings: { defaultTimeboxMinutes: 25 } });
+    assert.deepEqual(store.get('settings'), { ...DEFAULT_SETTINGS, defaultTimeboxMinutes: 25 });
+  });
+
+  it('v4 backfills the escalation level and version', async () => {
+    const store = await migrateFrom(3, { todos: [todo('a', { timeExpired: true }), todo('b', { version: 4 })] });
+    const [expired, versioned] = store.get('todos') as Todo[];
+    assert.equal(expired.escalationLevel, ESCALATION_EXPIRED);
+    assert.equal(expired.version, 0);
+    assert.equal(versioned.escalationLevel, undefined);
+    assert.equal(versioned.version, 4);
+  });
+
+  it('v5 gives every task a unique short id', async () => {
+    const store = await migrateFrom(4, { todos: [todo('a'), todo('b', { shortId: 'abc' }), todo('c', { shortId: 'abc' })] });
+    const shortIds = (store.get('todos') as Todo[]).map(item => item.shortId);
+    assert.equal(shortIds[1], 'abc');
+    assert.equal(new Set(shortIds).size, 3);
+    assert.ok(shortIds.every(Boolean));
+  });
+
+  it('leaves current data alone', async () => {
+    const todos = [todo('a', { version: 2 })];
+    const store = installChromeStorage({ schemaVersion: SCHEMA_VERSION, todos });
+    assert.equal(await runMigrations(NOW), SCHEMA_VERSION);
+    assert.deepEqual(store.get('todos'), todos);
+  });
+
+  it('flags a first run without todos so the popup can import its localStorage copy', async () => {
+    const store = installChromeStorage();
+    await runMigrations(NOW);
+    assert.equal(store.get('legacyTodosPending'), true);
+    assert.equal(store.get('schemaVersion'), SCHEMA_VERSION);
+  });
+});
+
+describe('migrateLegacyTodos', () => {
+  it('brings a localStorage copy to the current schema and ignores anything else', () => {
+    const [migrated] = migrateLegacyTodos([{ id: 7, text: 'legacy' }], NOW);
+    assert.equal(migrated.id, '7');
+    assert.equal(migrated.version, 0);
+    assert.ok(migrated.shortId);
+    assert.deepEqual(migrateLegacyTodos({ todos: [] }, NOW), []);
+  });
+});
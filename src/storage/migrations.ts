@@ -0,0 +1,163 @@
+import { Todo, AIConfig } from '../types/shared';
+import { StorageSchema, readStorage, writeStorage } from './storage';
+import { DEFAULT_SETTINGS } from '../utils/settings';
+import { ESCALATION_EXPIRED } from '../utils/escalation';
+import { assignShortIds } from '../utils/taskRefs';
+
+type MigrationData = Partial<Pick<StorageSchema, 'todos' | 'aiConfig' | 'settings'>>;
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: MigrationData, now: number) => MigrationData;
+}
+
+// A todo as older popups saved it: only an id and the text can be relied on
+type LegacyTodo = Record<string, unknown> & { id: string | number; text: string };
+
+const isLegacyTodo = (value: unknown): value is LegacyTodo => {
+  if (!value || typeof value !== 'object') return false;
+  const { id, text } = value as Record<string, unknown>;
+  return (typeof id === 'string' || typeof id === 'number') && typeof text === 'string';
+};
+
+// AI config written for users who never opened the settings
+export const DEFAULT_AI_CONFIG: AIConfig = {
+  enabled: true,
+  apiKey: '',
+  provider: 'openrouter'
+};
+
+/**
+ * Ordered upgrades of chrome.storage.local. Never edit a released migration;
+ * add a new one with the next version number instead.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Normalize todos saved by older popups',
+    migrate: (data, now) => {
+      const todos: unknown[] = Array.isArray(data.todos) ? data.todos : [];
+      return {
+        ...data,
+        todos: todos
+          .filter(isLegacyTodo)
+          .map(todo => {
+            // The popup used to persist its countdown and an unused message list
+            const { remainingTime, customBlameMessages, ...rest } = todo;
+            const numericId = Number(todo.id);
+            return {
+              ...rest,
+              id: String(todo.id),
+              completed: !!todo.completed,
+              // Ids were Date.now() timestamps, the best guess for a missing creation time
+              created: typeof todo.created === 'number' ? todo.created : (isNaN(numericId) ? now : numericId)
+            } as Todo;
+          })
+      };
+    }
+  },
+  {
+    version: 2,
+    description: 'Fill AI config defaults',
+    migrate: (data) => {
+      const aiConfig: AIConfig = { ...DEFAULT_AI_CONFIG, ...(data.aiConfig || {}) };
+      // Older versions defaulted to OpenAI or left the provider empty
+      if (!aiConfig.provider || aiConfig.provider === 'openai') {
+        aiConfig.provider = 'openrouter';
+      }
+      return { ...data, aiConfig };
+    }
+  },
+  {
+    version: 3,
+    description: 'Store complete settings',
+    migrate: (data) => ({
+      ...data,
+      settings: { ...DEFAULT_SETTINGS, ...(data.settings || {}) }
+    })
+  },
+  {
+    version: 4,
+    description: 'Backfill escalation level and version for existing tasks',
+    migrate: (data) => ({
+      ...data,
+      todos: (data.todos || []).map(todo => ({
+        ...todo,
+        escalationLevel: todo.escalationLevel ?? (todo.timeExpired ? ESCALATION_EXPIRED : undefined),
+        version: todo.version ?? 0
+      }))
+    })
+  },
+  {
+    version: 5,
+    description: 'Give every task a short "#abc" reference',
+    migrate: (data) => ({
+      ...data,
+      todos: assignShortIds(data.todos || [])
+    })
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Brings todos from outside chrome.storage (the popup's old localStorage copy) to the current
+ * schema, through the same migrations stored todos went through. Anything that is not a list is dropped.
+ */
+export const migrateLegacyTodos = (todos: unknown, now: number = Date.now()): Todo[] => {
+  const data = MIGRATIONS.reduce<MigrationData>(
+    (current, migration) => migration.migrate(current, now),
+    { todos: Array.isArray(todos) ? todos : [] }
+  );
+  return data.todos || [];
+};
+
+/**
+ * Applies every migration newer than the stored schemaVersion and saves the result in one write.
+ * Returns the schema version the data is at afterwards.
+ */
+export const runMigrations = async (now: number = Date.now()): Promise<number> => {
+  const stored = await readStorage(['schemaVersion', 'todos', 'aiConfig', 'settings']);
+  const fromVersion = stored.schemaVersion ?? 0;
+  const pending = MIGRATIONS.filter(migration => migration.version > fromVersion);
+
+  if (pending.length === 0) {
+    return fromVersion;
+  }
+
+  let data: MigrationData = {
+    todos: stored.todos,
+    aiConfig: stored.aiConfig,
+    settings: stored.settings
+  };
+  for (const migration of pending) {
+    console.log(`Running storage migration ${migration.version}: ${migration.description}`);
+    data = migration.migrate(data, now);
+  }
+
+  // Nothing in chrome.storage yet: the popup may still hold todos in localStorage,
+  // which only it can read (see taskClient.importLegacyTodos)
+  const legacyTodosPending = fromVersion === 0 && stored.todos === undefined;
+  await writeStorage({ ...data, schemaVersion: SCHEMA_VERSION, ...(legacyTodosPending ? { legacyTodosPending } : {}) });
+  console.log(`Storage migrated from version ${fromVersion} to ${SCHEMA_VERSION}`);
+  return SCHEMA_VERSION;
+};
+
+let migrationRun: Promise<void> | null = null;
+
+/**
+ * Runs the migrations once per service worker lifetime; safe to await from anywhere.
+ * A failed run is logged and retried on the next call instead of blocking storage access.
+ */
+export const ensureMigrated = (): Promise<void> => {
+  if (!migrationRun) {
+    migrationRun = runMigrations()
+      .then(() => undefined)
+      .catch(error => {
+        console.error('Storage migration failed:', error);
+        migrationRun = null;
+      });
+  }
+  return migrationRun;
+};
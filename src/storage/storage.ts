@@ -0,0 +1,52 @@
+import {
+  Todo,
+  AIConfig,
+  AppSettings,
+  PendingBlameMessage,
+  NotificationPreview,
+  DailyDigest,
+  TaskHistory,
+  TrashedTask
+} from '../types/shared';
+import type { BlameCache } from '../utils/blameCache';
+
+/**
+ * Everything kept in chrome.storage.local, by key. Changing the shape of a value
+ * needs a migration in storage/migrations.ts and a bump of SCHEMA_VERSION.
+ */
+export interface StorageSchema {
+  schemaVersion: number;
+  todos: Todo[];
+  aiConfig: AIConfig;
+  settings: AppSettings;
+  pendingBlameMessages: PendingBlameMessage[];
+  showNotification: NotificationPreview | null;
+  focusTaskId: string;
+  blameCache: BlameCache;
+  taskHistory: TaskHistory;
+  trash: TrashedTask[];
+  pausedUntil: number;                  // Notifications are paused until this time (ms)
+  quietQueue: PendingBlameMessage[];    // Reminders held back during quiet hours, sent as a digest
+  lastDigestDate: string;               // Local day the daily digest was last sent for, "2026-10-19"
+  pendingDigest: DailyDigest | null;    // Shown in the chat the next time the popup opens
+  legacyTodosPending: boolean;          // Set by the first migration when there were no todos to migrate
+}
+
+export type StorageKey = keyof StorageSchema;
+
+export type StoredValues<K extends StorageKey> = Partial<Pick<StorageSchema, K>>;
+
+/**
+ * Reads the given keys. Missing keys are absent from the result, so callers still supply defaults.
+ */
+export const readStorage = async <K extends StorageKey>(keys: K[]): Promise<StoredValues<K>> => {
+  return await chrome.storage.local.get(keys) as StoredValues<K>;
+};
+
+export const writeStorage = async (values: Partial<StorageSchema>): Promise<void> => {
+  await chrome.storage.local.set(values);
+};
+
+export const removeStorage = async (keys: StorageKey[]): Promise<void> => {
+  await chrome.storage.local.remove(keys);
+};
@@ -0,0 +1,115 @@
+import { Todo, TrashedTask } from '../types/shared';
+import { TaskRequest, TaskResponse, TaskRepositoryError, TaskOperationSummary } from './taskMessages';
+import { readStorage, removeStorage } from './storage';
+import { TaskEdit } from '../utils/taskEdit';
+import { migrateLegacyTodos } from './migrations';
+
+/**
+ * Popup side of the task repository: every write is a message to the service worker,
+ * which owns the list. Each write resolves with the updated list and the undo step it recorded.
+ */
+
+export interface TaskResult {
+  todos: Todo[];
+  operation?: TaskOperationSummary;
+}
+
+const send = (request: TaskRequest): Promise<TaskResult> => {
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage(request, (response: TaskResponse | undefined) => {
+      if (chrome.runtime.lastError || !response) {
+        const reason = chrome.runtime.lastError?.message || 'No response from background';
+        reject(new TaskRepositoryError('unavailable', reason));
+        return;
+      }
+      if (!response.ok) {
+        reject(new TaskRepositoryError(response.error, response.message, response.todo));
+        return;
+      }
+      resolve({ todos: response.todos, operation: response.operation });
+    });
+  });
+};
+
+export const listTasks = () => send({ action: 'listTasks' }).then(result => result.todos);
+
+export const createTask = (todo: Todo) => send({ action: 'createTask', todo });
+
+export const updateTask = (id: string, patch: Partial<Todo>, expectedVersion?: number) =>
+  send({ action: 'updateTask', id, patch, expectedVersion });
+
+// Unlike updateTask, a new deadline or timebox also restarts the task's reminders
+export const editTask = (id: string, edit: TaskEdit, expectedVersion?: number) =>
+  send({ action: 'editTask', id, edit, expectedVersion });
+
+export const setTaskCompleted = (id: string, completed: boolean) =>
+  send({ action: 'setTaskCompleted', id, completed });
+
+export const snoozeTask = (id: string, minutes: number) => send({ action: 'snoozeTask', id, minutes });
+
+export const addSubtasks = (id: string, texts: string[]) => send({ action: 'addSubtasks', id, texts });
+
+export const setSubtaskCompleted = (id: string, subtaskId: string, completed: boolean) =>
+  send({ action: 'setSubtaskCompleted', id, subtaskId, completed });
+
+export const deleteTask = (id: string) => send({ action: 'deleteTask', id });
+
+export const clearTasks = () => send({ action: 'clearTasks' });
+
+export const mergeTasks = (todos: Todo[]) => send({ action: 'mergeTasks', todos });
+
+export const restoreFromTrash = (ids: string[]) => send({ action: 'restoreFromTrash', ids });
+
+export const emptyTrash = () => send({ action: 'emptyTrash' });
+
+// Without `operationId` the latest change is undone
+export const undo = (operationId?: string) => send({ action: 'undo', operationId });
+
+export const redo = () => send({ action: 'redo' });
+
+/**
+ * One-time import of the todos very old popups kept only in localStorage. They are merged
+ * only when chrome.storage had no todos at the first migration, normalized like stored todos.
+ * Afterwards the old copy is removed, even if it could not be read, so it is never tried again.
+ * Call it after listTasks, which waits for the migrations.
+ * Resolves to the new list, or null when nothing was imported.
+ */
+export const importLegacyTodos = async (): Promise<Todo[] | null> => {
+  const saved = localStorage.getItem('todos');
+  const { legacyTodosPending } = await readStorage(['legacyTodosPending']);
+  try {
+    if (!saved || !legacyTodosPending) return null;
+    return (await mergeTasks(migrateLegacyTodos(JSON.parse(saved)))).todos;
+  } catch (error) {
+    // A corrupt copy must not break every popup load
+    console.error('Could not import legacy todos:', error);
+    return null;
+  } finally {
+    localStorage.removeItem('todos');
+    if (legacyTodosPending) {
+      await removeStorage(['legacyTodosPending']);
+    }
+  }
+};
+
+/**
+ * Deleted tasks still in the trash, most recently deleted first. Read-only, like subscribeToTasks.
+ */
+export const listTrash = async (): Promise<TrashedTask[]> => {
+  const data = await readStorage(['trash']);
+  return (Array.isArray(data.trash) ? data.trash : []).sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+/**
+ * Calls `listener` with the new list whenever the repository saves. Returns an unsubscribe function.
+ */
+export const subscribeToTasks = (listener: (todos: Todo[]) => void): (() => void) => {
+  const handleChange = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName === 'local' && changes.todos) {
+      listener(Array.isArray(changes.todos.newValue) ? changes.todos.newValue : []);
+    }
+  };
+
+  chrome.storage.onChanged.addListener(handleChange);
+  return () => chrome.storage.onChanged.removeListener(handleChange);
+};
@@ -0,0 +1,68 @@
+import { Todo } from '../types/shared';
+import type { TaskEdit } from '../utils/taskEdit';
+
+// Requests the popup sends to the task repository in the service worker
+export type TaskRequest =
+  | { action: 'listTasks' }
+  | { action: 'createTask'; todo: Todo }
+  | { action: 'updateTask'; id: string; patch: Partial<Todo>; expectedVersion?: number }
+  | { action: 'editTask'; id: string; edit: TaskEdit; expectedVersion?: number }
+  | { action: 'setTaskCompleted'; id: string; completed: boolean }
+  | { action: 'snoozeTask'; id: string; minutes: number }
+  | { action: 'addSubtasks'; id: string; texts: string[] }
+  | { action: 'setSubtaskCompleted'; id: string; subtaskId: string; completed: boolean }
+  | { action: 'deleteTask'; id: string }
+  | { action: 'clearTasks' }
+  | { action: 'mergeTasks'; todos: Todo[] }
+  | { action: 'restoreFromTrash'; ids: string[] }
+  | { action: 'emptyTrash' }
+  | { action: 'undo'; operationId?: string }
+  | { action: 'redo' };
+
+export type TaskErrorCode = 'not_found' | 'conflict' | 'duplicate' | 'invalid' | 'unavailable';
+
+// The change a write recorded, for undo buttons and "Đã hoàn tác: ..." confirmations
+export interface TaskOperationSummary {
+  id: string;
+  label: string;
+}
+
+// Every successful request answers with the full list so the caller can render it right away
+export type TaskResponse =
+  | { ok: true; todos: Todo[]; operation?: TaskOperationSummary }
+  | { ok: false; error: TaskErrorCode; message: string; todo?: Todo };
+
+const TASK_ACTIONS: TaskRequest['action'][] = [
+  'listTasks',
+  'createTask',
+  'updateTask',
+  'editTask',
+  'setTaskCompleted',
+  'snoozeTask',
+  'addSubtasks',
+  'setSubtaskCompleted',
+  'deleteTask',
+  'clearTasks',
+  'mergeTasks',
+  'restoreFromTrash',
+  'emptyTrash',
+  'undo',
+  'redo'
+];
+
+export const isTaskRequest = (message: unknown): message is TaskRequest => {
+  if (!message || typeof message !== 'object') return false;
+  const { action } = message as Record<string, unknown>;
+  return TASK_ACTIONS.some(known => known === action);
+};
+
+/**
+ * Raised by the repository (and rethrown by the client) when an operation cannot be applied.
+ * `todo` carries the current stored task for conflicts, so the caller can refresh.
+ */
+export class TaskRepositoryError extends Error {
+  constructor(public readonly code: TaskErrorCode, message: string, public readonly todo?: Todo) {
+    super(message);
+    this.name = 'TaskRepositoryError';
+  }
+}
@@ -0,0 +1,143 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installChromeStorage } from './chromeStorageStub';
+import { SCHEMA_VERSION } from './migrations';
+import { TaskRepositoryError } from './taskMessages';
+import {
+  createTask,
+  updateTask,
+  updateTasks,
+  deleteTask,
+  getTasks,
+  getTrash,
+  restoreFromTrash,
+  emptyTrash,
+  purgeExpiredTrash,
+  undoChange,
+  redoChange
+} from './taskRepository';
+import { Todo, TaskHistory } from '../types/shared';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Undo steps the repository keeps per direction
+const HISTORY_LIMIT = 30;
+
+const todo = (id: string, text: string = `task ${id}`): Todo => ({ id, text, completed: false, created: 0 });
+
+const isError = (code: string) => (error: unknown) => error instanceof TaskRepositoryError && error.code === code;
+
+let store: Map<string, unknown>;
+
+beforeEach(() => {
+  // Already at the current schema, so the repository runs no migrations
+  store = installChromeStorage({ schemaVersion: SCHEMA_VERSION });
+});
+
+describe('task versions', () => {
+  it('bumps the version of every task a change touches, and only those', async () => {
+    await createTask(todo('a'));
+    await createTask(todo('b'));
+    await updateTask('a', { text: 'renamed' });
+
+    const [a, b] = await getTasks();
+    assert.equal(a.version, 2);
+    assert.equal(a.text, 'renamed');
+    assert.equal(b.version, 1);
+    assert.ok(a.shortId);
+  });
+
+  it('rejects an update made against an older version and hands back the stored task', async () => {
+    await createTask(todo('a'));
+    await updateTasks(todos => todos.map(item => ({ ...item, notifiedAt: 1 })));
+
+    await assert.rejects(updateTask('a', { text: 'stale edit' }, 1), (error: unknown) =>
+      isError('conflict')(error) && (error as TaskRepositoryError).todo?.version === 2);
+    assert.equal((await getTasks())[0].text, 'task a');
+    await updateTask('a', { text: 'fresh edit' }, 2);
+    assert.equal((await getTasks())[0].text, 'fresh edit');
+  });
+
+  it('refuses duplicate ids and unknown tasks', async () => {
+    await createTask(todo('a'));
+    await assert.rejects(createTask(todo('a')), isError('duplicate'));
+    await assert.rejects(updateTask('missing', { text: 'x' }), isError('not_found'));
+  });
+});
+
+describe('undo and redo', () => {
+  it('undoes and redoes a change, and a new change drops the redo step', async () => {
+    await createTask(todo('a', 'original'));
+    await updateTask('a', { text: 'edited' });
+
+    const undone = await undoChange();
+    assert.equal(undone.todos[0].text, 'original');
+    const redone = await redoChange();
+    assert.equal(redone.todos[0].text, 'edited');
+
+    await undoChange();
+    await createTask(todo('b'));
+    await assert.rejects(redoChange(), isError('not_found'));
+  });
+
+  it('keeps only the latest HISTORY_LIMIT steps', async () => {
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) {
+      await createTask(todo(String(i)));
+    }
+    assert.equal((store.get('taskHistory') as TaskHistory).undo.length, HISTORY_LIMIT);
+
+    for (let i = 0; i < HISTORY_LIMIT; i++) {
+      await undoChange();
+    }
+    await assert.rejects(undoChange(), isError('not_found'));
+    assert.equal((await getTasks()).length, 5);
+  });
+
+  it('refuses to undo over a task that changed after the step', async () => {
+    await createTask(todo('a', 'original'));
+    await updateTask('a', { text: 'edited' });
+    await updateTasks(todos => todos.map(item => ({ ...item, notifiedAt: 1 })));
+
+    await assert.rejects(undoChange(), isError('conflict'));
+    assert.equal((await getTasks())[0].text, 'edited');
+  });
+
+  it('undoes a step from its button while later steps stay', async () => {
+    await createTask(todo('a'));
+    const { operation } = await createTask(todo('b'));
+    await createTask(todo('c'));
+
+    await undoChange(operation!.id);
+    assert.deepEqual((await getTasks()).map(item => item.id), ['a', 'c']);
+    await assert.rejects(undoChange(operation!.id), isError('not_found'));
+  });
+});
+
+describe('trash', () => {
+  it('keeps deleted tasks until they are restored', async () => {
+    await createTask(todo('a'));
+    await deleteTask('a');
+    assert.deepEqual(await getTasks(), []);
+    assert.deepEqual((await getTrash()).map(item => item.todo.id), ['a']);
+
+    await restoreFromTrash(['a']);
+    assert.deepEqual((await getTasks()).map(item => item.id), ['a']);
+    assert.deepEqual(await getTrash(), []);
+  });
+
+  it('empties the trash and purges entries past the retention setting', async () => {
+    await createTask(todo('a'));
+    await createTask(todo('b'));
+    await deleteTask('a');
+    await emptyTrash();
+    assert.deepEqual(await getTrash(), []);
+
+    await deleteTask('b');
+    await purgeExpiredTrash(Date.now() + DAY);
+    assert.equal((await getTrash()).length, 1);
+    // The default retention is 7 days
+    await purgeExpiredTrash(Date.now() + 8 * DAY);
+    assert.deepEqual(await getTrash(), []);
+    await assert.rejects(restoreFromTrash(['b']), isError('not_found'));
+  });
+});
@@ -0,0 +1,451 @@
+import { Todo, TaskHistory, TaskOperation, TaskRestoreEntry, TrashedTask } from '../types/shared';
+import {
+  completeTask,
+  snoozeTask,
+  addSubtasks,
+  setSubtaskCompleted,
+  getRestoreEntries,
+  applyRestoreEntries,
+  purgeTrash
+} from '../utils/taskActions';
+import { TaskRequest, TaskResponse, TaskRepositoryError } from './taskMessages';
+import { readStorage, writeStorage, StorageSchema } from './storage';
+import { loadSettings } from '../utils/settings';
+import { MessageKey, Translator, createTranslator } from '../localization';
+import { ensureMigrated } from './migrations';
+import { assignShortIds } from '../utils/taskRefs';
+import { TaskEdit, applyTaskEdit } from '../utils/taskEdit';
+
+/**
+ * The service worker's task repository, the only writer of `todos` in chrome.storage.local.
+ * The popup goes through taskClient messages and subscribes to storage changes instead.
+ */
+
+// Writes are chained so the alarm, notification buttons and popup requests never interleave
+let queue: Promise<unknown> = Promise.resolve();
+
+// Undo steps kept per direction; older ones are dropped
+const HISTORY_LIMIT = 30;
+
+const EMPTY_HISTORY: TaskHistory = { undo: [], redo: [] };
+
+export interface TaskChange {
+  todos: Todo[];
+  operation?: TaskOperation;  // Set when the change was recorded or replayed
+}
+
+interface ChangeOptions {
+  describe?: (todos: Todo[], t: Translator) => string;  // Records the change for undo, labelled from the list before it
+  replay?: { operation: TaskOperation; direction: 'undo' | 'redo' };
+}
+
+const readTasks = async (): Promise<Todo[]> => {
+  // Never hand out or overwrite data still in an older schema
+  await ensureMigrated();
+  const data = await readStorage(['todos']);
+  return Array.isArray(data.todos) ? data.todos : [];
+};
+
+const readHistory = async (): Promise<TaskHistory> => {
+  const data = await readStorage(['taskHistory']);
+  return data.taskHistory || EMPTY_HISTORY;
+};
+
+const readTrash = async (): Promise<TrashedTask[]> => {
+  const data = await readStorage(['trash']);
+  return Array.isArray(data.trash) ? data.trash : [];
+};
+
+// Popup-only display state that must never be persisted
+const stripTransient = (todo: Todo): Todo => {
+  const { remainingTime, ...rest } = todo;
+  return rest;
+};
+
+const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+  const run = queue.then(operation);
+  // A failed change must not block the operations queued after it
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+const createOperationId = (now: number) => `${now.toString(36)}-${Math.random().toString(36).substring(2, 6)}`;
+
+const moveOperation = (history: TaskHistory, operation: TaskOperation, direction: 'undo' | 'redo'): TaskHistory => {
+  const target = direction === 'undo' ? 'redo' : 'undo';
+  return {
+    ...history,
+    [direction]: history[direction].filter(item => item.id !== operation.id),
+    [target]: [...history[target], operation].slice(-HISTORY_LIMIT)
+  };
+};
+
+// After a replay the list matches one side of the operation again; that side takes the stored
+// versions so the next undo or redo can tell whether the tasks were changed in between
+const withStoredVersions = (entries: TaskRestoreEntry[], todos: Todo[]): TaskRestoreEntry[] => entries.map(entry => {
+  const stored = entry.todo && todos.find(todo => todo.id === entry.id);
+  return stored ? { ...entry, todo: { ...entry.todo!, version: stored.version } } : entry;
+});
+
+const replayedOperation = (operation: TaskOperation, direction: 'undo' | 'redo', todos: Todo[]): TaskOperation =>
+  direction === 'undo'
+    ? { ...operation, before: withStoredVersions(operation.before, todos) }
+    : { ...operation, after: withStoredVersions(operation.after, todos) };
+
+// Undo and redo only apply while every task they touch is still as the other side left it
+const assertUnchangedSince = (todos: Todo[], entries: TaskRestoreEntry[]) => {
+  for (const entry of entries) {
+    const current = todos.find(todo => todo.id === entry.id);
+    if (current?.version !== entry.todo?.version) {
+      throw new TaskRepositoryError('conflict', `Task ${entry.id} changed after this step`, current ?? entry.todo ?? undefined);
+    }
+  }
+};
+
+/**
+ * Runs a change against the stored list (inside the queue) and saves tasks, trash and history in one write.
+ */
+const saveChange = async (change: (todos: Todo[]) => Todo[], options: ChangeOptions = {}): Promise<TaskChange> => {
+  const current = await readTasks();
+  const previous = new Map(current.map(todo => [todo.id, todo]));
+  const now = Date.now();
+
+  const next = assignShortIds(change(current)).map(todo => {
+    const before = previous.get(todo.id);
+    if (before === todo) return todo;
+    return {
+      ...stripTransient(todo),
+      version: (before?.version ?? todo.version ?? 0) + 1,
+      updatedAt: now
+    };
+  });
+  const values: Partial<StorageSchema> = { todos: next };
+
+  // Removed tasks go to the trash; tasks that are back (undo, restore, import) leave it
+  const nextIds = new Set(next.map(todo => todo.id));
+  const removed = current.filter(todo => !nextIds.has(todo.id));
+  const trash = await readTrash();
+  const keptTrash = trash.filter(item => !nextIds.has(item.todo.id) && !removed.some(todo => todo.id === item.todo.id));
+  if (removed.length > 0 || keptTrash.length !== trash.length) {
+    const { trashRetentionDays } = await loadSettings();
+    values.trash = purgeTrash([
+      ...keptTrash,
+      ...removed.map(todo => ({ todo: stripTransient(todo), deletedAt: now }))
+    ], trashRetentionDays, now);
+  }
+
+  let operation: TaskOperation | undefined;
+  if (options.replay) {
+    operation = replayedOperation(options.replay.operation, options.replay.direction, next);
+    values.taskHistory = moveOperation(await readHistory(), operation, options.replay.direction);
+  } else if (options.describe) {
+    const before = getRestoreEntries(current, next);
+    if (before.length > 0) {
+      const { language } = await loadSettings();
+      operation = {
+        id: createOperationId(now),
+        label: options.describe(current, createTranslator(language)),
+        timestamp: now,
+        before,
+        after: getRestoreEntries(next, current)
+      };
+      const history = await readHistory();
+      // A new change makes the undone steps unreachable, as in any editor
+      values.taskHistory = { undo: [...history.undo, operation].slice(-HISTORY_LIMIT), redo: [] };
+    }
+  }
+
+  await writeStorage(values);
+  return { todos: next, operation };
+};
+
+export const getTasks = (): Promise<Todo[]> => {
+  return queue.then(readTasks);
+};
+
+export const getTrash = (): Promise<TrashedTask[]> => {
+  return queue.then(readTrash);
+};
+
+/**
+ * Applies `change` to the latest stored list and saves the result.
+ * `change` must return new objects for the tasks it modifies (never mutate in place):
+ * every task whose object identity changed gets its version bumped.
+ * New tasks get their short "#abc" reference here, so every writer shares one id space.
+ * Not recorded for undo; user actions go through recordChange.
+ */
+export const updateTasks = (change: (todos: Todo[]) => Todo[]): Promise<Todo[]> => {
+  return enqueue(() => saveChange(change)).then(result => result.todos);
+};
+
+// A user action: saved like updateTasks and added to the undo history as `describe(todos, t)`
+const recordChange = (describe: (todos: Todo[], t: Translator) => string, change: (todos: Todo[]) => Todo[]): Promise<TaskChange> => {
+  return enqueue(() => saveChange(change, { describe }));
+};
+
+const findTask = (todos: Todo[], id: string): Todo => {
+  const todo = todos.find(item => item.id === id);
+  if (!todo) {
+    throw new TaskRepositoryError('not_found', `Task ${id} not found`);
+  }
+  return todo;
+};
+
+// 'sửa "viết báo cáo"', in the language set when the change is made
+const describeTask = (key: MessageKey, id: string) => (todos: Todo[], t: Translator) =>
+  t(key, { task: todos.find(todo => todo.id === id)?.text ?? id });
+
+export const createTask = (todo: Todo): Promise<TaskChange> => {
+  return recordChange((_todos, t) => t('operation.add', { task: todo.text }), todos => {
+    if (todos.some(item => item.id === todo.id)) {
+      throw new TaskRepositoryError('duplicate', `Task ${todo.id} already exists`);
+    }
+    return [...todos, { ...todo, version: 0 }];
+  });
+};
+
+/**
+ * Patches a task. With `expectedVersion`, the update is rejected if someone else changed it first.
+ */
+export const updateTask = (id: string, patch: Partial<Todo>, expectedVersion?: number): Promise<TaskChange> => {
+  return recordChange(describeTask('operation.edit', id), todos => {
+    const current = findTask(todos, id);
+    if (expectedVersion !== undefined && (current.version ?? 0) !== expectedVersion) {
+      throw new TaskRepositoryError('conflict', `Task ${id} was changed by someone else`, current);
+    }
+    return todos.map(todo => todo === current
+      ? { ...todo, ...patch, id: todo.id, version: todo.version }
+      : todo);
+  });
+};
+
+/**
+ * Edits what the user can change about a task. Moving its deadline or timebox resets the
+ * reminder state, so the next check escalates from the new expiry.
+ */
+export const editTask = (id: string, edit: TaskEdit, expectedVersion?: number): Promise<TaskChange> => {
+  return recordChange(describeTask('operation.edit', id), todos => {
+    const current = findTask(todos, id);
+    if (expectedVersion !== undefined && (current.version ?? 0) !== expectedVersion) {
+      throw new TaskRepositoryError('conflict', `Task ${id} was changed by someone else`, current);
+    }
+    if (edit.text !== undefined && !edit.text?.trim()) {
+      throw new TaskRepositoryError('invalid', 'Task text is empty');
+    }
+    return todos.map(todo => todo === current ? applyTaskEdit(todo, edit) : todo);
+  });
+};
+
+export const setTaskCompleted = (id: string, completed: boolean, now: number = Date.now()): Promise<TaskChange> => {
+  return recordChange(describeTask(completed ? 'operation.complete' : 'operation.reopen', id), todos => {
+    const current = findTask(todos, id);
+    if (completed) {
+      return completeTask(todos, id, now);
+    }
+    if (!current.completed) return todos;
+    return todos.map(todo => todo === current
+      ? { ...todo, completed: false, completedAt: undefined }
+      : todo);
+  });
+};
+
+export const snoozeTaskById = (id: string, minutes: number, now: number = Date.now()): Promise<TaskChange> => {
+  return recordChange(describeTask('operation.snooze', id), todos => {
+    findTask(todos, id);
+    return snoozeTask(todos, id, minutes, now);
+  });
+};
+
+export const addSubtasksToTask = (id: string, texts: string[], now: number = Date.now()): Promise<TaskChange> => {
+  return recordChange(describeTask('operation.addSubtasks', id), todos => {
+    findTask(todos, id);
+    if (!texts.some(text => text.trim())) {
+      throw new TaskRepositoryError('invalid', 'Subtask text is empty');
+    }
+    return addSubtasks(todos, id, texts, now);
+  });
+};
+
+export const setTaskSubtaskCompleted = (
+  id: string,
+  subtaskId: string,
+  completed: boolean,
+  now: number = Date.now()
+): Promise<TaskChange> => {
+  return recordChange(describeTask(completed ? 'operation.completeSubtask' : 'operation.reopenSubtask', id), todos => {
+    const current = findTask(todos, id);
+    if (!current.subtasks?.some(subtask => subtask.id === subtaskId)) {
+      throw new TaskRepositoryError('not_found', `Subtask ${subtaskId} not found in task ${id}`);
+    }
+    return setSubtaskCompleted(todos, id, subtaskId, completed, now);
+  });
+};
+
+export const deleteTask = (id: string): Promise<TaskChange> => {
+  return recordChange(describeTask('operation.delete', id), todos => {
+    findTask(todos, id);
+    return todos.filter(todo => todo.id !== id);
+  });
+};
+
+export const clearTasks = (): Promise<TaskChange> => {
+  return recordChange((todos, t) => t('operation.clear', { count: todos.length }), () => []);
+};
+
+/**
+ * Merges tasks by id: unknown ids are added, known ones are replaced only by a newer version.
+ */
+export const mergeTasks = (incoming: Todo[]): Promise<TaskChange> => {
+  return recordChange((_todos, t) => t('operation.import', { count: incoming.length }), todos => {
+    const merged = [...todos];
+    for (const todo of incoming) {
+      const index = merged.findIndex(item => item.id === todo.id);
+      if (index === -1) {
+        merged.push({ ...todo });
+      } else if ((todo.version ?? 0) > (merged[index].version ?? 0)) {
+        merged[index] = { ...todo };
+      }
+    }
+    return merged;
+  });
+};
+
+/**
+ * Puts tasks from the trash back into the list. Tasks whose id is in use again stay in the trash.
+ */
+export const restoreFromTrash = (ids: string[]): Promise<TaskChange> => {
+  return enqueue(async () => {
+    const trash = await readTrash();
+    const items = trash.filter(item => ids.includes(item.todo.id));
+    if (items.length === 0) {
+      throw new TaskRepositoryError('not_found', `Tasks ${ids.join(', ')} are not in the trash`);
+    }
+    const describe = (_todos: Todo[], t: Translator) => items.length === 1
+      ? t('operation.restore', { task: items[0].todo.text })
+      : t('operation.restoreMany', { count: items.length });
+    return saveChange(todos => [
+      ...todos,
+      ...items.filter(item => !todos.some(todo => todo.id === item.todo.id)).map(item => ({ ...item.todo }))
+    ], { describe });
+  });
+};
+
+/**
+ * Deletes everything in the trash for good. Not undoable.
+ */
+export const emptyTrash = (): Promise<TrashedTask[]> => {
+  return enqueue(async () => {
+    const trash = await readTrash();
+    await writeStorage({ trash: [] });
+    console.log(`Emptied trash (${trash.length} tasks)`);
+    return trash;
+  });
+};
+
+/**
+ * Drops trash entries older than the retention setting. Run from the background alarm.
+ */
+export const purgeExpiredTrash = (now: number = Date.now()): Promise<void> => {
+  return enqueue(async () => {
+    const trash = await readTrash();
+    if (trash.length === 0) return;
+    const { trashRetentionDays } = await loadSettings();
+    const kept = purgeTrash(trash, trashRetentionDays, now);
+    if (kept.length !== trash.length) {
+      await writeStorage({ trash: kept });
+      console.log(`Purged ${trash.length - kept.length} tasks from the trash`);
+    }
+  });
+};
+
+/**
+ * Reverses a recorded change: the latest one, or `operationId` from an undo button.
+ * Undone changes can be reapplied with redoChange until a new change is recorded.
+ */
+export const undoChange = (operationId?: string): Promise<TaskChange> => {
+  return enqueue(async () => {
+    const { undo } = await readHistory();
+    const operation = operationId ? undo.find(item => item.id === operationId) : undo[undo.length - 1];
+    if (!operation) {
+      throw new TaskRepositoryError('not_found', operationId ? `Change ${operationId} cannot be undone anymore` : 'Nothing to undo');
+    }
+    // An older change undone from its button may touch tasks edited since; that is a conflict,
+    // not something to overwrite. Tasks the undo removes still pass through the trash.
+    return saveChange(todos => {
+      assertUnchangedSince(todos, operation.after);
+      return applyRestoreEntries(todos, operation.before);
+    }, {
+      replay: { operation, direction: 'undo' }
+    });
+  });
+};
+
+export const redoChange = (): Promise<TaskChange> => {
+  return enqueue(async () => {
+    const { redo } = await readHistory();
+    const operation = redo[redo.length - 1];
+    if (!operation) {
+      throw new TaskRepositoryError('not_found', 'Nothing to redo');
+    }
+    return saveChange(todos => {
+      assertUnchangedSince(todos, operation.before);
+      return applyRestoreEntries(todos, operation.after);
+    }, {
+      replay: { operation, direction: 'redo' }
+    });
+  });
+};
+
+// Only what the popup shows; the full entries stay in the service worker
+const toResponse = ({ todos, operation }: TaskChange): TaskResponse => ({
+  ok: true,
+  todos,
+  operation: operation && { id: operation.id, label: operation.label }
+});
+
+/**
+ * Runs a popup request against the repository and turns failures into an error response.
+ */
+export const handleTaskRequest = async (request: TaskRequest): Promise<TaskResponse> => {
+  try {
+    switch (request.action) {
+      case 'listTasks':
+        return { ok: true, todos: await getTasks() };
+      case 'createTask':
+        return toResponse(await createTask(request.todo));
+      case 'updateTask':
+        return toResponse(await updateTask(request.id, request.patch, request.expectedVersion));
+      case 'editTask':
+        return toResponse(await editTask(request.id, request.edit, request.expectedVersion));
+      case 'setTaskCompleted':
+        return toResponse(await setTaskCompleted(request.id, request.completed));
+      case 'snoozeTask':
+        return toResponse(await snoozeTaskById(request.id, request.minutes));
+      case 'addSubtasks':
+        return toResponse(await addSubtasksToTask(request.id, request.texts));
+      case 'setSubtaskCompleted':
+        return toResponse(await setTaskSubtaskCompleted(request.id, request.subtaskId, request.completed));
+      case 'deleteTask':
+        return toResponse(await deleteTask(request.id));
+      case 'clearTasks':
+        return toResponse(await clearTasks());
+      case 'mergeTasks':
+        return toResponse(await mergeTasks(request.todos));
+      case 'restoreFromTrash':
+        return toResponse(await restoreFromTrash(request.ids));
+      case 'emptyTrash':
+        await emptyTrash();
+        return { ok: true, todos: await getTasks() };
+      case 'undo':
+        return toResponse(await undoChange(request.operationId));
+      case 'redo':
+        return toResponse(await redoChange());
+    }
+  } catch (error) {
+    if (error instanceof TaskRepositoryError) {
+      return { ok: false, error: error.code, message: error.message, todo: error.todo };
+    }
+    console.error('Task repository error:', error);
+    return { ok: false, error: 'unavailable', message: error instanceof Error ? error.message : String(error) };
+  }
+};
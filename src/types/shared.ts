@@ -2,6 +2,7 @@
 
 export interface Todo {
   id: string;
+  shortId?: string;          // Stable "#a3f" reference, assigned by the task repository
   text: string;
   title?: string;
   created: number;
@@ -9,12 +10,68 @@ export interface Todo {
   completedAt?: number;
   timeExpired?: boolean;
   dueDate?: number;
-  notifiedAt?: number;
+  notifiedAt?: number;       // When the last reminder for the current escalation level fired
+  escalationLevel?: number;  // See utils/escalation: 1 = heads-up, 2 = expired, 3+ = follow-ups
   deadline?: string;
   category?: string;
+  tags?: string[];           // Lowercase, without the leading "#"
+  priority?: TaskPriority;   // 1 = most urgent; unset counts as utils/priority DEFAULT_PRIORITY
   lastChecked?: number;
-  customBlameMessages?: string[];
   remainingTime?: number;
+  timeboxMinutes?: number;  // Per-task timebox, falls back to AppSettings.defaultTimeboxMinutes
+  recurrence?: RecurrenceRule;
+  subtasks?: Subtask[];      // Checklist steps, in the order they were added
+  seriesId?: string;         // Shared by every occurrence of a recurring task
+  nextOccurrenceId?: string; // Set once the following occurrence has been generated
+  version?: number;          // Bumped by the task repository on every write
+  updatedAt?: number;
+}
+
+// A checklist step inside a task
+export interface Subtask {
+  id: string;
+  text: string;
+  completed: boolean;
+  completedAt?: number;
+}
+
+export type TaskPriority = 1 | 2 | 3 | 4;
+
+// How to put one task back: `todo: null` means the task did not exist at that point
+export interface TaskRestoreEntry {
+  id: string;
+  todo: Todo | null;
+}
+
+// One change to the task list, kept by the repository so it can be undone and redone
+export interface TaskOperation {
+  id: string;
+  label: string;               // What changed, e.g. 'xóa "viết báo cáo"'
+  timestamp: number;
+  before: TaskRestoreEntry[];  // Applied by undo
+  after: TaskRestoreEntry[];   // Applied by redo
+}
+
+export interface TaskHistory {
+  undo: TaskOperation[];  // Oldest first
+  redo: TaskOperation[];
+}
+
+// A deleted task, restorable until AppSettings.trashRetentionDays have passed
+export interface TrashedTask {
+  todo: Todo;
+  deletedAt: number;
+}
+
+export type RecurrenceFrequency = 'hourly' | 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;        // Every N hours/days/weeks/months
+  byWeekday?: number[];    // Weekly only, 0 = Sunday
+  byMonthDay?: number;     // Monthly only, 1-31
+  hour?: number;           // Time of day for daily/weekdays/weekly/monthly rules
+  minute?: number;
 }
 
 export interface AIConfig {
@@ -27,6 +84,109 @@ export interface AIConfig {
   lastCheck?: number;       // Add lastCheck property
 }
 
+// A chat bubble in the popup; kept in localStorage and included in backups
+export interface ChatMessage {
+  id: string;
+  text: string;
+  isBot: boolean;
+  timestamp: number;
+  todo?: Todo; // Optional todo item to display in chat
+  isTodoList?: boolean; // Flag for messages that contain the todo list
+  isProcessing?: boolean; // Flag for messages that are processing
+  showTaskActions?: boolean; // Show snooze / done buttons under the todo (opened from a notification)
+  operationId?: string; // Change this message confirms; shows a "Hoàn tác" button
+  filterTags?: string[]; // Todo list limited to tasks with all of these tags ("list #work")
+  digest?: DailyDigest; // Morning summary, shown as a card instead of the text
+}
+
+// Reminder stored by the background for the popup to show in the chat
+export interface PendingBlameMessage {
+  message: string;
+  timestamp: number;
+  taskId?: string;
+  displayed?: boolean;
+}
+
+// Last notification, repeated in the popup when it opens
+export interface NotificationPreview {
+  title: string;
+  message: string;
+  timestamp: number;
+  taskId?: string;
+}
+
+export interface AppSettings {
+  defaultTimeboxMinutes: number;  // Used when a task has neither a dueDate nor its own timebox
+  reminderLeadMinutes: number;    // Gentle reminder this long before expiry, 0 disables it
+  escalationIntervalsMinutes: number[]; // Gaps between follow-ups after expiry; the last one repeats
+  personaId: PersonaId;           // Coach persona used for reminders
+  categoryPersonas: Record<string, PersonaId>; // Per-category overrides, keyed by PERSONA_CATEGORIES id
+  customPersona: CustomPersona;
+  trashRetentionDays: number;     // Deleted tasks stay in the trash this long, 0 deletes them right away
+  tags: TagDefinition[];          // Known tags with their look; tasks may also carry tags not listed here
+  language: Locale;               // UI, reminders and AI replies
+  spiceLevel: SpiceLevel;         // Roughest language generated reminders may use
+  meetingSafe: MeetingSafeHours;  // Hours when reminders are kept wholesome whatever spiceLevel says
+  quietHours: TimeWindow[];       // No notifications then; what came up is sent as one digest afterwards
+  dailyDigest: DailyDigestSettings;
+}
+
+export interface DailyDigestSettings {
+  enabled: boolean;
+  time: string;  // "08:00", sent at the first check after it (and outside quiet hours)
+}
+
+// A task as the daily digest lists it
+export interface DigestTask {
+  id: string;
+  text: string;
+  dueAt: number;  // Deadline, or end of the timebox for tasks without one
+}
+
+// Morning summary built by utils/dailyDigest
+export interface DailyDigest {
+  date: string;                  // Local day it was made for, "2026-10-19"
+  summary: string;               // Opening line from the persona, or the template
+  dueToday: DigestTask[];
+  missedYesterday: DigestTask[]; // Expired yesterday and not done in time
+  completedYesterday: number;
+  streakDays: number;            // Days in a row with at least one task done
+}
+
+// A daily time range on some weekdays; an end before the start runs past midnight
+export interface TimeWindow {
+  start: string;   // "09:00"
+  end: string;     // "17:30"
+  days: number[];  // 0 = Sunday
+}
+
+export interface MeetingSafeHours extends TimeWindow {
+  enabled: boolean;
+}
+
+// Languages with a message catalog in src/localization
+export type Locale = 'vi' | 'en';
+
+// wholesome: no swearing at all, mild: light swearing only, spicy: anything goes
+export type SpiceLevel = 'wholesome' | 'mild' | 'spicy';
+
+// A tag users can pick with "#id" or any alias, e.g. work / "công việc"
+export interface TagDefinition {
+  id: string;          // What tasks store, lowercase without "#"
+  label: string;
+  icon: string;
+  color: string;       // CSS color of the tag chip
+  aliases: string[];   // Matched ignoring case, accents and spaces
+}
+
+export type PersonaId = 'bigBrother' | 'gentleMentor' | 'drillSergeant' | 'sarcasticColleague' | 'custom';
+
+export interface CustomPersona {
+  name: string;
+  systemPrompt: string;        // User-written; the JSON output rules are appended automatically
+  fallbackMessages: string[];
+}
+
 export interface BlameMessageResult {
   blameMessages: string[];
   category?: string;
@@ -0,0 +1,122 @@
+import { AIConfig, Locale, TaskPriority, Todo } from '../types/shared';
+import { Persona } from '../prompts/personas';
+import { requestStructured } from '../providers';
+import {
+  TASK_DETECTION_PROMPT,
+  BlameMessageResult,
+  TaskDetectionResult,
+  BLAME_MESSAGE_SCHEMA,
+  TASK_DETECTION_SCHEMA,
+  SUBTASK_BREAKDOWN_PROMPT,
+  SUBTASK_BREAKDOWN_SCHEMA,
+  SubtaskBreakdownResult,
+  DAILY_DIGEST_PROMPT,
+  DAILY_DIGEST_SCHEMA,
+  DigestSummaryResult,
+  formatBlamePrompt,
+  formatDigestPrompt,
+  formatBreakdownPrompt,
+  formatTaskDetectionPrompt,
+  formatLanguageRule
+} from '../prompts/taskAnalysis';
+
+// The reply language is the last instruction, so it wins over the language the prompt is written in
+const withLanguageRule = (prompt: string, locale: Locale) => `${prompt}\n\n${formatLanguageRule(locale)}`;
+
+/**
+ * Asks the configured provider for reminder messages about a task, in the voice and language of `persona`.
+ */
+export const generateBlameMessages = (
+  config: AIConfig,
+  task: { text: string, category?: string, deadline?: string, priority?: TaskPriority, escalationLevel?: number, overdueMinutes?: number },
+  persona: Persona
+): Promise<BlameMessageResult> => {
+  return requestStructured<BlameMessageResult>(config, {
+    messages: [
+      { role: 'system', content: withLanguageRule(persona.systemPrompt, persona.locale) },
+      {
+        role: 'user',
+        content: formatBlamePrompt({
+          text: task.text,
+          category: task.category || 'general',
+          deadline: task.deadline,
+          priority: task.priority,
+          escalationLevel: task.escalationLevel,
+          overdueMinutes: task.overdueMinutes,
+          style: persona.style,
+          example: persona.example,
+          locale: persona.locale,
+          spiceLevel: persona.spiceLevel
+        })
+      }
+    ],
+    temperature: 0.9,
+    maxTokens: 400
+  }, BLAME_MESSAGE_SCHEMA, persona.locale);
+};
+
+/**
+ * Asks the configured provider to find tasks (and their deadlines) in a chat message.
+ * An empty `detectedTasks` list means the message contained no task.
+ */
+export const detectTasks = (config: AIConfig, message: string, locale: Locale): Promise<TaskDetectionResult> => {
+  return requestStructured<TaskDetectionResult>(config, {
+    messages: [
+      { role: 'system', content: withLanguageRule(TASK_DETECTION_PROMPT, locale) },
+      { role: 'user', content: formatTaskDetectionPrompt(message, locale) }
+    ],
+    temperature: 0.7,
+    maxTokens: 350,
+    timeoutMs: 15000
+  }, TASK_DETECTION_SCHEMA, locale);
+};
+
+/**
+ * Asks the configured provider to propose checklist steps for an existing task.
+ * Steps the task already has are sent along so the model does not repeat them.
+ */
+export const breakDownTask = (config: AIConfig, todo: Todo, locale: Locale): Promise<SubtaskBreakdownResult> => {
+  return requestStructured<SubtaskBreakdownResult>(config, {
+    messages: [
+      { role: 'system', content: withLanguageRule(SUBTASK_BREAKDOWN_PROMPT, locale) },
+      {
+        role: 'user',
+        content: formatBreakdownPrompt({
+          text: todo.text,
+          deadline: todo.deadline,
+          existingSubtasks: todo.subtasks?.map(subtask => subtask.text)
+        })
+      }
+    ],
+    temperature: 0.5,
+    maxTokens: 400,
+    timeoutMs: 20000
+  }, SUBTASK_BREAKDOWN_SCHEMA, locale);
+};
+
+/**
+ * Asks the configured provider for the opening line of the daily digest, in the voice and language of `persona`.
+ */
+export const generateDigestSummary = (
+  config: AIConfig,
+  digest: { dueToday: string[], missedYesterday: string[], completedYesterday: number, streakDays: number },
+  persona: Persona
+): Promise<DigestSummaryResult> => {
+  return requestStructured<DigestSummaryResult>(config, {
+    messages: [
+      { role: 'system', content: withLanguageRule(DAILY_DIGEST_PROMPT, persona.locale) },
+      {
+        role: 'user',
+        content: formatDigestPrompt({
+          ...digest,
+          style: persona.style,
+          locale: persona.locale,
+          spiceLevel: persona.spiceLevel
+        })
+      }
+    ],
+    temperature: 0.8,
+    maxTokens: 300,
+    timeoutMs: 20000
+  }, DAILY_DIGEST_SCHEMA, persona.locale);
+};
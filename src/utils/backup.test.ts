@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BACKUP_FORMAT, parseBackup } from './backup';
+
+const backupWith = (settings: Record<string, unknown>) => JSON.stringify({
+  app: 'tasktroll',
+  format: BACKUP_FORMAT,
+  exportedAt: 0,
+  todos: [],
+  settings
+});
+
+describe('parseBackup', () => {
+  it('keeps settings inside the ranges the settings form accepts', () => {
+    const result = parseBackup(backupWith({
+      defaultTimeboxMinutes: 45,
+      trashRetentionDays: 0,
+      escalationIntervalsMinutes: [10, 20],
+      quietHours: [{ start: '22:00', end: '07:00', days: [0, 6] }],
+      dailyDigest: { enabled: true, time: '08:30' }
+    }));
+    assert.ok(result.ok);
+    assert.deepEqual(result.value.settings, {
+      defaultTimeboxMinutes: 45,
+      trashRetentionDays: 0,
+      escalationIntervalsMinutes: [10, 20],
+      quietHours: [{ start: '22:00', end: '07:00', days: [0, 6] }],
+      dailyDigest: { enabled: true, time: '08:30' }
+    });
+  });
+
+  it('drops out-of-range numbers and malformed time windows', () => {
+    const result = parseBackup(backupWith({
+      defaultTimeboxMinutes: 0,
+      reminderLeadMinutes: -5,
+      trashRetentionDays: 1.5,
+      escalationIntervalsMinutes: [15, -1],
+      meetingSafe: { enabled: true, start: '9am', end: '17:00', days: [1] },
+      quietHours: [{ start: '25:00', end: '07:00', days: [0] }, { start: '12:00', end: '13:00', days: [7] }],
+      dailyDigest: { enabled: true, time: '8' }
+    }));
+    assert.ok(result.ok);
+    assert.deepEqual(result.value.settings, { quietHours: [] });
+  });
+});
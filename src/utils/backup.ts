@@ -0,0 +1,378 @@
+import { Todo, AIConfig, AppSettings, ChatMessage, Locale, TimeWindow } from '../types/shared';
+import { Schema, ValidationResult, validate } from './schema';
+import { describeRecurrence } from './recurrence';
+import { formatPriority, getPriority, isTaskPriority, sortTasks } from './priority';
+import { getSubtaskProgress } from './taskActions';
+import { PERSONA_IDS, PERSONA_CATEGORIES } from '../prompts/personas';
+import { SCHEMA_VERSION } from '../storage/migrations';
+import { LOCALES, createTranslator } from '../localization';
+import { SPICE_LEVELS } from './messageQuality';
+import { parseClock } from './schedule';
+
+// Bump when the backup layout changes in a way older versions cannot read
+export const BACKUP_FORMAT = 1;
+
+export type ExportFormat = 'json' | 'csv' | 'md' | 'ics';
+
+export interface BackupFile {
+  app: 'tasktroll';
+  format: number;
+  exportedAt: number;
+  schemaVersion?: number;
+  todos: Todo[];
+  messages?: ChatMessage[];
+  settings?: Partial<AppSettings>;
+  // Only preferences: the API key is never exported, and the provider, endpoint and model stay
+  // with the key they belong to, so a shared backup cannot send the user's key elsewhere
+  aiConfig?: Partial<Pick<AIConfig, 'enabled' | 'autoDetectTasks'>>;
+}
+
+const optionalNumber: Schema = { type: 'number', nullable: true };
+const optionalString: Schema = { type: 'string', nullable: true };
+const optionalBoolean: Schema = { type: 'boolean', nullable: true };
+
+const RECURRENCE_SCHEMA: Schema = {
+  type: 'object',
+  nullable: true,
+  required: ['frequency', 'interval'],
+  properties: {
+    frequency: { type: 'string', enum: ['hourly', 'daily', 'weekdays', 'weekly', 'monthly'] },
+    interval: { type: 'number' },
+    byWeekday: { type: 'array', items: { type: 'number' }, nullable: true },
+    byMonthDay: optionalNumber,
+    hour: optionalNumber,
+    minute: optionalNumber
+  }
+};
+
+const SUBTASK_SCHEMA: Schema = {
+  type: 'object',
+  required: ['id', 'text', 'completed'],
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    text: { type: 'string', minLength: 1 },
+    completed: { type: 'boolean' },
+    completedAt: optionalNumber
+  }
+};
+
+// Only the fields listed here survive an import; add new Todo fields here too
+const TODO_PROPERTIES: Record<string, Schema> = {
+  id: { type: 'string', minLength: 1 },
+  shortId: optionalString,
+  text: { type: 'string', minLength: 1 },
+  title: optionalString,
+  created: { type: 'number' },
+  completed: { type: 'boolean' },
+  completedAt: optionalNumber,
+  timeExpired: optionalBoolean,
+  dueDate: optionalNumber,
+  notifiedAt: optionalNumber,
+  escalationLevel: optionalNumber,
+  deadline: optionalString,
+  category: optionalString,
+  tags: { type: 'array', items: { type: 'string', minLength: 1 }, nullable: true },
+  priority: optionalNumber,
+  lastChecked: optionalNumber,
+  timeboxMinutes: optionalNumber,
+  recurrence: RECURRENCE_SCHEMA,
+  subtasks: { type: 'array', items: SUBTASK_SCHEMA, nullable: true },
+  seriesId: optionalString,
+  nextOccurrenceId: optionalString,
+  version: optionalNumber,
+  updatedAt: optionalNumber
+};
+
+const TODO_SCHEMA: Schema = {
+  type: 'object',
+  required: ['id', 'text', 'created', 'completed'],
+  properties: TODO_PROPERTIES
+};
+
+const MESSAGE_SCHEMA: Schema = {
+  type: 'object',
+  required: ['id', 'text', 'isBot', 'timestamp'],
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    text: { type: 'string' },
+    isBot: { type: 'boolean' },
+    timestamp: { type: 'number' },
+    todo: { ...TODO_SCHEMA, nullable: true },
+    isTodoList: optionalBoolean,
+    showTaskActions: optionalBoolean
+  }
+};
+
+// Shared by meetingSafe and every quietHours entry
+const TIME_WINDOW_REQUIRED = ['start', 'end', 'days'];
+
+const TIME_WINDOW_PROPERTIES: Record<string, Schema> = {
+  start: { type: 'string' },
+  end: { type: 'string' },
+  days: { type: 'array', items: { type: 'number' } }
+};
+
+const PERSONA_ID_SCHEMA: Schema = { type: 'string', enum: PERSONA_IDS, nullable: true };
+
+const SETTINGS_SCHEMA: Schema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    defaultTimeboxMinutes: optionalNumber,
+    reminderLeadMinutes: optionalNumber,
+    escalationIntervalsMinutes: { type: 'array', items: { type: 'number' }, nullable: true },
+    personaId: PERSONA_ID_SCHEMA,
+    categoryPersonas: {
+      type: 'object',
+      nullable: true,
+      properties: Object.fromEntries(PERSONA_CATEGORIES.map(category => [category.id, PERSONA_ID_SCHEMA]))
+    },
+    customPersona: {
+      type: 'object',
+      nullable: true,
+      required: ['name', 'systemPrompt', 'fallbackMessages'],
+      properties: {
+        name: { type: 'string' },
+        systemPrompt: { type: 'string' },
+        fallbackMessages: { type: 'array', items: { type: 'string' } }
+      }
+    },
+    trashRetentionDays: optionalNumber,
+    language: { type: 'string', enum: LOCALES, nullable: true },
+    spiceLevel: { type: 'string', enum: SPICE_LEVELS, nullable: true },
+    meetingSafe: {
+      type: 'object',
+      nullable: true,
+      required: ['enabled', ...TIME_WINDOW_REQUIRED],
+      properties: { enabled: { type: 'boolean' }, ...TIME_WINDOW_PROPERTIES }
+    },
+    quietHours: {
+      type: 'array',
+      nullable: true,
+      items: { type: 'object', required: TIME_WINDOW_REQUIRED, properties: TIME_WINDOW_PROPERTIES }
+    },
+    dailyDigest: {
+      type: 'object',
+      nullable: true,
+      required: ['enabled', 'time'],
+      properties: { enabled: { type: 'boolean' }, time: { type: 'string' } }
+    },
+    tags: {
+      type: 'array',
+      nullable: true,
+      items: {
+        type: 'object',
+        required: ['id', 'label', 'icon', 'color', 'aliases'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          label: { type: 'string' },
+          icon: { type: 'string' },
+          color: { type: 'string' },
+          aliases: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    }
+  }
+};
+
+const AI_CONFIG_SCHEMA: Schema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    enabled: optionalBoolean,
+    autoDetectTasks: optionalBoolean
+  }
+};
+
+const BACKUP_SCHEMA: Schema = {
+  type: 'object',
+  required: ['app', 'format', 'exportedAt', 'todos'],
+  properties: {
+    app: { type: 'string', enum: ['tasktroll'] },
+    format: { type: 'number' },
+    exportedAt: { type: 'number' },
+    schemaVersion: optionalNumber,
+    todos: { type: 'array', items: TODO_SCHEMA },
+    messages: { type: 'array', items: MESSAGE_SCHEMA, nullable: true },
+    settings: SETTINGS_SCHEMA,
+    aiConfig: AI_CONFIG_SCHEMA
+  }
+};
+
+/**
+ * Builds a full backup. The API key and where it is sent (provider, endpoint, model) are left out,
+ * so the file is safe to share and safe to import.
+ */
+export const createBackup = (
+  data: { todos: Todo[]; messages: ChatMessage[]; settings: AppSettings; aiConfig: AIConfig },
+  now: number = Date.now()
+): BackupFile => {
+  const { enabled, autoDetectTasks } = data.aiConfig;
+  return {
+    app: 'tasktroll',
+    format: BACKUP_FORMAT,
+    exportedAt: now,
+    schemaVersion: SCHEMA_VERSION,
+    todos: data.todos.map(({ remainingTime, ...todo }) => todo),
+    messages: data.messages.filter(message => !message.isProcessing),
+    settings: data.settings,
+    aiConfig: { enabled, autoDetectTasks }
+  };
+};
+
+const isWholeNumber = (value: number | undefined, min: number) =>
+  value !== undefined && Number.isInteger(value) && value >= min;
+
+const isValidWindow = (window: TimeWindow) =>
+  parseClock(window.start) !== null && parseClock(window.end) !== null &&
+  window.days.every(day => Number.isInteger(day) && day >= 0 && day <= 6);
+
+// The same ranges the settings form accepts; anything else keeps the user's current value on import
+const sanitizeSettings = (settings: Partial<AppSettings>) => {
+  if (settings.defaultTimeboxMinutes !== undefined && !isWholeNumber(settings.defaultTimeboxMinutes, 1)) {
+    delete settings.defaultTimeboxMinutes;
+  }
+  if (settings.reminderLeadMinutes !== undefined && !isWholeNumber(settings.reminderLeadMinutes, 0)) {
+    delete settings.reminderLeadMinutes;
+  }
+  if (settings.trashRetentionDays !== undefined && !isWholeNumber(settings.trashRetentionDays, 0)) {
+    delete settings.trashRetentionDays;
+  }
+  if (settings.escalationIntervalsMinutes && !settings.escalationIntervalsMinutes.every(minutes => isWholeNumber(minutes, 1))) {
+    delete settings.escalationIntervalsMinutes;
+  }
+  if (settings.meetingSafe && !isValidWindow(settings.meetingSafe)) {
+    delete settings.meetingSafe;
+  }
+  if (settings.quietHours) {
+    settings.quietHours = settings.quietHours.filter(isValidWindow);
+  }
+  if (settings.dailyDigest && parseClock(settings.dailyDigest.time) === null) {
+    delete settings.dailyDigest;
+  }
+};
+
+/**
+ * Parses and validates a backup file, rejecting files written by a newer version.
+ */
+export const parseBackup = (text: string): ValidationResult<BackupFile> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { ok: false, issues: [{ path: '', message: `not valid JSON (${reason})` }] };
+  }
+
+  const result = validate<BackupFile>(BACKUP_SCHEMA, json);
+  if (!result.ok) return result;
+  if (result.value.format > BACKUP_FORMAT) {
+    return { ok: false, issues: [{ path: 'format', message: `backup format ${result.value.format} is newer than this version supports` }] };
+  }
+
+  // The schema only checks the type; out-of-range priorities fall back to the default
+  for (const todo of result.value.todos) {
+    if (todo.priority !== undefined && !isTaskPriority(todo.priority)) {
+      delete todo.priority;
+    }
+  }
+  if (result.value.settings) {
+    sanitizeSettings(result.value.settings);
+  }
+  return result;
+};
+
+/**
+ * Adds messages with unknown ids, keeping the chat in timestamp order.
+ */
+export const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] => {
+  const knownIds = new Set(current.map(message => message.id));
+  return [...current, ...incoming.filter(message => !knownIds.has(message.id))]
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// "2025-03-12 17:00" in local time, which spreadsheets recognise as a date
+const formatDateTime = (timestamp?: number): string => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const getStatus = (todo: Todo) => todo.completed ? 'done' : todo.timeExpired ? 'overdue' : 'open';
+
+// "2/5", empty for tasks without a checklist
+const formatSubtaskProgress = (todo: Todo): string => {
+  const { done, total } = getSubtaskProgress(todo);
+  return total > 0 ? `${done}/${total}` : '';
+};
+
+const escapeCSV = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  // Spreadsheets run cells starting with = + - @ as formulas; a leading quote keeps them text
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * One row per task. Starts with a BOM so Excel reads the Vietnamese text as UTF-8.
+ */
+export const exportTasksCSV = (todos: Todo[], locale: Locale): string => {
+  const header = ['id', 'text', 'category', 'tags', 'priority', 'status', 'created', 'due', 'deadline', 'timebox_minutes', 'recurrence', 'subtasks', 'completed_at'];
+  const rows = todos.map(todo => [
+    todo.id,
+    todo.text,
+    todo.category,
+    (todo.tags || []).join(' '),
+    formatPriority(getPriority(todo)),
+    getStatus(todo),
+    formatDateTime(todo.created),
+    formatDateTime(todo.dueDate),
+    todo.deadline,
+    todo.timeboxMinutes,
+    todo.recurrence ? describeRecurrence(todo.recurrence, locale) : '',
+    formatSubtaskProgress(todo),
+    formatDateTime(todo.completedAt)
+  ].map(escapeCSV).join(','));
+
+  return '\uFEFF' + [header.join(','), ...rows].join('\r\n');
+};
+
+/**
+ * A checklist with open tasks first (most urgent on top), ready to paste into notes or an issue.
+ */
+export const exportTasksMarkdown = (todos: Todo[], settings: AppSettings, now: number = Date.now()): string => {
+  const t = createTranslator(settings.language);
+  const formatTask = (todo: Todo) => {
+    const details = [
+      todo.dueDate ? t('export.markdownDue', { time: formatDateTime(todo.dueDate) }) : todo.deadline,
+      todo.recurrence ? describeRecurrence(todo.recurrence, settings.language) : undefined,
+      todo.timeExpired && !todo.completed ? t('export.markdownOverdue') : undefined,
+      todo.tags && todo.tags.length > 0 ? todo.tags.map(tag => `#${tag}`).join(' ') : undefined
+    ].filter(Boolean);
+    const text = todo.text.replace(/\n/g, ' ');
+    const priority = todo.priority ? `**${formatPriority(todo.priority)}** ` : '';
+    const steps = (todo.subtasks || []).map(subtask =>
+      `  - [${subtask.completed ? 'x' : ' '}] ${subtask.text.replace(/\n/g, ' ')}`);
+    return [`- [${todo.completed ? 'x' : ' '}] ${priority}${text}${details.length > 0 ? ` — ${details.join(', ')}` : ''}`, ...steps].join('\n');
+  };
+
+  const open = sortTasks(todos.filter(todo => !todo.completed), settings, now);
+  const done = todos.filter(todo => todo.completed);
+
+  return [
+    `# ${t('export.markdownTitle')}`,
+    '',
+    `_${t('export.markdownExportedAt', { time: formatDateTime(now) })}_`,
+    '',
+    `## ${t('export.markdownOpen', { count: open.length })}`,
+    '',
+    ...(open.length > 0 ? open.map(formatTask) : [`_${t('export.markdownNoOpen')}_`]),
+    '',
+    `## ${t('export.markdownDone', { count: done.length })}`,
+    '',
+    ...(done.length > 0 ? done.map(formatTask) : [`_${t('export.markdownNoDone')}_`]),
+    ''
+  ].join('\n');
+};
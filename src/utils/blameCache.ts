@@ -0,0 +1,155 @@
+import { AIConfig, Todo } from '../types/shared';
+import { Persona } from '../prompts/personas';
+import { isAIConfigured } from '../providers';
+import { generateBlameMessages } from './aiTasks';
+import { ESCALATION_EXPIRED, getToneLevel } from './escalation';
+import { getPriority } from './priority';
+import { filterMessages } from './messageQuality';
+import { readStorage, writeStorage } from '../storage/storage';
+
+// Levels above this share one set of messages, matching the harshest prompt tone
+const MAX_CACHED_LEVEL = 4;
+
+export interface BlameCacheEntry {
+  taskId: string;
+  messages: string[];    // Everything the model returned for this task/persona/level
+  remaining: string[];   // Not shown yet; refilled from the model once empty
+  generatedAt: number;
+}
+
+export type BlameCache = Record<string, BlameCacheEntry>;
+
+// Keyed by language, spice level and the priority-adjusted tone level, so switching any of them picks a fresh set
+const getCacheKey = (todo: Todo, persona: Persona, level: number) =>
+  `${todo.id}:${persona.id}:${persona.locale}:${persona.spiceLevel}:p${getPriority(todo)}:${Math.min(getToneLevel(todo, level), MAX_CACHED_LEVEL)}`;
+
+// Generations in flight, so the popup and a reminder asking at once share one request
+const pending = new Map<string, Promise<string[]>>();
+
+const readCache = async (): Promise<BlameCache> => {
+  const data = await readStorage(['blameCache']);
+  return data.blameCache || {};
+};
+
+const writeEntry = async (key: string, entry: BlameCacheEntry | null): Promise<void> => {
+  // Re-read right before writing so concurrent updates for other keys are kept
+  const cache = await readCache();
+  if (entry) {
+    cache[key] = entry;
+  } else {
+    delete cache[key];
+  }
+  await writeStorage({ blameCache: cache });
+};
+
+const generate = (
+  key: string,
+  config: AIConfig,
+  todo: Todo,
+  persona: Persona,
+  level: number,
+  overdueMs: number
+): Promise<string[]> => {
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight;
+
+  const request = generateBlameMessages(config, {
+    text: todo.text,
+    category: todo.category || 'general',
+    deadline: todo.deadline,
+    priority: getPriority(todo),
+    escalationLevel: getToneLevel(todo, level),
+    overdueMinutes: Math.round(overdueMs / 60000)
+  }, persona)
+    // Only messages in the right language, short enough, about this task and clean enough are cached
+    .then(result => filterMessages(result.blameMessages, { task: todo.text, locale: persona.locale, spiceLevel: persona.spiceLevel }))
+    .finally(() => pending.delete(key));
+
+  pending.set(key, request);
+  return request;
+};
+
+/**
+ * Returns the next cached blame message for a task, calling the model only when
+ * the cache for this task, persona and level is empty or used up.
+ * Resolves to null when AI is off or fails, so the caller can use its fallback.
+ */
+export const takeBlameMessage = async (
+  config: AIConfig,
+  todo: Todo,
+  persona: Persona,
+  level: number = ESCALATION_EXPIRED,
+  overdueMs: number = 0
+): Promise<string | null> => {
+  const key = getCacheKey(todo, persona, level);
+
+  try {
+    const cache = await readCache();
+    let entry = cache[key];
+
+    if (!entry || entry.remaining.length === 0) {
+      if (!config || !isAIConfigured(config)) return null;
+
+      console.log('Blame cache empty, generating messages for:', key);
+      const messages = await generate(key, config, todo, persona, level, overdueMs);
+      if (messages.length === 0) return null;
+
+      entry = { taskId: todo.id, messages, remaining: messages, generatedAt: Date.now() };
+    }
+
+    // Rotate through the remaining messages in random order, without repeats
+    const index = Math.floor(Math.random() * entry.remaining.length);
+    const message = entry.remaining[index];
+    await writeEntry(key, {
+      ...entry,
+      remaining: entry.remaining.filter((_, i) => i !== index)
+    });
+
+    return message;
+  } catch (error) {
+    console.error('Error reading blame message cache:', error);
+    return null;
+  }
+};
+
+/**
+ * Fills the cache for a new task ahead of time so its first reminder is instant.
+ */
+export const prefetchBlameMessages = async (
+  config: AIConfig,
+  todo: Todo,
+  persona: Persona,
+  level: number = ESCALATION_EXPIRED
+): Promise<void> => {
+  if (!config || !isAIConfigured(config)) return;
+
+  const key = getCacheKey(todo, persona, level);
+  try {
+    const cache = await readCache();
+    if (cache[key] && cache[key].remaining.length > 0) return;
+
+    const messages = await generate(key, config, todo, persona, level, 0);
+    if (messages.length > 0) {
+      await writeEntry(key, { taskId: todo.id, messages, remaining: messages, generatedAt: Date.now() });
+      console.log('Prefetched blame messages for:', key);
+    }
+  } catch (error) {
+    console.error('Error prefetching blame messages:', error);
+  }
+};
+
+/**
+ * Drops cached messages for tasks that were completed or deleted.
+ */
+export const clearBlameMessages = async (taskIds: string[]): Promise<void> => {
+  if (taskIds.length === 0) return;
+
+  const cache = await readCache();
+  const remaining: BlameCache = {};
+  for (const [key, entry] of Object.entries(cache)) {
+    if (!taskIds.includes(entry.taskId)) {
+      remaining[key] = entry;
+    }
+  }
+  await writeStorage({ blameCache: remaining });
+};
@@ -0,0 +1,158 @@
+import { AIConfig, AppSettings, DailyDigest, DigestTask, Locale, Todo } from '../types/shared';
+import { MAX_DIGEST_SUMMARY_LENGTH } from '../prompts/taskAnalysis';
+import { resolvePersona } from '../prompts/personas';
+import { isAIConfigured } from '../providers';
+import { Translator, createTranslator } from '../localization';
+import { generateDigestSummary } from './aiTasks';
+import { getExpiryTime } from './timebox';
+import { parseClock } from './schedule';
+import { cleanMessage, detectLanguage, findBlockedWord } from './messageQuality';
+
+// Local midnight `offsetDays` days from the day of `time`
+const startOfDay = (time: number, offsetDays: number = 0): number => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + offsetDays).getTime();
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local calendar day of `time`: "2026-10-19"
+export const getDayKey = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * True once today's digest time has passed and no digest was sent for today yet.
+ */
+export const isDigestDue = (settings: AppSettings, lastDigestDate: string | undefined, now: number = Date.now()): boolean => {
+  const time = parseClock(settings.dailyDigest.time);
+  if (!settings.dailyDigest.enabled || time === null || lastDigestDate === getDayKey(now)) return false;
+  const date = new Date(now);
+  return date.getHours() * 60 + date.getMinutes() >= time;
+};
+
+/**
+ * Days in a row with at least one task completed, counting back from today
+ * (or from yesterday while nothing is done yet today).
+ */
+export const getStreakDays = (todos: Todo[], now: number = Date.now()): number => {
+  const days = new Set(todos.filter(todo => todo.completed && todo.completedAt).map(todo => getDayKey(todo.completedAt!)));
+  let offset = days.has(getDayKey(now)) ? 0 : -1;
+  let streak = 0;
+  while (days.has(getDayKey(startOfDay(now, offset)))) {
+    streak++;
+    offset--;
+  }
+  return streak;
+};
+
+/**
+ * Everything the digest reports for the day of `now`, without the opening line.
+ */
+export const collectDigest = (todos: Todo[], settings: AppSettings, now: number = Date.now()): Omit<DailyDigest, 'summary'> => {
+  const today = startOfDay(now);
+  const tomorrow = startOfDay(now, 1);
+  const yesterday = startOfDay(now, -1);
+  const dueToday: DigestTask[] = [];
+  const missedYesterday: DigestTask[] = [];
+
+  for (const todo of todos) {
+    const dueAt = getExpiryTime(todo, settings, now);
+    if (!todo.completed && dueAt >= today && dueAt < tomorrow) {
+      dueToday.push({ id: todo.id, text: todo.text, dueAt });
+    } else if (dueAt >= yesterday && dueAt < today && (!todo.completed || (todo.completedAt ?? 0) > dueAt)) {
+      missedYesterday.push({ id: todo.id, text: todo.text, dueAt });
+    }
+  }
+
+  const byDueTime = (a: DigestTask, b: DigestTask) => a.dueAt - b.dueAt;
+  return {
+    date: getDayKey(now),
+    dueToday: dueToday.sort(byDueTime),
+    missedYesterday: missedYesterday.sort(byDueTime),
+    completedYesterday: todos.filter(todo => todo.completedAt && todo.completedAt >= yesterday && todo.completedAt < today).length,
+    streakDays: getStreakDays(todos, now)
+  };
+};
+
+// Nothing due, missed or done lately: no digest rather than an empty one
+const isEmptyDigest = (digest: Omit<DailyDigest, 'summary'>) =>
+  digest.dueToday.length === 0 && digest.missedYesterday.length === 0 && digest.completedYesterday === 0 && digest.streakDays === 0;
+
+/**
+ * The deterministic opening line, used when AI is off or its reply is not usable.
+ */
+export const formatDigestSummary = (digest: Omit<DailyDigest, 'summary'>, t: Translator): string => {
+  const parts = [
+    digest.dueToday.length > 0 ? t('digest.summary', { count: digest.dueToday.length }) : t('digest.summaryNone')
+  ];
+  if (digest.missedYesterday.length > 0) parts.push(t('digest.summaryMissed', { count: digest.missedYesterday.length }));
+  if (digest.streakDays > 0) parts.push(t('digest.summaryStreak', { count: digest.streakDays }));
+  return parts.join(' ');
+};
+
+/**
+ * Lines of the digest, for the items of a list notification: today's tasks with their time, then yesterday's misses.
+ */
+export const formatDigestItems = (digest: DailyDigest, locale: Locale): { title: string; message: string }[] => {
+  const formatTime = (time: number) => new Date(time).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+  return [
+    ...digest.dueToday.map(task => ({ title: `📅 ${formatTime(task.dueAt)}`, message: task.text })),
+    ...digest.missedYesterday.map(task => ({ title: '⚠️', message: task.text }))
+  ];
+};
+
+/**
+ * The whole digest as plain text, kept as the chat message text (backups keep only the text).
+ */
+export const formatDigestText = (digest: DailyDigest, t: Translator, locale: Locale): string => {
+  const items = formatDigestItems(digest, locale).map(item => `${item.title} ${item.message}`);
+  return [`${t('digest.title')}\n${digest.summary}`, ...items].join('\n');
+};
+
+// The model's opening line, if it is short, in the right language and clean enough for the spice level
+const getAISummary = async (config: AIConfig, digest: Omit<DailyDigest, 'summary'>, settings: AppSettings, now: number): Promise<string | null> => {
+  if (!isAIConfigured(config)) return null;
+
+  const persona = resolvePersona(settings, undefined, now);
+  try {
+    const result = await generateDigestSummary(config, {
+      dueToday: digest.dueToday.map(task => task.text),
+      missedYesterday: digest.missedYesterday.map(task => task.text),
+      completedYesterday: digest.completedYesterday,
+      streakDays: digest.streakDays
+    }, persona);
+
+    const summary = cleanMessage(result.summary);
+    const taskNames = [...digest.dueToday, ...digest.missedYesterday].map(task => task.text).join(' ');
+    if (Array.from(summary).length > MAX_DIGEST_SUMMARY_LENGTH
+      || detectLanguage(summary, taskNames) !== persona.locale
+      || findBlockedWord(summary, persona.spiceLevel)) {
+      console.warn('Rejected generated digest summary:', summary);
+      return null;
+    }
+    return summary;
+  } catch (error) {
+    console.error('Error generating digest summary:', error);
+    return null;
+  }
+};
+
+/**
+ * Builds the digest for the day of `now`, opened by the persona when AI is available.
+ * Resolves to null when there is nothing to report.
+ */
+export const createDailyDigest = async (
+  config: AIConfig,
+  todos: Todo[],
+  settings: AppSettings,
+  now: number = Date.now()
+): Promise<DailyDigest | null> => {
+  const digest = collectDigest(todos, settings, now);
+  if (isEmptyDigest(digest)) return null;
+
+  const summary = await getAISummary(config, digest, settings, now)
+    ?? formatDigestSummary(digest, createTranslator(settings.language));
+  return { ...digest, summary };
+};
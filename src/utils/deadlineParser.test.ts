@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDeadline } from './deadlineParser';
+import { parseTaskInput } from './taskInput';
+
+// Friday 30 October 2026, 10:00 local time
+const NOW = new Date(2026, 9, 30, 10, 0);
+
+const at = (year: number, month: number, day: number, hour: number, minute: number = 0) =>
+  new Date(year, month - 1, day, hour, minute).getTime();
+
+describe('parseDeadline', () => {
+  it('reads a bare hour as the next time that clock comes round', () => {
+    assert.equal(parseDeadline('2h', NOW)?.dueDate, at(2026, 10, 31, 2));
+    assert.equal(parseDeadline('nộp bài 14h', NOW)?.dueDate, at(2026, 10, 30, 14));
+  });
+
+  it('reads "mai 9h" as tomorrow even before 9:00 today', () => {
+    const early = new Date(2026, 9, 30, 7, 0);
+    const parsed = parseDeadline('họp nhóm mai 9h', early);
+    assert.equal(parsed?.dueDate, at(2026, 10, 31, 9));
+    assert.equal(parsed?.text, 'họp nhóm');
+    assert.equal(parseDeadline('9h mai', early)?.dueDate, at(2026, 10, 31, 9));
+    assert.equal(parseDeadline('tối mai 8h', early)?.dueDate, at(2026, 10, 31, 20));
+  });
+
+  it('reads "thứ 6" as this Friday while it is still ahead', () => {
+    assert.equal(parseDeadline('thứ 6 15h', NOW)?.dueDate, at(2026, 10, 30, 15));
+    assert.equal(parseDeadline('thứ 6 tuần sau', NOW)?.dueDate, at(2026, 11, 6, 23, 59));
+  });
+
+  it('rolls a weekday that has already passed over to next week', () => {
+    assert.equal(parseDeadline('thứ 6 8h', NOW)?.dueDate, at(2026, 11, 6, 8));
+    assert.equal(parseDeadline('thứ 2', NOW)?.dueDate, at(2026, 11, 2, 23, 59));
+    assert.equal(parseDeadline('before Wednesday 5pm', NOW)?.dueDate, at(2026, 11, 4, 17));
+  });
+
+  it('crosses the end of the month and the year', () => {
+    assert.equal(parseDeadline('in 3 days', NOW)?.dueDate, at(2026, 11, 2, 10));
+    assert.equal(parseDeadline('cuối tháng', NOW)?.dueDate, at(2026, 10, 31, 23, 59));
+    assert.equal(parseDeadline('ngày mai', new Date(2026, 11, 31, 10))?.dueDate, at(2027, 1, 1, 23, 59));
+    assert.equal(parseDeadline('15/3', NOW)?.dueDate, at(2027, 3, 15, 23, 59));
+  });
+
+  it('rejects dates the month does not have', () => {
+    assert.equal(parseDeadline('31/2', NOW), null);
+    assert.equal(parseDeadline('31/4/2027', NOW), null);
+    assert.equal(parseDeadline('29/2/2028', NOW)?.dueDate, at(2028, 2, 29, 23, 59));
+  });
+
+  it('returns null without a date or time', () => {
+    assert.equal(parseDeadline('mua sữa', NOW), null);
+  });
+
+  const supported: Array<[string, number]> = [
+    ['8h sáng mai', at(2026, 10, 31, 8)],
+    ['tối nay', at(2026, 10, 30, 21)],
+    ['thứ 6 tuần sau', at(2026, 11, 6, 23, 59)],
+    ['in 3 days', at(2026, 11, 2, 10)],
+    ['before Friday 5pm', at(2026, 10, 30, 17)],
+    ['mai 9h', at(2026, 10, 31, 9)],
+    ['2h', at(2026, 10, 31, 2)],
+    ['cuối tháng', at(2026, 10, 31, 23, 59)],
+    ['sáng thứ 2', at(2026, 11, 2, 9)],
+    ['thứ 2 sáng', at(2026, 11, 2, 9)],
+    ['tối thứ 6 8h', at(2026, 10, 30, 20)],
+    ['hạn t3', at(2026, 11, 3, 23, 59)],
+    ['t3 9h', at(2026, 11, 3, 9)],
+    ['1.2.2027', at(2027, 2, 1, 23, 59)],
+    ['ngày 1.2', at(2027, 2, 1, 23, 59)]
+  ];
+
+  for (const [input, expected] of supported) {
+    it(`parses "${input}" and leaves no date words behind`, () => {
+      const parsed = parseDeadline(input, NOW);
+      assert.equal(parsed?.dueDate, expected);
+      assert.equal(parsed?.text, '');
+    });
+  }
+
+  const notDates = [
+    'đọc chương 1.2',
+    'release 2.3',
+    'cập nhật v2.3',
+    'phòng t3',
+    'bt3',
+    'thu 3 triệu',
+    't3 nộp báo cáo'
+  ];
+
+  for (const input of notDates) {
+    it(`does not read "${input}" as a deadline`, () => {
+      assert.equal(parseDeadline(input, NOW), null);
+    });
+  }
+});
+
+describe('parseTaskInput', () => {
+  it('takes a duration as the timebox, not as a clock time', () => {
+    const parsed = parseTaskInput('học bài 2h', NOW);
+    assert.equal(parsed.timeboxMinutes, 120);
+    assert.equal(parsed.dueDate, undefined);
+    assert.equal(parsed.text, 'học bài');
+  });
+});
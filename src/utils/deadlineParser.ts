@@ -0,0 +1,476 @@
+/**
+ * Deterministic Vietnamese/English deadline parser.
+ *
+ * Turns expressions like "tối nay", "8h sáng mai", "thứ 6 tuần sau", "in 3 days"
+ * or "before Friday 5pm" into an absolute timestamp in the local (user's) timezone.
+ * All calculations are relative to the `now` argument so results are reproducible.
+ */
+
+export interface ParsedDeadline {
+  dueDate: number;   // Absolute timestamp (ms) in the user's timezone
+  deadline: string;  // The matched expression, kept for display in Todo.deadline
+  text: string;      // Input with the deadline expression removed
+}
+
+type PartOfDay = 'morning' | 'noon' | 'afternoon' | 'evening' | 'night';
+
+interface DeadlineParts {
+  dayOffset?: number;
+  date?: { year?: number; month: number; day: number };
+  weekday?: { day: number; nextWeek: boolean };
+  nextWeek?: boolean;
+  endOfWeek?: boolean;
+  endOfMonth?: boolean;
+  relativeMs?: number;
+  relativeDays?: number;
+  hour?: number;
+  minute?: number;
+  partOfDay?: PartOfDay;
+  explicitToday?: boolean;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Letter/number boundaries that also work for Vietnamese characters
+const B = '(?<![\\p{L}\\p{N}])';
+const E = '(?![\\p{L}\\p{N}])';
+// Connectors that introduce a deadline and should be removed together with it
+const PREFIX = '(?:(?:trước|truoc|lúc|luc|vào|vao|hạn|han|deadline|before|by|at|on|due)\\s+)*';
+
+const PART_OF_DAY_WORDS: Record<string, PartOfDay> = {
+  'sáng': 'morning',
+  'morning': 'morning',
+  'trưa': 'noon',
+  'noon': 'noon',
+  'chiều': 'afternoon',
+  'afternoon': 'afternoon',
+  'tối': 'evening',
+  'evening': 'evening',
+  'đêm': 'night',
+  'night': 'night'
+};
+
+// Representative deadline time when only a part of the day is given
+const PART_OF_DAY_DEFAULTS: Record<PartOfDay, [number, number]> = {
+  morning: [9, 0],
+  noon: [12, 0],
+  afternoon: [17, 0],
+  evening: [21, 0],
+  night: [23, 0]
+};
+
+const DAY_WORDS: Record<string, number> = {
+  'hôm nay': 0,
+  'hom nay': 0,
+  'today': 0,
+  'nay': 0,
+  'ngày mai': 1,
+  'ngay mai': 1,
+  'tomorrow': 1,
+  'mai': 1,
+  'ngày mốt': 2,
+  'ngày kia': 2,
+  'mốt': 2
+};
+
+const VI_WEEKDAYS: Record<string, number> = {
+  '2': 1, 'hai': 1,
+  '3': 2, 'ba': 2,
+  '4': 3, 'tư': 3, 'bốn': 3,
+  '5': 4, 'năm': 4,
+  '6': 5, 'sáu': 5,
+  '7': 6, 'bảy': 6
+};
+
+const EN_WEEKDAYS: Record<string, number> = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+
+const UNIT_MS: Record<string, number> = {
+  minute: MINUTE,
+  hour: HOUR
+};
+
+const normalizeUnit = (unit: string): 'minute' | 'hour' | 'day' | 'week' | 'month' => {
+  const u = unit.toLowerCase();
+  if (/^(p|phút|min|mins|minutes?)$/.test(u)) return 'minute';
+  if (/^(h|g|giờ|tiếng|hrs?|hours?)$/.test(u)) return 'hour';
+  if (/^(ngày|days?)$/.test(u)) return 'day';
+  if (/^(tuần|weeks?)$/.test(u)) return 'week';
+  return 'month';
+};
+
+const PART_RE = Object.keys(PART_OF_DAY_WORDS).join('|');
+const DAY_RE = Object.keys(DAY_WORDS).sort((a, b) => b.length - a.length).map(w => w.replace(' ', '\\s+')).join('|');
+const UNIT_RE = 'phút|p|min|mins|minutes?|tiếng|giờ|h|hrs?|hours?|ngày|days?|tuần|weeks?|tháng|months?';
+
+/**
+ * Tracks which parts of the input have been consumed. Matched spans are blanked out
+ * (not removed) so that indices into the original string stay valid.
+ */
+class Scanner {
+  private rest: string;
+  private readonly spans: Array<[number, number]> = [];
+
+  constructor(private readonly input: string) {
+    this.rest = input;
+  }
+
+  match(pattern: RegExp): RegExpExecArray | null {
+    pattern.lastIndex = 0;
+    return pattern.exec(this.rest);
+  }
+
+  matchAll(pattern: RegExp): RegExpExecArray[] {
+    return Array.from(this.rest.matchAll(pattern));
+  }
+
+  consume(index: number, length: number) {
+    this.rest = this.rest.substring(0, index) + ' '.repeat(length) + this.rest.substring(index + length);
+    this.spans.push([index, index + length]);
+  }
+
+  get consumed(): boolean {
+    return this.spans.length > 0;
+  }
+
+  get remainingText(): string {
+    return this.rest.replace(/\s{2,}/g, ' ').trim();
+  }
+
+  get matchedText(): string {
+    return this.spans
+      .sort((a, b) => a[0] - b[0])
+      .map(([start, end]) => this.input.substring(start, end).trim())
+      .join(' ')
+      .replace(/^(?:(?:trước|truoc|lúc|luc|vào|vao|hạn|han|deadline|before|by|at|on|due)\s+)+/i, '');
+  }
+}
+
+const extractRelative = (scanner: Scanner, parts: DeadlineParts) => {
+  const patterns = [
+    // "in 3 days", "in an hour"
+    new RegExp(`${B}(?:in|within)\\s+(\\d+|${Object.keys(NUMBER_WORDS).join('|')})\\s*(${UNIT_RE})${E}`, 'iu'),
+    // "3 ngày nữa", "30 phút nữa"
+    new RegExp(`${B}(\\d+)\\s*(${UNIT_RE})\\s+nữa${E}`, 'iu'),
+    // "sau 2 tiếng"
+    new RegExp(`${B}sau\\s+(\\d+)\\s*(${UNIT_RE})${E}`, 'iu')
+  ];
+
+  for (const pattern of patterns) {
+    const match = scanner.match(pattern);
+    if (!match) continue;
+
+    const amountWord = match[1].toLowerCase();
+    const amount = NUMBER_WORDS[amountWord] ?? parseInt(amountWord, 10);
+    const unit = normalizeUnit(match[2]);
+
+    if (unit === 'minute' || unit === 'hour') {
+      parts.relativeMs = amount * UNIT_MS[unit];
+    } else if (unit === 'day') {
+      parts.relativeDays = amount;
+    } else if (unit === 'week') {
+      parts.relativeDays = amount * 7;
+    } else {
+      parts.relativeDays = amount * 30;
+    }
+
+    scanner.consume(match.index, match[0].length);
+    return;
+  }
+};
+
+const extractDate = (scanner: Scanner, parts: DeadlineParts) => {
+  // Vietnamese day-first dates: "15/3", "15-03-2025", "ngày 15/3", "15.3.2025"
+  const dateRe = new RegExp(`${B}${PREFIX}(ngày\\s+)?(\\d{1,2})([/.-])(\\d{1,2})(?:\\3(\\d{2,4}))?${E}`, 'giu');
+
+  for (const match of scanner.matchAll(dateRe)) {
+    const [full, dayWord, dayStr, separator, monthStr, yearStr] = match;
+    // "chương 1.2" or "bản 2.3" is a section or version; a dotted date needs a year or "ngày"
+    if (separator === '.' && !yearStr && !dayWord) continue;
+
+    const day = parseInt(dayStr, 10);
+    const month = parseInt(monthStr, 10);
+    if (day < 1 || month < 1 || month > 12) continue;
+
+    let year: number | undefined;
+    if (yearStr) {
+      year = parseInt(yearStr, 10);
+      if (year < 100) year += 2000;
+    }
+
+    // Reject days the month does not have ("31/2"); without a year, 29/2 is allowed
+    if (day > new Date(year ?? 2000, month, 0).getDate()) continue;
+
+    parts.date = { year, month, day };
+    scanner.consume(match.index ?? 0, full.length);
+    return;
+  }
+};
+
+const extractWeekday = (scanner: Scanner, parts: DeadlineParts) => {
+  const nextWeekRe = '(?:\\s+(tuần\\s+(?:sau|tới|này)|tuan\\s+sau))?';
+  // "thứ 6", "sáng thứ 2", "t3 tuần sau", with an optional part of day on either side
+  const viRe = new RegExp(
+    `${B}(${PREFIX})(?:(${PART_RE})\\s+)?(thứ\\s?|thu\\s?|t)(${Object.keys(VI_WEEKDAYS).join('|')})${E}` +
+    `(?:\\s+(${PART_RE})${E})?${nextWeekRe}`,
+    'giu'
+  );
+  for (const viMatch of scanner.matchAll(viRe)) {
+    const [full, connector, partBefore, word, dayWord, partAfter, nextWeek] = viMatch;
+    // The short "t3" and unaccented "thu 3" are ordinary words too ("phòng t3", "thu 3 triệu"),
+    // so they only count next to a connector, a part of day, "tuần sau" or a time
+    const following = viMatch.input?.substring((viMatch.index ?? 0) + full.length) ?? '';
+    const hasContext = !!connector.trim() || !!partBefore || !!partAfter || !!nextWeek
+      || /^\s+\d{1,2}\s?(?:h|g|giờ|:\d{2})/iu.test(following);
+    if (!/^thứ/i.test(word) && !hasContext) continue;
+
+    const part = partBefore || partAfter;
+    if (part) parts.partOfDay = PART_OF_DAY_WORDS[part.toLowerCase()];
+    parts.weekday = { day: VI_WEEKDAYS[dayWord.toLowerCase()], nextWeek: !!nextWeek && !/này/i.test(nextWeek) };
+    scanner.consume(viMatch.index ?? 0, full.length);
+    return;
+  }
+
+  const sundayMatch = scanner.match(new RegExp(`${B}${PREFIX}(?:chủ\\s+nhật|chu\\s+nhat|cn)${E}${nextWeekRe}`, 'iu'));
+  if (sundayMatch) {
+    const next = !!sundayMatch[1] && !/này/i.test(sundayMatch[1]);
+    parts.weekday = { day: 0, nextWeek: next };
+    scanner.consume(sundayMatch.index, sundayMatch[0].length);
+    return;
+  }
+
+  const enMatch = scanner.match(new RegExp(
+    `${B}${PREFIX}(next\\s+|this\\s+)?(${Object.keys(EN_WEEKDAYS).join('|')})${E}`, 'iu'
+  ));
+  if (enMatch) {
+    parts.weekday = {
+      day: EN_WEEKDAYS[enMatch[2].toLowerCase()],
+      nextWeek: !!enMatch[1] && /next/i.test(enMatch[1])
+    };
+    scanner.consume(enMatch.index, enMatch[0].length);
+  }
+};
+
+const extractPeriods = (scanner: Scanner, parts: DeadlineParts) => {
+  const endOfWeek = scanner.match(new RegExp(`${B}${PREFIX}(?:cuối\\s+tuần|cuoi\\s+tuan|(?:this\\s+)?weekend|end\\s+of\\s+(?:the\\s+)?week)${E}`, 'iu'));
+  if (endOfWeek) {
+    parts.endOfWeek = true;
+    scanner.consume(endOfWeek.index, endOfWeek[0].length);
+  }
+
+  const endOfMonth = scanner.match(new RegExp(`${B}${PREFIX}(?:cuối\\s+tháng|cuoi\\s+thang|end\\s+of\\s+(?:the\\s+)?month)${E}`, 'iu'));
+  if (endOfMonth) {
+    parts.endOfMonth = true;
+    scanner.consume(endOfMonth.index, endOfMonth[0].length);
+  }
+
+  if (!parts.weekday) {
+    const nextWeek = scanner.match(new RegExp(`${B}${PREFIX}(?:tuần\\s+(?:sau|tới)|tuan\\s+sau|next\\s+week)${E}`, 'iu'));
+    if (nextWeek) {
+      parts.nextWeek = true;
+      scanner.consume(nextWeek.index, nextWeek[0].length);
+    }
+  }
+};
+
+const extractTime = (scanner: Scanner, parts: DeadlineParts) => {
+  const timeRe = new RegExp(
+    // An optional day word in front ("mai 9h", "sáng mai 8h") or behind ("9h tối mai")
+    `${B}${PREFIX}(?:(?:(${PART_RE})\\s+)?(${DAY_RE})\\s+${PREFIX})?(\\d{1,2})(?:\\s?(h|g|giờ)\\s?(\\d{1,2})?(?:\\s?(?:p|phút))?|:(\\d{2}))?\\s*(am|pm)?` +
+    `(?:\\s+(${PART_RE}))?(?:\\s+(${DAY_RE}))?${E}`,
+    'giu'
+  );
+
+  for (const match of scanner.matchAll(timeRe)) {
+    const [full, leadingPart, leadingDay, hourStr, unit, unitMinutes, colonMinutes, meridiem, trailingPart, trailingDay] = match;
+    const part = trailingPart || leadingPart;
+    const dayWord = trailingDay || leadingDay;
+    // A bare number is not a time ("đọc 3 chương")
+    if (!unit && !colonMinutes && !meridiem) continue;
+
+    let hour = parseInt(hourStr, 10);
+    const minute = parseInt(unitMinutes || colonMinutes || '0', 10);
+    if (hour > 23 || minute > 59) continue;
+
+    // A part of day given with the weekday ("tối thứ 6 8h") also decides am/pm
+    const partOfDay = part ? PART_OF_DAY_WORDS[part.toLowerCase()] : parts.partOfDay;
+
+    if (meridiem) {
+      if (hour > 12) continue;
+      if (meridiem.toLowerCase() === 'pm' && hour < 12) hour += 12;
+      if (meridiem.toLowerCase() === 'am' && hour === 12) hour = 0;
+    } else if (partOfDay && hour <= 12) {
+      if ((partOfDay === 'afternoon' || partOfDay === 'evening') && hour < 12) hour += 12;
+      if (partOfDay === 'night' && hour >= 6 && hour < 12) hour += 12;
+      if (partOfDay === 'noon' && hour <= 5) hour += 12;
+      if (partOfDay === 'morning' && hour === 12) hour = 0;
+    }
+
+    parts.hour = hour;
+    parts.minute = minute;
+    if (partOfDay) parts.partOfDay = partOfDay;
+    if (dayWord) {
+      parts.dayOffset = DAY_WORDS[dayWord.toLowerCase().replace(/\s+/g, ' ')];
+      parts.explicitToday = parts.dayOffset === 0;
+    }
+
+    scanner.consume(match.index ?? 0, full.length);
+    return;
+  }
+};
+
+const extractDayWords = (scanner: Scanner, parts: DeadlineParts) => {
+  // "tonight" / "this evening" / "sáng mai" / "tối nay"
+  const tonight = scanner.match(new RegExp(`${B}${PREFIX}(?:tonight|this\\s+(morning|afternoon|evening))${E}`, 'iu'));
+  if (tonight) {
+    parts.partOfDay = parts.partOfDay || (tonight[1] ? PART_OF_DAY_WORDS[tonight[1].toLowerCase()] : 'evening');
+    parts.dayOffset = 0;
+    parts.explicitToday = true;
+    scanner.consume(tonight.index, tonight[0].length);
+  }
+
+  const partDay = scanner.match(new RegExp(`${B}${PREFIX}(${PART_RE})\\s+(${DAY_RE})${E}`, 'iu'));
+  if (partDay) {
+    parts.partOfDay = parts.partOfDay || PART_OF_DAY_WORDS[partDay[1].toLowerCase()];
+    parts.dayOffset = DAY_WORDS[partDay[2].toLowerCase().replace(/\s+/g, ' ')];
+    parts.explicitToday = parts.dayOffset === 0;
+    scanner.consume(partDay.index, partDay[0].length);
+  }
+
+  // "tomorrow morning"
+  const dayPart = scanner.match(new RegExp(`${B}${PREFIX}(tomorrow|today)\\s+(morning|afternoon|evening|night)${E}`, 'iu'));
+  if (dayPart) {
+    parts.dayOffset = DAY_WORDS[dayPart[1].toLowerCase()];
+    parts.partOfDay = parts.partOfDay || PART_OF_DAY_WORDS[dayPart[2].toLowerCase()];
+    parts.explicitToday = parts.dayOffset === 0;
+    scanner.consume(dayPart.index, dayPart[0].length);
+  }
+
+  if (parts.dayOffset === undefined) {
+    // Bare "mai"/"nay" are too ambiguous on their own (names, "hôm nay" is handled above)
+    const dayOnly = scanner.match(new RegExp(`${B}${PREFIX}(hôm\\s+nay|hom\\s+nay|today|ngày\\s+mai|ngay\\s+mai|tomorrow|ngày\\s+mốt|ngày\\s+kia|mốt)${E}`, 'iu'));
+    if (dayOnly) {
+      parts.dayOffset = DAY_WORDS[dayOnly[1].toLowerCase().replace(/\s+/g, ' ')];
+      parts.explicitToday = parts.dayOffset === 0;
+      scanner.consume(dayOnly.index, dayOnly[0].length);
+    }
+  }
+};
+
+const startOfDay = (date: Date): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Monday-based week, as used in Vietnam
+const daysSinceMonday = (date: Date): number => (date.getDay() + 6) % 7;
+
+const resolve = (parts: DeadlineParts, now: Date): number | null => {
+  if (parts.relativeMs !== undefined) {
+    return now.getTime() + parts.relativeMs;
+  }
+
+  const today = startOfDay(now);
+  let day: Date | undefined;
+
+  if (parts.relativeDays !== undefined) {
+    day = addDays(today, parts.relativeDays);
+    if (parts.hour === undefined && !parts.partOfDay) {
+      // "in 3 days" keeps the current time of day
+      return addDays(now, parts.relativeDays).getTime();
+    }
+  } else if (parts.date) {
+    const year = parts.date.year ?? now.getFullYear();
+    day = new Date(year, parts.date.month - 1, parts.date.day);
+    if (!parts.date.year && day < today) {
+      day = new Date(year + 1, parts.date.month - 1, parts.date.day);
+    }
+  } else if (parts.weekday) {
+    if (parts.weekday.nextWeek) {
+      const nextMonday = addDays(today, 7 - daysSinceMonday(today));
+      day = addDays(nextMonday, (parts.weekday.day + 6) % 7);
+    } else {
+      day = addDays(today, (parts.weekday.day - today.getDay() + 7) % 7);
+    }
+  } else if (parts.endOfWeek) {
+    day = addDays(today, 6 - daysSinceMonday(today));
+  } else if (parts.endOfMonth) {
+    day = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+  } else if (parts.nextWeek) {
+    day = addDays(today, 7 - daysSinceMonday(today));
+  } else if (parts.dayOffset !== undefined) {
+    day = addDays(today, parts.dayOffset);
+  }
+
+  const hasTime = parts.hour !== undefined || parts.partOfDay !== undefined;
+  if (!day && !hasTime) {
+    return null;
+  }
+
+  let hour: number;
+  let minute: number;
+  if (parts.hour !== undefined) {
+    hour = parts.hour;
+    minute = parts.minute ?? 0;
+  } else if (parts.partOfDay) {
+    [hour, minute] = PART_OF_DAY_DEFAULTS[parts.partOfDay];
+  } else {
+    // A day without a time means "by the end of that day"
+    hour = 23;
+    minute = 59;
+  }
+
+  const base = day || today;
+  let result = new Date(base.getFullYear(), base.getMonth(), base.getDate(), hour, minute);
+
+  // A time alone ("lúc 8h") that has already passed today means tomorrow
+  if (!day && !parts.explicitToday && result.getTime() <= now.getTime()) {
+    result = addDays(result, 1);
+  }
+  // A plain weekday that is today but already past rolls over to next week
+  if (parts.weekday && !parts.weekday.nextWeek && result.getTime() <= now.getTime()) {
+    result = addDays(result, 7);
+  }
+
+  return result.getTime();
+};
+
+/**
+ * Parses the first deadline expression found in `input`.
+ * Returns null when the input contains no recognizable date or time.
+ */
+export const parseDeadline = (input: string, now: Date = new Date()): ParsedDeadline | null => {
+  if (!input || !input.trim()) return null;
+
+  const scanner = new Scanner(input);
+  const parts: DeadlineParts = {};
+
+  extractRelative(scanner, parts);
+  extractDate(scanner, parts);
+  extractWeekday(scanner, parts);
+  extractPeriods(scanner, parts);
+  extractTime(scanner, parts);
+  extractDayWords(scanner, parts);
+
+  if (!scanner.consumed) return null;
+
+  const dueDate = resolve(parts, now);
+  if (dueDate === null) return null;
+
+  return {
+    dueDate,
+    deadline: scanner.matchedText,
+    text: scanner.remainingText
+  };
+};
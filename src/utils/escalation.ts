@@ -0,0 +1,97 @@
+import { Todo, AppSettings } from '../types/shared';
+import { getExpiryTime, formatDuration } from './timebox';
+import { getPriority, getPriorityIntervalFactor } from './priority';
+import { Translator } from '../localization';
+
+const MINUTE = 60 * 1000;
+
+// Escalation ladder stored on Todo.escalationLevel; levels above EXPIRED are follow-ups
+export const ESCALATION_NONE = 0;
+export const ESCALATION_GENTLE = 1;   // Friendly heads-up before the deadline
+export const ESCALATION_EXPIRED = 2;  // The troll message at expiry
+export const MAX_ESCALATION_LEVEL = 5;
+
+/**
+ * Current level of a task. Tasks expired before levels existed count as EXPIRED.
+ */
+export const getEscalationLevel = (todo: Todo): number => {
+  return todo.escalationLevel ?? (todo.timeExpired ? ESCALATION_EXPIRED : ESCALATION_NONE);
+};
+
+/**
+ * Returns the escalation level that should fire now, or null if nothing is due.
+ * Follow-ups wait `escalationIntervalsMinutes[n]` after the previous notification;
+ * the last interval repeats until MAX_ESCALATION_LEVEL is reached.
+ * Both the lead time and the gaps are scaled by the task's priority.
+ * An expired recurring instance gets no follow-ups once its next occurrence exists.
+ */
+export const getDueEscalation = (todo: Todo, settings: AppSettings, now: number = Date.now()): number | null => {
+  if (todo.completed || todo.nextOccurrenceId) return null;
+
+  const level = getEscalationLevel(todo);
+  const expiry = getExpiryTime(todo, settings, now);
+  const factor = getPriorityIntervalFactor(todo);
+
+  if (now < expiry) {
+    const lead = settings.reminderLeadMinutes * MINUTE / factor;
+    // Skip the heads-up for tasks created inside the lead window, it would fire right away
+    const created = todo.created || now;
+    if (level < ESCALATION_GENTLE && lead > 0 && now >= expiry - lead && expiry - created > lead) {
+      return ESCALATION_GENTLE;
+    }
+    return null;
+  }
+
+  if (level < ESCALATION_EXPIRED) {
+    return ESCALATION_EXPIRED;
+  }
+
+  const intervals = settings.escalationIntervalsMinutes;
+  if (level >= MAX_ESCALATION_LEVEL || intervals.length === 0) {
+    return null;
+  }
+
+  const interval = intervals[Math.min(level - ESCALATION_EXPIRED, intervals.length - 1)] * MINUTE * factor;
+  const lastNotified = todo.notifiedAt ?? expiry;
+  return now - lastNotified >= interval ? level + 1 : null;
+};
+
+/**
+ * Level used to pick the tone of a reminder: urgent (P1) tasks are treated one step
+ * harsher once expired, low priority (P4) follow-ups one step softer.
+ */
+export const getToneLevel = (todo: Todo, level: number): number => {
+  if (level < ESCALATION_EXPIRED) return level;
+  const priority = getPriority(todo);
+  if (priority === 1) return Math.min(level + 1, MAX_ESCALATION_LEVEL);
+  if (priority === 4 && level > ESCALATION_EXPIRED) return level - 1;
+  return level;
+};
+
+/**
+ * How long the task has been past its expiry, 0 if it is not overdue yet.
+ */
+export const getOverdueTime = (todo: Todo, settings: AppSettings, now: number = Date.now()): number => {
+  return Math.max(0, now - getExpiryTime(todo, settings, now));
+};
+
+/**
+ * Offline message for a level, used when AI is off or fails. Follow-ups mention how late the task is.
+ */
+export const formatFallbackReminder = (
+  todo: Todo,
+  level: number,
+  overdueMs: number,
+  expiredMessages: string[],
+  t: Translator
+): string => {
+  if (level === ESCALATION_GENTLE) {
+    return t('reminder.gentle', { task: todo.text });
+  }
+  const message = expiredMessages[Math.floor(Math.random() * expiredMessages.length)];
+  const urgent = getPriority(todo) === 1 ? t('reminder.urgent') : '';
+  if (level > ESCALATION_EXPIRED) {
+    return urgent + t('reminder.overdue', { task: todo.text, duration: formatDuration(overdueMs), message });
+  }
+  return `${urgent}${message}`;
+};
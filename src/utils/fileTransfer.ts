@@ -0,0 +1,26 @@
+/**
+ * Saves `content` as a file through the browser's download flow (popup only).
+ */
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * File name such as "tasktroll-2025-03-12.csv", dated in local time.
+ */
+export const getExportFileName = (extension: string, now: Date = new Date()): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  return `tasktroll-${date}.${extension}`;
+};
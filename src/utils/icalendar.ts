@@ -0,0 +1,362 @@
+import { Todo, AppSettings, RecurrenceRule, TaskPriority } from '../types/shared';
+import { createTranslator } from '../localization';
+import { getNextOccurrence } from './recurrence';
+
+/**
+ * iCalendar (RFC 5545) export and import, so deadlines can round-trip with
+ * Google Calendar, Outlook and Thunderbird without a live integration.
+ */
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Tasks exported by TaskTroll keep their id in the UID, so re-importing merges instead of duplicating
+const UID_SUFFIX = '@tasktroll';
+
+// Google Calendar only imports events, Thunderbird and Outlook also understand to-dos
+export type CalendarComponent = 'VEVENT' | 'VTODO';
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// iCalendar PRIORITY runs 1 (highest) to 9 (lowest), 0 meaning undefined
+const ICS_PRIORITIES: Record<TaskPriority, number> = { 1: 1, 2: 3, 3: 5, 4: 9 };
+
+const parsePriorityValue = (value?: string): TaskPriority | undefined => {
+  const priority = parseInt(value || '', 10);
+  if (!(priority > 0)) return undefined;
+  return priority <= 2 ? 1 : priority <= 4 ? 2 : priority <= 6 ? 3 : 4;
+};
+
+export interface CalendarImportResult {
+  todos: Todo[];
+  skipped: number;   // Cancelled, finished or already past entries
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// 20250312T100000Z
+const formatUTC = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Lines longer than 75 octets are folded; never split a multi-byte character
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;  // Continuation lines start with a space
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatRecurrence = (rule: RecurrenceRule): string => {
+  const interval = rule.interval > 1 ? `;INTERVAL=${rule.interval}` : '';
+  switch (rule.frequency) {
+    case 'hourly':
+      return `FREQ=HOURLY${interval}`;
+    case 'daily':
+      return `FREQ=DAILY${interval}`;
+    case 'weekdays':
+      return 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+    case 'weekly': {
+      const days = rule.byWeekday && rule.byWeekday.length > 0
+        ? `;BYDAY=${rule.byWeekday.map(day => WEEKDAY_CODES[day]).join(',')}`
+        : '';
+      return `FREQ=WEEKLY${interval}${days}`;
+    }
+    case 'monthly':
+      return `FREQ=MONTHLY${interval}${rule.byMonthDay ? `;BYMONTHDAY=${rule.byMonthDay}` : ''}`;
+  }
+};
+
+/**
+ * Exports open tasks that have a due date. Events end at the deadline and start a
+ * timebox earlier; the reminder alarm mirrors `settings.reminderLeadMinutes`.
+ */
+export const exportTasksICS = (
+  todos: Todo[],
+  settings: AppSettings,
+  component: CalendarComponent = 'VEVENT',
+  now: number = Date.now()
+): string => {
+  const t = createTranslator(settings.language);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TaskTroll//TaskTroll//VI',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+
+  for (const todo of todos) {
+    if (todo.completed || !todo.dueDate) continue;
+
+    lines.push(
+      `BEGIN:${component}`,
+      `UID:${todo.id}${UID_SUFFIX}`,
+      `DTSTAMP:${formatUTC(now)}`,
+      `CREATED:${formatUTC(todo.created)}`,
+      `LAST-MODIFIED:${formatUTC(todo.updatedAt || todo.created)}`,
+      `SUMMARY:${escapeText(todo.title || todo.text)}`
+    );
+
+    if (component === 'VEVENT') {
+      const start = todo.dueDate - (todo.timeboxMinutes || 0) * MINUTE;
+      lines.push(`DTSTART:${formatUTC(start)}`, `DTEND:${formatUTC(todo.dueDate)}`);
+    } else {
+      lines.push(`DUE:${formatUTC(todo.dueDate)}`, 'STATUS:NEEDS-ACTION');
+      if (todo.timeboxMinutes) {
+        lines.push(`DTSTART:${formatUTC(todo.dueDate - todo.timeboxMinutes * MINUTE)}`);
+      }
+    }
+
+    if (todo.priority) {
+      lines.push(`PRIORITY:${ICS_PRIORITIES[todo.priority]}`);
+    }
+    // Category first, so importing it back restores the category as well as the tags
+    const categories = Array.from(new Set([
+      ...(todo.category && todo.category !== 'general' ? [todo.category] : []),
+      ...(todo.tags || [])
+    ]));
+    if (categories.length > 0) {
+      lines.push(`CATEGORIES:${categories.map(escapeText).join(',')}`);
+    }
+    if (todo.deadline) {
+      lines.push(`DESCRIPTION:${escapeText(t('export.calendarDeadline', { deadline: todo.deadline }))}`);
+    }
+    if (todo.recurrence) {
+      lines.push(`RRULE:${formatRecurrence(todo.recurrence)}`);
+    }
+    if (settings.reminderLeadMinutes > 0) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(todo.title || todo.text)}`,
+        `TRIGGER;RELATED=END:-PT${settings.reminderLeadMinutes}M`,
+        'END:VALARM'
+      );
+    }
+
+    lines.push(`END:${component}`);
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+interface CalendarProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// "DTSTART;TZID=Europe/Paris:20250312T100000" -> name, params and value
+const parseProperty = (line: string): CalendarProperty | null => {
+  const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  if (colon <= 0) return null;
+
+  const [name, ...rawParams] = line.substring(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, value = ''] = param.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.substring(colon + 1) };
+};
+
+/**
+ * Parses DATE and DATE-TIME values. UTC ("Z") times are exact; floating and TZID times
+ * are read as local time, which matches the usual case of exporting from the same machine.
+ * All-day dates become the end of that day.
+ */
+const parseDate = (property?: CalendarProperty): number | undefined => {
+  if (!property) return undefined;
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const parts = [parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10)] as const;
+  if (hours === undefined) {
+    return new Date(...parts, 23, 59).getTime();
+  }
+  const time = [parseInt(hours, 10), parseInt(minutes, 10), parseInt(seconds || '0', 10)] as const;
+  return utc ? Date.UTC(...parts, ...time) : new Date(...parts, ...time).getTime();
+};
+
+// "P1DT2H30M" / "-PT15M" -> milliseconds
+const parseDuration = (value?: string): number | undefined => {
+  const match = value?.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map(part => part || '0');
+  const total = (parseInt(weeks, 10) * 7 + parseInt(days, 10)) * DAY +
+    parseInt(hours, 10) * 60 * MINUTE + parseInt(minutes, 10) * MINUTE + parseInt(seconds, 10) * 1000;
+  return sign === '-' ? -total : total;
+};
+
+// Maps the RRULE subset TaskTroll can repeat; anything else imports as a one-off task
+const parseRecurrenceRule = (value: string, dueDate?: number): RecurrenceRule | undefined => {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, partValue] = part.split('=');
+    if (key && partValue) parts[key.toUpperCase()] = partValue.toUpperCase();
+  }
+
+  const interval = Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1);
+  const due = dueDate ? new Date(dueDate) : undefined;
+  const time = due ? { hour: due.getHours(), minute: due.getMinutes() } : {};
+  // Ordinal BYDAY values such as "1MO" are not supported and are dropped
+  const byWeekday = (parts.BYDAY || '').split(',')
+    .map(code => WEEKDAY_CODES.indexOf(code))
+    .filter(day => day >= 0)
+    .sort((a, b) => a - b);
+
+  switch (parts.FREQ) {
+    case 'HOURLY':
+      return { frequency: 'hourly', interval };
+    case 'DAILY':
+      return { frequency: 'daily', interval, ...time };
+    case 'WEEKLY':
+      if (interval === 1 && byWeekday.join(',') === '1,2,3,4,5') {
+        return { frequency: 'weekdays', interval: 1, ...time };
+      }
+      return {
+        frequency: 'weekly',
+        interval,
+        byWeekday: byWeekday.length > 0 ? byWeekday : due ? [due.getDay()] : undefined,
+        ...time
+      };
+    case 'MONTHLY': {
+      const byMonthDay = parseInt(parts.BYMONTHDAY || '', 10);
+      return {
+        frequency: 'monthly',
+        interval,
+        byMonthDay: byMonthDay > 0 ? byMonthDay : due?.getDate(),
+        ...time
+      };
+    }
+    default:
+      return undefined;
+  }
+};
+
+// Stable id for entries from other calendars, so importing the same file twice does not duplicate them
+const hashUid = (uid: string): string => {
+  let hash = 0;
+  for (let i = 0; i < uid.length; i++) {
+    hash = (hash * 31 + uid.charCodeAt(i)) | 0;
+  }
+  return `ics-${(hash >>> 0).toString(36)}`;
+};
+
+const toTodo = (
+  component: CalendarComponent,
+  properties: Map<string, CalendarProperty>,
+  now: number
+): Todo | null => {
+  const summary = unescapeText(properties.get('SUMMARY')?.value || '').trim();
+  const status = properties.get('STATUS')?.value.toUpperCase();
+  if (!summary || status === 'CANCELLED' || status === 'COMPLETED') return null;
+
+  const start = parseDate(properties.get('DTSTART'));
+  const duration = parseDuration(properties.get('DURATION')?.value);
+  const end = component === 'VTODO'
+    ? parseDate(properties.get('DUE'))
+    : parseDate(properties.get('DTEND'));
+  const dueDate = end ?? (start !== undefined && duration !== undefined ? start + duration : start);
+
+  const rrule = properties.get('RRULE');
+  const recurrence = rrule ? parseRecurrenceRule(rrule.value, dueDate) : undefined;
+  // Past one-off events are history, not tasks
+  if (component === 'VEVENT' && !recurrence && (dueDate === undefined || dueDate < now)) return null;
+
+  const uid = properties.get('UID')?.value || `${summary}:${dueDate ?? ''}`;
+  const id = uid.endsWith(UID_SUFFIX) ? uid.slice(0, -UID_SUFFIX.length) : hashUid(uid);
+  const categories = (properties.get('CATEGORIES')?.value.split(/(?<!\\),/) || [])
+    .map(value => unescapeText(value).trim().toLowerCase())
+    .filter(Boolean);
+  const [category] = categories;
+  const timebox = start !== undefined && dueDate !== undefined ? Math.round((dueDate - start) / MINUTE) : 0;
+  // A series that started in the past is due at its next occurrence, at the original time of day
+  const nextDueDate = recurrence && dueDate !== undefined && dueDate < now
+    ? getNextOccurrence(recurrence, now, dueDate)
+    : dueDate;
+
+  return {
+    id,
+    text: summary,
+    title: summary,
+    created: parseDate(properties.get('CREATED')) || now,
+    completed: false,
+    dueDate: nextDueDate,
+    category: category || 'general',
+    tags: categories.length > 0 ? categories.map(name => name.replace(/\s+/g, '-')) : undefined,
+    priority: parsePriorityValue(properties.get('PRIORITY')?.value),
+    // Only keep durations that look like a timebox, not multi-day events
+    timeboxMinutes: timebox > 0 && timebox * MINUTE < DAY ? timebox : undefined,
+    recurrence
+  };
+};
+
+/**
+ * Turns the VEVENT and VTODO entries of an .ics file into tasks.
+ * Cancelled, completed and past one-off events are skipped.
+ */
+export const parseICS = (text: string, now: number = Date.now()): CalendarImportResult => {
+  // Unfold continuation lines before reading properties
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const todos: Todo[] = [];
+  let skipped = 0;
+  let current: { component: CalendarComponent; properties: Map<string, CalendarProperty> } | null = null;
+  let nested = 0;  // VALARM and friends inside the current entry
+
+  for (const line of lines) {
+    const property = parseProperty(line.trim());
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      const name = property.value.toUpperCase();
+      if (current) {
+        nested++;
+      } else if (name === 'VEVENT' || name === 'VTODO') {
+        current = { component: name, properties: new Map() };
+      }
+    } else if (property.name === 'END' && current) {
+      if (nested > 0) {
+        nested--;
+      } else {
+        const todo = toTodo(current.component, current.properties, now);
+        if (todo) {
+          todos.push(todo);
+        } else {
+          skipped++;
+        }
+        current = null;
+      }
+    } else if (current && nested === 0 && !current.properties.has(property.name)) {
+      current.properties.set(property.name, property);
+    }
+  }
+
+  console.log(`Parsed ${todos.length} tasks from calendar, skipped ${skipped}`);
+  return { todos, skipped };
+};
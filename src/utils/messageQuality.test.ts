@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MessageIssue, MessageRules, checkMessage, filterMessages, getSpiceLevel } from './messageQuality';
+import { DEFAULT_SETTINGS } from './settings';
+import { AppSettings } from '../types/shared';
+
+const at = (year: number, month: number, day: number, hour: number, minute: number = 0) =>
+  new Date(year, month - 1, day, hour, minute).getTime();
+
+const RULES: MessageRules = { task: 'nộp báo cáo', locale: 'vi', spiceLevel: 'mild' };
+
+describe('checkMessage', () => {
+  const cases: Array<[string, string, Partial<MessageRules>, MessageIssue | null]> = [
+    ['passes a short Vietnamese reminder about the task', 'Nộp báo cáo đi bạn ơi, sếp đang chờ!', {}, null],
+    ['rejects an empty message', '', {}, 'empty'],
+    ['rejects a leaked schema key', 'blameMessages: Nộp báo cáo đi bạn ơi', {}, 'leakedJson'],
+    ['rejects a JSON fragment', '"Nộp báo cáo đi bạn ơi"]', {}, 'leakedJson'],
+    ['rejects a message over the length limit', `Nộp báo cáo đi ${'nhanh lên '.repeat(10)}`, {}, 'tooLong'],
+    ['rejects English when Vietnamese is asked for', 'Hurry up and finish nộp báo cáo already', {}, 'language'],
+    ['rejects Vietnamese when English is asked for', 'Nộp báo cáo đi bạn ơi, trễ rồi', { locale: 'en', task: 'report' }, 'language'],
+    ['counts the task name in the user\'s language as neutral', 'Finish nộp báo cáo before lunch', { locale: 'en' }, null],
+    ['rejects a message that never names the task', 'Làm việc đi bạn ơi, đừng lười nữa', {}, 'missingTask'],
+    ['lets mild swearing through at the mild level', 'Nộp báo cáo đi, vãi thật', {}, null],
+    ['blocks mild swearing at the wholesome level', 'Nộp báo cáo đi, vãi thật', { spiceLevel: 'wholesome' }, 'profanity'],
+    ['blocks strong swearing at the mild level', 'Nộp báo cáo đi đm', {}, 'profanity'],
+    ['lets anything through at the spicy level', 'Nộp báo cáo đi đm', { spiceLevel: 'spicy' }, null]
+  ];
+
+  for (const [name, message, rules, expected] of cases) {
+    it(name, () => {
+      assert.equal(checkMessage(message, { ...RULES, ...rules }), expected);
+    });
+  }
+});
+
+describe('filterMessages', () => {
+  it('strips wrapping quotes and keeps only the messages that pass', () => {
+    const kept = filterMessages(['"Nộp báo cáo đi bạn ơi!"', '{"blameMessages": []}', 'Làm việc đi bạn ơi'], RULES);
+    assert.deepEqual(kept, ['Nộp báo cáo đi bạn ơi!']);
+  });
+});
+
+describe('getSpiceLevel', () => {
+  // Meeting-safe from Friday 22:00 until Saturday 06:00
+  const settings: AppSettings = {
+    ...DEFAULT_SETTINGS,
+    spiceLevel: 'spicy',
+    meetingSafe: { enabled: true, start: '22:00', end: '06:00', days: [5] }
+  };
+
+  it('is wholesome inside meeting-safe hours, past midnight included', () => {
+    assert.equal(getSpiceLevel(settings, at(2026, 10, 30, 23)), 'wholesome');
+    assert.equal(getSpiceLevel(settings, at(2026, 10, 31, 2)), 'wholesome');
+  });
+
+  it('is the chosen level outside them', () => {
+    assert.equal(getSpiceLevel(settings, at(2026, 10, 30, 21)), 'spicy');
+    assert.equal(getSpiceLevel(settings, at(2026, 10, 31, 6)), 'spicy');
+    assert.equal(getSpiceLevel(settings, at(2026, 10, 31, 23)), 'spicy');
+  });
+
+  it('ignores the window while meeting-safe mode is off', () => {
+    const off = { ...settings, meetingSafe: { ...settings.meetingSafe, enabled: false } };
+    assert.equal(getSpiceLevel(off, at(2026, 10, 30, 23)), 'spicy');
+  });
+});
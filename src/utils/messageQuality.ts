@@ -0,0 +1,141 @@
+import { AppSettings, Locale, SpiceLevel } from '../types/shared';
+import { MAX_BLAME_MESSAGE_LENGTH } from '../prompts/taskAnalysis';
+import { isInTimeWindow } from './schedule';
+
+// From gentlest to roughest; the settings picker lists them in this order
+export const SPICE_LEVELS: SpiceLevel[] = ['wholesome', 'mild', 'spicy'];
+
+export const DEFAULT_SPICE_LEVEL: SpiceLevel = 'mild';
+
+/**
+ * The spice level in force at `now`: wholesome during meeting-safe hours, the chosen level otherwise.
+ */
+export const getSpiceLevel = (settings: AppSettings, now: number = Date.now()): SpiceLevel => {
+  return settings.meetingSafe.enabled && isInTimeWindow(settings.meetingSafe, now) ? 'wholesome' : settings.spiceLevel;
+};
+
+// Words a "mild" message may still use. A trailing "*" also matches longer words ("freaking" for "freak*")
+const MILD_WORDS = [
+  'damn', 'hell', 'crap*', 'suck*', 'freak*', 'bloody', 'piss*',
+  'vãi', 'vl', 'vler', 'chết tiệt', 'khốn', 'mẹ nó', 'đếch', 'đít'
+];
+
+const STRONG_WORDS = [
+  'fuck*', 'shit*', 'bitch*', 'bastard*', 'asshole*', 'dick*', 'wtf', 'motherf*',
+  'đm', 'dm', 'đcm', 'dcm', 'đmm', 'cmm', 'vcl', 'vkl', 'vcc', 'clgt', 'địt', 'lồn', 'cặc', 'buồi', 'đụ', 'đéo'
+];
+
+const BLOCKED_WORDS: Record<SpiceLevel, string[]> = {
+  wholesome: [...MILD_WORDS, ...STRONG_WORDS],
+  mild: STRONG_WORDS,
+  spicy: []
+};
+
+// Schema keys and JSON punctuation that mean the model's envelope leaked into a message
+const LEAKED_KEYS = ['blameMessages', 'detectedTasks', 'subtasks'];
+const JSON_FRAGMENT = /^[[{]|[\]}]$|"\s*:|\\"/;
+
+// Letters only Vietnamese uses among the supported languages (tone marks and ă â đ ê ô ơ ư)
+const VIETNAMESE_LETTERS = new RegExp('[ăâđêôơưàáạảãầấậẩẫằắặẳẵèéẹẻẽềếệểễìíịỉĩòóọỏõồốộổỗờớợởỡùúụủũừứựửữỳýỵỷỹ]', 'i');
+
+const WORD_PATTERN = new RegExp('[\\p{L}\\p{N}]+', 'gu');
+
+export type MessageIssue = 'empty' | 'leakedJson' | 'tooLong' | 'language' | 'missingTask' | 'profanity';
+
+export interface MessageRules {
+  task: string;            // Text of the task the message must talk about
+  locale: Locale;          // Language the message has to be written in
+  spiceLevel: SpiceLevel;  // Decides which words are filtered out
+}
+
+// "Nộp BÁO CÁO" -> "nop bao cao", so a task is found however the model wrote it
+const normalize = (text: string) => text
+  .toLowerCase()
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/đ/g, 'd');
+
+const getWords = (text: string) => text.normalize('NFC').toLowerCase().match(WORD_PATTERN) || [];
+
+/**
+ * Guesses the language of a message: Vietnamese when enough words carry Vietnamese letters,
+ * English when the words are plain ASCII, null for anything else (or no words at all).
+ * Words from `ignore` (e.g. the task name, which keeps the user's language) are skipped.
+ */
+export const detectLanguage = (text: string, ignore: string = ''): Locale | null => {
+  const ignored = new Set(getWords(ignore).map(normalize));
+  const words = getWords(text).filter(word => !ignored.has(normalize(word)) && !/^\d+$/.test(word));
+  if (words.length === 0) return null;
+
+  const vietnamese = words.filter(word => VIETNAMESE_LETTERS.test(word)).length;
+  if (vietnamese / words.length >= 0.3) return 'vi';
+
+  const ascii = words.filter(word => /^[a-z0-9]+$/.test(word)).length;
+  return ascii / words.length >= 0.7 ? 'en' : null;
+};
+
+/**
+ * True when a message names the task: the whole task text, or at least half of its words.
+ */
+export const mentionsTask = (message: string, task: string): boolean => {
+  const normalizedMessage = ` ${getWords(message).map(normalize).join(' ')} `;
+  const taskWords = Array.from(new Set(getWords(task).map(normalize)));
+  if (taskWords.length === 0) return true;
+  if (normalizedMessage.includes(` ${taskWords.join(' ')} `)) return true;
+
+  const found = taskWords.filter(word => normalizedMessage.includes(` ${word} `)).length;
+  return found >= Math.ceil(taskWords.length / 2);
+};
+
+const toPattern = (word: string) => {
+  const escaped = word.replace(/\*$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return `${escaped}${word.endsWith('*') ? '[\\p{L}]*' : ''}`;
+};
+
+/**
+ * The first word in `message` that `spiceLevel` does not allow, or null.
+ */
+export const findBlockedWord = (message: string, spiceLevel: SpiceLevel): string | null => {
+  const words = BLOCKED_WORDS[spiceLevel];
+  if (words.length === 0) return null;
+
+  const pattern = new RegExp(`(?:^|[^\\p{L}\\p{N}])(${words.map(toPattern).join('|')})(?=[^\\p{L}\\p{N}]|$)`, 'iu');
+  const match = message.match(pattern);
+  return match ? match[1] : null;
+};
+
+/**
+ * Strips wrapping quotes and control characters the model sometimes adds.
+ */
+export const cleanMessage = (message: string): string => message
+  .replace(/[\x00-\x1F\x7F-\x9F]/g, '')
+  .trim()
+  .replace(/^["'“”]+|["'“”]+$/g, '')
+  .trim();
+
+/**
+ * Why a generated reminder cannot be shown, or null when it passes every rule.
+ */
+export const checkMessage = (message: string, rules: MessageRules): MessageIssue | null => {
+  if (!message) return 'empty';
+  if (LEAKED_KEYS.some(key => message.includes(key)) || JSON_FRAGMENT.test(message)) return 'leakedJson';
+  // Counted in code points so an emoji is one character, as the model counts it
+  if (Array.from(message).length > MAX_BLAME_MESSAGE_LENGTH) return 'tooLong';
+  if (detectLanguage(message, rules.task) !== rules.locale) return 'language';
+  if (!mentionsTask(message, rules.task)) return 'missingTask';
+  if (findBlockedWord(message, rules.spiceLevel)) return 'profanity';
+  return null;
+};
+
+/**
+ * Cleans the model's messages and keeps only those that pass checkMessage.
+ */
+export const filterMessages = (messages: string[], rules: MessageRules): string[] => {
+  return messages.map(cleanMessage).filter(message => {
+    const issue = checkMessage(message, rules);
+    if (issue) {
+      console.warn(`Rejected generated message (${issue}):`, message);
+    }
+    return !issue;
+  });
+};
@@ -0,0 +1,65 @@
+import { Todo, TaskPriority, AppSettings } from '../types/shared';
+import { getExpiryTime } from './timebox';
+
+// Tasks without an explicit priority are treated as normal
+export const DEFAULT_PRIORITY: TaskPriority = 3;
+
+export const PRIORITIES: TaskPriority[] = [1, 2, 3, 4];
+
+export const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  1: '#f87171',
+  2: '#fb923c',
+  3: '#a5b4fc',
+  4: '#94a3b8'
+};
+
+// Multiplies the reminder lead time and follow-up gaps: P1 is nagged twice as often, P4 less
+const PRIORITY_INTERVAL_FACTORS: Record<TaskPriority, number> = {
+  1: 0.5,
+  2: 0.75,
+  3: 1,
+  4: 1.5
+};
+
+// "!1" or "!p1" anywhere in the input
+const PRIORITY_PATTERN = /(^|\s)!p?([1-4])(?=\s|$)/i;
+
+export const isTaskPriority = (value: unknown): value is TaskPriority =>
+  typeof value === 'number' && PRIORITIES.includes(value as TaskPriority);
+
+export const getPriority = (todo: Todo): TaskPriority => todo.priority ?? DEFAULT_PRIORITY;
+
+export const formatPriority = (priority: TaskPriority): string => `P${priority}`;
+
+export const getPriorityIntervalFactor = (todo: Todo): number => PRIORITY_INTERVAL_FACTORS[getPriority(todo)];
+
+/**
+ * Extracts a priority marker such as "!1" from chat input, e.g. "add !1 nộp báo cáo".
+ */
+export const parsePriority = (input: string): { text: string; priority?: TaskPriority } => {
+  const match = input.match(PRIORITY_PATTERN);
+  if (!match) return { text: input };
+
+  const text = (input.substring(0, match.index) + match[1] + input.substring((match.index ?? 0) + match[0].length))
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+  return { text, priority: parseInt(match[2], 10) as TaskPriority };
+};
+
+/**
+ * Open tasks first, then by priority, then the one expiring soonest.
+ * Completed tasks keep their insertion order at the end.
+ */
+export const sortTasks = (todos: Todo[], settings: AppSettings, now: number = Date.now()): Todo[] => {
+  return todos
+    .map((todo, index) => ({ todo, index }))
+    .sort((a, b) => {
+      if (a.todo.completed !== b.todo.completed) return a.todo.completed ? 1 : -1;
+      if (a.todo.completed) return a.index - b.index;
+      const byPriority = getPriority(a.todo) - getPriority(b.todo);
+      if (byPriority !== 0) return byPriority;
+      const byExpiry = getExpiryTime(a.todo, settings, now) - getExpiryTime(b.todo, settings, now);
+      return byExpiry !== 0 ? byExpiry : a.index - b.index;
+    })
+    .map(({ todo }) => todo);
+};
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPauseEnd, isQuietTime, queueReminder } from './quietHours';
+import { DEFAULT_SETTINGS } from './settings';
+import { AppSettings, PendingBlameMessage } from '../types/shared';
+
+const at = (year: number, month: number, day: number, hour: number, minute: number = 0) =>
+  new Date(year, month - 1, day, hour, minute).getTime();
+
+// Friday 30 October 2026, 10:00 local time
+const NOW = at(2026, 10, 30, 10);
+
+describe('getPauseEnd', () => {
+  it('pauses for an hour', () => {
+    assert.equal(getPauseEnd('hour', NOW), at(2026, 10, 30, 11));
+  });
+
+  it('pauses until 08:00 the next day, even late at night', () => {
+    assert.equal(getPauseEnd('tomorrow', NOW), at(2026, 10, 31, 8));
+    assert.equal(getPauseEnd('tomorrow', at(2026, 10, 31, 23, 30)), at(2026, 11, 1, 8));
+  });
+});
+
+describe('isQuietTime', () => {
+  const settings: AppSettings = {
+    ...DEFAULT_SETTINGS,
+    quietHours: [{ start: '22:00', end: '07:00', days: [5] }]
+  };
+
+  it('is quiet inside a quiet-hour window that crosses midnight', () => {
+    assert.equal(isQuietTime(settings, 0, at(2026, 10, 30, 23)), true);
+    assert.equal(isQuietTime(settings, 0, at(2026, 10, 31, 6)), true);
+    assert.equal(isQuietTime(settings, 0, at(2026, 10, 31, 8)), false);
+  });
+
+  it('is quiet while a pause lasts', () => {
+    assert.equal(isQuietTime(settings, NOW + 1, NOW), true);
+    assert.equal(isQuietTime(settings, NOW, NOW), false);
+  });
+});
+
+describe('queueReminder', () => {
+  const reminder = (taskId: string | undefined, message: string): PendingBlameMessage => ({ message, taskId, timestamp: NOW });
+
+  it('keeps only the newest reminder per task', () => {
+    const queue = [reminder('a', 'first'), reminder('b', 'other')];
+    assert.deepEqual(queueReminder(queue, reminder('a', 'second')), [reminder('b', 'other'), reminder('a', 'second')]);
+  });
+
+  it('keeps every reminder without a task', () => {
+    const queue = [reminder(undefined, 'general')];
+    assert.equal(queueReminder(queue, reminder(undefined, 'another')).length, 2);
+  });
+});
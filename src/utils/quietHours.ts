@@ -0,0 +1,40 @@
+import { AppSettings, PendingBlameMessage, TimeWindow } from '../types/shared';
+import { isInTimeWindow } from './schedule';
+
+// "Pause nagging" choices in the popup header
+export type PauseOption = 'hour' | 'tomorrow';
+
+export const PAUSE_OPTIONS: PauseOption[] = ['hour', 'tomorrow'];
+
+// "Until tomorrow" ends at this hour of the next day rather than at midnight
+const PAUSE_UNTIL_HOUR = 8;
+
+// Window added by the "add quiet hours" button in settings
+export const DEFAULT_QUIET_WINDOW: TimeWindow = { start: '22:00', end: '07:00', days: [0, 1, 2, 3, 4, 5, 6] };
+
+/**
+ * When a pause picked at `now` ends.
+ */
+export const getPauseEnd = (option: PauseOption, now: number = Date.now()): number => {
+  if (option === 'hour') return now + 60 * 60 * 1000;
+  const end = new Date(now);
+  end.setDate(end.getDate() + 1);
+  end.setHours(PAUSE_UNTIL_HOUR, 0, 0, 0);
+  return end.getTime();
+};
+
+/**
+ * True while notifications are held back: during a pause or any of the quiet-hour windows.
+ */
+export const isQuietTime = (settings: AppSettings, pausedUntil: number = 0, now: number = Date.now()): boolean => {
+  return pausedUntil > now || settings.quietHours.some(window => isInTimeWindow(window, now));
+};
+
+/**
+ * Adds a held-back reminder to the queue; a newer reminder for the same task replaces the older one,
+ * so the digest lists every task once.
+ */
+export const queueReminder = (queue: PendingBlameMessage[], reminder: PendingBlameMessage): PendingBlameMessage[] => {
+  const others = reminder.taskId ? queue.filter(queued => queued.taskId !== reminder.taskId) : queue;
+  return [...others, reminder];
+};
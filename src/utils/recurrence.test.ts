@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNextOccurrence, parseRecurrence } from './recurrence';
+
+// Monday 19 October 2026, 09:00 local time
+const NOW = new Date(2026, 9, 19, 9, 0).getTime();
+
+const at = (year: number, month: number, day: number, hour: number, minute: number = 0) =>
+  new Date(year, month - 1, day, hour, minute).getTime();
+
+describe('getNextOccurrence', () => {
+  it('repeats a weekly rule every week', () => {
+    const rule = parseRecurrence('mỗi tuần').rule!;
+    assert.equal(getNextOccurrence(rule, NOW), at(2026, 10, 26, 9));
+  });
+
+  it('skips to `interval` weeks ahead for "mỗi 2 tuần"', () => {
+    const rule = parseRecurrence('mỗi 2 tuần').rule!;
+    const first = getNextOccurrence(rule, NOW);
+    assert.equal(first, at(2026, 11, 2, 9));
+    assert.equal(getNextOccurrence(rule, first, first), at(2026, 11, 16, 9));
+  });
+
+  it('keeps the weekdays of the anchor week and skips the weeks in between', () => {
+    const rule = { frequency: 'weekly' as const, interval: 2, byWeekday: [1, 3], hour: 18 };
+    assert.equal(getNextOccurrence(rule, NOW), at(2026, 10, 19, 18));
+    assert.equal(getNextOccurrence(rule, at(2026, 10, 19, 18), NOW), at(2026, 10, 21, 18));
+    assert.equal(getNextOccurrence(rule, at(2026, 10, 21, 18), NOW), at(2026, 11, 2, 18));
+  });
+
+  it('steps a daily rule by its interval', () => {
+    const rule = parseRecurrence('mỗi 3 ngày').rule!;
+    assert.equal(getNextOccurrence(rule, NOW), at(2026, 10, 22, 9));
+  });
+});
@@ -0,0 +1,278 @@
+import { Todo, RecurrenceRule, Locale } from '../types/shared';
+import { createTranslator } from '../localization';
+import { formatWeekday } from './schedule';
+
+/**
+ * Recurring task rules (a small subset of iCalendar RRULE): every N hours, daily,
+ * weekdays, weekly on given days and monthly on a date.
+ */
+
+export interface ParsedRecurrence {
+  text: string;            // Input with the recurrence expression removed
+  rule?: RecurrenceRule;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const B = '(?<![\\p{L}\\p{N}])';
+const E = '(?![\\p{L}\\p{N}])';
+
+// Time of day implied by "mỗi sáng", "every evening", ...
+const PART_OF_DAY_TIMES: Record<string, [number, number]> = {
+  'sáng': [8, 0],
+  'morning': [8, 0],
+  'trưa': [12, 0],
+  'noon': [12, 0],
+  'chiều': [17, 0],
+  'afternoon': [17, 0],
+  'tối': [21, 0],
+  'evening': [21, 0],
+  'đêm': [22, 0],
+  'night': [22, 0]
+};
+
+const WEEKDAY_NAMES: Record<string, number> = {
+  'chủ nhật': 0, 'cn': 0, 'sunday': 0, 'sun': 0,
+  'thứ 2': 1, 'thứ hai': 1, 't2': 1, 'monday': 1, 'mon': 1,
+  'thứ 3': 2, 'thứ ba': 2, 't3': 2, 'tuesday': 2, 'tue': 2,
+  'thứ 4': 3, 'thứ tư': 3, 't4': 3, 'wednesday': 3, 'wed': 3,
+  'thứ 5': 4, 'thứ năm': 4, 't5': 4, 'thursday': 4, 'thu': 4,
+  'thứ 6': 5, 'thứ sáu': 5, 't6': 5, 'friday': 5, 'fri': 5,
+  'thứ 7': 6, 'thứ bảy': 6, 't7': 6, 'saturday': 6, 'sat': 6
+};
+
+const WEEKDAY_RE = Object.keys(WEEKDAY_NAMES)
+  .sort((a, b) => b.length - a.length)
+  .map(name => name.replace(' ', '\\s+'))
+  .join('|');
+const WEEKDAY_LIST_RE = `(?:${WEEKDAY_RE})(?:\\s*(?:,|và|and|&)\\s*(?:${WEEKDAY_RE}))*`;
+const PART_RE = Object.keys(PART_OF_DAY_TIMES).join('|');
+const TIME_RE = `(?:\\s+(?:lúc|at)?\\s*(\\d{1,2})(?:[h:](\\d{2})?|\\s*(am|pm)))?`;
+
+const parseWeekdays = (list: string): number[] => {
+  const days = list
+    .split(/\s*(?:,|và|and|&)\s*/i)
+    .map(name => WEEKDAY_NAMES[name.toLowerCase().replace(/\s+/g, ' ')])
+    .filter((day): day is number => day !== undefined);
+  return Array.from(new Set(days)).sort();
+};
+
+const parseTime = (hourStr?: string, minuteStr?: string, meridiem?: string): { hour?: number, minute?: number } => {
+  if (!hourStr) return {};
+  let hour = parseInt(hourStr, 10);
+  if (meridiem && meridiem.toLowerCase() === 'pm' && hour < 12) hour += 12;
+  if (meridiem && meridiem.toLowerCase() === 'am' && hour === 12) hour = 0;
+  return { hour, minute: minuteStr ? parseInt(minuteStr, 10) : 0 };
+};
+
+interface RecurrencePattern {
+  pattern: RegExp;
+  build: (match: RegExpMatchArray) => RecurrenceRule | null;
+}
+
+const PATTERNS: RecurrencePattern[] = [
+  {
+    // "every 2h", "every 3 hours", "mỗi 2 tiếng", "cứ 2h"
+    pattern: new RegExp(`${B}(?:every|mỗi|cứ)\\s+(\\d+)\\s*(?:h|g|giờ|tiếng|hrs?|hours?)(?:\\s+một\\s+lần)?${E}`, 'iu'),
+    build: match => ({ frequency: 'hourly', interval: parseInt(match[1], 10) })
+  },
+  {
+    // "every hour", "mỗi giờ", "hàng giờ"
+    pattern: new RegExp(`${B}(?:every\\s+hour|hourly|mỗi\\s+giờ|mỗi\\s+tiếng|hàng\\s+giờ)${E}`, 'iu'),
+    build: () => ({ frequency: 'hourly', interval: 1 })
+  },
+  {
+    // "weekdays", "every weekday", "ngày thường", "các ngày trong tuần"
+    pattern: new RegExp(`${B}(?:every\\s+weekday|weekdays|ngày\\s+thường|các\\s+ngày\\s+trong\\s+tuần|thứ\\s+2\\s+đến\\s+thứ\\s+6)${TIME_RE}${E}`, 'iu'),
+    build: match => ({ frequency: 'weekdays', interval: 1, ...parseTime(match[1], match[2], match[3]) })
+  },
+  {
+    // "every monday, wednesday", "mỗi thứ 2 và thứ 5", "thứ 2, thứ 4 hàng tuần"
+    pattern: new RegExp(`${B}(?:(?:every|mỗi)\\s+(${WEEKDAY_LIST_RE})|(${WEEKDAY_LIST_RE})\\s+(?:hàng|mỗi)\\s+tuần)${TIME_RE}${E}`, 'iu'),
+    build: match => {
+      const byWeekday = parseWeekdays(match[1] || match[2]);
+      return byWeekday.length > 0
+        ? { frequency: 'weekly', interval: 1, byWeekday, ...parseTime(match[3], match[4], match[5]) }
+        : null;
+    }
+  },
+  {
+    // "every 2 weeks", "weekly", "hàng tuần", "mỗi tuần"
+    pattern: new RegExp(`${B}(?:every\\s+(\\d+)\\s+weeks|every\\s+week|weekly|hàng\\s+tuần|mỗi\\s+(\\d+\\s+)?tuần)${E}`, 'iu'),
+    build: match => ({ frequency: 'weekly', interval: parseInt(match[1] || match[2] || '1', 10) })
+  },
+  {
+    // "monthly on the 15th", "every month on 15", "ngày 15 hàng tháng", "mỗi tháng ngày 15"
+    pattern: new RegExp(`${B}(?:(?:monthly|every\\s+month)(?:\\s+on(?:\\s+the)?\\s+(\\d{1,2})(?:st|nd|rd|th)?)?|ngày\\s+(\\d{1,2})\\s+(?:hàng|mỗi)\\s+tháng|(?:hàng|mỗi)\\s+tháng(?:\\s+(?:vào\\s+)?ngày\\s+(\\d{1,2}))?)${E}`, 'iu'),
+    build: match => {
+      const day = match[1] || match[2] || match[3];
+      return { frequency: 'monthly', interval: 1, byMonthDay: day ? Math.min(31, parseInt(day, 10)) : undefined };
+    }
+  },
+  {
+    // "every 3 days", "mỗi 2 ngày"
+    pattern: new RegExp(`${B}(?:every|mỗi|cứ)\\s+(\\d+)\\s*(?:days?|ngày)${TIME_RE}${E}`, 'iu'),
+    build: match => ({ frequency: 'daily', interval: parseInt(match[1], 10), ...parseTime(match[2], match[3], match[4]) })
+  },
+  {
+    // "mỗi sáng", "every evening", "hàng ngày", "daily at 7am"
+    pattern: new RegExp(`${B}(?:(?:every|mỗi|hàng)\\s+(${PART_RE})|every\\s+day|daily|hàng\\s+ngày|mỗi\\s+ngày)${TIME_RE}${E}`, 'iu'),
+    build: match => {
+      const partTime = match[1] ? PART_OF_DAY_TIMES[match[1].toLowerCase()] : undefined;
+      const explicit = parseTime(match[2], match[3], match[4]);
+      return {
+        frequency: 'daily',
+        interval: 1,
+        hour: explicit.hour ?? partTime?.[0],
+        minute: explicit.minute ?? partTime?.[1]
+      };
+    }
+  }
+];
+
+/**
+ * Extracts a recurrence expression from chat input, e.g. "uống nước every 2h".
+ */
+export const parseRecurrence = (input: string): ParsedRecurrence => {
+  for (const { pattern, build } of PATTERNS) {
+    const match = input.match(pattern);
+    if (!match || match.index === undefined) continue;
+
+    const rule = build(match);
+    if (!rule) continue;
+
+    // Drop undefined fields so the rule serializes cleanly to storage
+    (Object.keys(rule) as Array<keyof RecurrenceRule>).forEach(key => {
+      if (rule[key] === undefined) delete rule[key];
+    });
+
+    const text = (input.substring(0, match.index) + input.substring(match.index + match[0].length))
+      .replace(/\s{2,}/g, ' ')
+      .trim();
+    return { text, rule };
+  }
+
+  return { text: input };
+};
+
+const atTime = (date: Date, rule: RecurrenceRule, fallback: Date): Date => {
+  const result = new Date(date);
+  result.setHours(rule.hour ?? fallback.getHours(), rule.minute ?? fallback.getMinutes(), 0, 0);
+  return result;
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+// Whole weeks from the (Monday-based) week of `from` to the week of `to`
+const weeksBetween = (from: Date, to: Date): number => {
+  const monday = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() - (date.getDay() + 6) % 7);
+  // Rounded, so a daylight saving change in between does not shift the count
+  return Math.round((monday(to).getTime() - monday(from).getTime()) / (7 * 24 * HOUR));
+};
+
+/**
+ * Returns the first occurrence of `rule` strictly after `after`.
+ * `anchor` supplies the time of day (and day of month) when the rule does not specify one.
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, after: number, anchor: number = after): number => {
+  const interval = Math.max(1, rule.interval || 1);
+  const anchorDate = new Date(anchor);
+
+  if (rule.frequency === 'hourly') {
+    let next = anchor + interval * HOUR;
+    while (next <= after) next += interval * HOUR;
+    return next;
+  }
+
+  if (rule.frequency === 'monthly') {
+    const day = rule.byMonthDay ?? anchorDate.getDate();
+    const start = new Date(after);
+    for (let offset = 0; offset <= 24; offset += interval) {
+      const year = start.getFullYear();
+      const month = start.getMonth() + offset;
+      const candidateMonth = new Date(year, month, 1);
+      const clampedDay = Math.min(day, daysInMonth(candidateMonth.getFullYear(), candidateMonth.getMonth()));
+      const candidate = atTime(new Date(candidateMonth.getFullYear(), candidateMonth.getMonth(), clampedDay), rule, anchorDate);
+      if (candidate.getTime() > after) return candidate.getTime();
+    }
+  }
+
+  // Day-based rules: walk forward one day at a time until a matching day is found
+  const start = new Date(after);
+  const step = rule.frequency === 'daily' ? interval : 1;
+  for (let offset = 0; offset <= 7 * interval + 7; offset += step) {
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+    const candidate = atTime(day, rule, anchorDate);
+    if (candidate.getTime() <= after) continue;
+
+    const weekday = candidate.getDay();
+    if (rule.frequency === 'weekdays' && (weekday === 0 || weekday === 6)) continue;
+    if (rule.frequency === 'weekly') {
+      const days = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [anchorDate.getDay()];
+      if (!days.includes(weekday)) continue;
+      // "Every 2 weeks" only fires in every second week counted from the anchor
+      if (weeksBetween(anchorDate, candidate) % interval !== 0) continue;
+    }
+    return candidate.getTime();
+  }
+
+  return after + interval * 24 * HOUR;
+};
+
+/**
+ * Builds the next occurrence of a recurring task once the current one is completed
+ * or has expired. Returns null for non-recurring tasks or if it was already generated.
+ */
+export const createNextOccurrence = (todo: Todo, now: number = Date.now()): Todo | null => {
+  if (!todo.recurrence || todo.nextOccurrenceId) {
+    return null;
+  }
+
+  const previousDue = todo.dueDate || todo.created || now;
+  // Skip occurrences that were missed while the browser was closed
+  const dueDate = getNextOccurrence(todo.recurrence, Math.max(now, previousDue), previousDue);
+
+  return {
+    id: `${now}-${Math.random().toString(36).slice(2, 6)}`,
+    text: todo.text,
+    created: now,
+    completed: false,
+    category: todo.category,
+    timeboxMinutes: todo.timeboxMinutes,
+    priority: todo.priority,
+    recurrence: todo.recurrence,
+    // Each occurrence starts with the same checklist, all unticked
+    subtasks: todo.subtasks?.map(({ completedAt, ...subtask }) => ({ ...subtask, completed: false })),
+    seriesId: todo.seriesId || todo.id,
+    dueDate
+  };
+};
+
+/**
+ * Short human-readable description of a rule in `locale`, e.g. "🔁 mỗi 2 giờ" or "🔁 Th 2, Th 4 18:00".
+ */
+export const describeRecurrence = (rule: RecurrenceRule, locale: Locale): string => {
+  const t = createTranslator(locale);
+  const count = rule.interval;
+  const time = rule.hour !== undefined
+    ? ` ${String(rule.hour).padStart(2, '0')}:${String(rule.minute ?? 0).padStart(2, '0')}`
+    : '';
+
+  switch (rule.frequency) {
+    case 'hourly':
+      return `🔁 ${count === 1 ? t('recurrence.hourly') : t('recurrence.everyHours', { count })}`;
+    case 'daily':
+      return `🔁 ${count === 1 ? t('recurrence.daily') : t('recurrence.everyDays', { count })}${time}`;
+    case 'weekdays':
+      return `🔁 ${t('recurrence.weekdays')}${time}`;
+    case 'weekly': {
+      if (!rule.byWeekday || rule.byWeekday.length === 0) {
+        return `🔁 ${count === 1 ? t('recurrence.weekly') : t('recurrence.everyWeeks', { count })}${time}`;
+      }
+      const days = rule.byWeekday.map(day => formatWeekday(day, locale)).join(', ');
+      return `🔁 ${count === 1 ? days : t('recurrence.onDaysEveryWeeks', { days, count })}${time}`;
+    }
+    case 'monthly':
+      return `🔁 ${rule.byMonthDay ? t('recurrence.monthlyOnDay', { day: rule.byMonthDay }) : t('recurrence.monthly')}${time}`;
+  }
+};
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isInTimeWindow, parseClock } from './schedule';
+import { TimeWindow } from '../types/shared';
+
+const at = (year: number, month: number, day: number, hour: number, minute: number = 0) =>
+  new Date(year, month - 1, day, hour, minute).getTime();
+
+describe('parseClock', () => {
+  it('reads "HH:MM" and rejects anything else', () => {
+    assert.equal(parseClock('09:30'), 570);
+    assert.equal(parseClock('7:05'), 425);
+    assert.equal(parseClock('24:00'), null);
+    assert.equal(parseClock('9h'), null);
+  });
+});
+
+describe('isInTimeWindow', () => {
+  // Friday 30 October 2026 is day 5
+  const office: TimeWindow = { start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5] };
+  const night: TimeWindow = { start: '22:00', end: '07:00', days: [5] };
+
+  it('covers a same-day window on its days, end excluded', () => {
+    assert.equal(isInTimeWindow(office, at(2026, 10, 30, 9)), true);
+    assert.equal(isInTimeWindow(office, at(2026, 10, 30, 17)), false);
+    assert.equal(isInTimeWindow(office, at(2026, 10, 31, 10)), false);
+  });
+
+  it('runs a window past midnight into the next morning of the day it started on', () => {
+    assert.equal(isInTimeWindow(night, at(2026, 10, 30, 23)), true);
+    assert.equal(isInTimeWindow(night, at(2026, 10, 31, 6, 59)), true);
+    assert.equal(isInTimeWindow(night, at(2026, 10, 31, 7)), false);
+    // Friday's early morning belongs to Thursday's night, which is not selected
+    assert.equal(isInTimeWindow(night, at(2026, 10, 30, 3)), false);
+    assert.equal(isInTimeWindow(night, at(2026, 10, 31, 23)), false);
+  });
+
+  it('treats an empty or malformed window as never', () => {
+    assert.equal(isInTimeWindow({ start: '08:00', end: '08:00', days: [5] }, at(2026, 10, 30, 8)), false);
+    assert.equal(isInTimeWindow({ start: 'later', end: '08:00', days: [5] }, at(2026, 10, 30, 7)), false);
+  });
+});
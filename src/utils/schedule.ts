@@ -0,0 +1,46 @@
+import { Locale, TimeWindow } from '../types/shared';
+
+export const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];  // Monday first, as settings list them; 0 = Sunday
+
+/**
+ * "09:30" -> 570 minutes after midnight, or null for anything that is not a clock time.
+ */
+export const parseClock = (value: string): number | null => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+/**
+ * True when `now` falls inside the window. A window ending before it starts runs past
+ * midnight and belongs to the day it started on, so "22:00"-"07:00" on Friday covers early Saturday.
+ */
+export const isInTimeWindow = (window: TimeWindow, now: number = Date.now()): boolean => {
+  const start = parseClock(window.start);
+  const end = parseClock(window.end);
+  if (start === null || end === null || start === end) return false;
+
+  const date = new Date(now);
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const day = date.getDay();
+
+  if (start < end) {
+    return window.days.includes(day) && minute >= start && minute < end;
+  }
+  const previousDay = (day + 6) % 7;
+  return (window.days.includes(day) && minute >= start)
+    || (window.days.includes(previousDay) && minute < end);
+};
+
+// Selects or unselects a weekday of a window
+export const toggleDay = (days: number[], day: number): number[] => {
+  return days.includes(day) ? days.filter(selected => selected !== day) : [...days, day];
+};
+
+// Short weekday name in the UI language: 0 -> "CN" / "Sun"
+export const formatWeekday = (day: number, locale: Locale): string => {
+  // 7 January 2024 was a Sunday
+  return new Date(2024, 0, 7 + day).toLocaleDateString(locale, { weekday: 'short' });
+};
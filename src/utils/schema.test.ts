@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Schema, parseStructured, validate } from './schema';
+import { TASK_DETECTION_SCHEMA } from '../prompts/taskAnalysis';
+
+const LIST_SCHEMA: Schema = {
+  type: 'object',
+  required: ['items'],
+  properties: {
+    items: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1, nullable: true } }
+  }
+};
+
+describe('parseStructured', () => {
+  it('finds the JSON object inside a code fence or prose', () => {
+    const result = parseStructured('Sure! ```json\n{"detectedTasks": [{"text": "nộp báo cáo"}]}\n```', TASK_DETECTION_SCHEMA);
+    assert.deepEqual(result, { ok: true, value: { detectedTasks: [{ text: 'nộp báo cáo' }] } });
+  });
+
+  it('reports malformed replies instead of throwing', () => {
+    const noObject = parseStructured('I cannot help with that.', TASK_DETECTION_SCHEMA);
+    assert.equal(noObject.ok, false);
+    const broken = parseStructured('{"detectedTasks": [', TASK_DETECTION_SCHEMA);
+    assert.equal(broken.ok, false);
+  });
+
+  it('names every field that does not match', () => {
+    const result = parseStructured('{"detectedTasks": [{"text": ""}, {"text": "ok", "priority": "high"}]}', TASK_DETECTION_SCHEMA);
+    assert.equal(result.ok, false);
+    if (!result.ok) {
+      assert.deepEqual(result.issues.map(issue => issue.path), ['detectedTasks[0].text', 'detectedTasks[1].priority']);
+    }
+  });
+});
+
+describe('validate', () => {
+  it('drops null for nullable fields and unknown keys', () => {
+    const result = validate(TASK_DETECTION_SCHEMA, {
+      category: null,
+      detectedTasks: [{ text: 'họp', deadline: null, priority: 2, extra: true }]
+    });
+    assert.deepEqual(result, { ok: true, value: { detectedTasks: [{ text: 'họp', priority: 2 }] } });
+  });
+
+  it('drops null entries of a nullable item schema', () => {
+    assert.deepEqual(validate(LIST_SCHEMA, { items: ['a', null, 'b'] }), { ok: true, value: { items: ['a', 'b'] } });
+  });
+
+  it('counts minItems after null entries are dropped', () => {
+    assert.equal(validate(LIST_SCHEMA, { items: [null] }).ok, false);
+  });
+
+  it('rejects null where the schema does not allow it', () => {
+    assert.equal(validate(TASK_DETECTION_SCHEMA, { detectedTasks: null }).ok, false);
+  });
+});
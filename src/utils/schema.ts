@@ -0,0 +1,156 @@
+/**
+ * Minimal schema validation for structured model output.
+ * Reports every field that does not match, with a path such as "detectedTasks[0].text",
+ * so the error can be logged or sent back to the model in a repair prompt.
+ */
+
+export type Schema =
+  | { type: 'string'; minLength?: number; enum?: string[]; nullable?: boolean }
+  | { type: 'number'; nullable?: boolean }
+  | { type: 'boolean'; nullable?: boolean }
+  | { type: 'array'; items: Schema; minItems?: number; nullable?: boolean }
+  | { type: 'object'; properties: Record<string, Schema>; required?: string[]; nullable?: boolean };
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * Thrown when a model reply still does not match its schema after the repair attempt.
+ */
+export class StructuredOutputError extends Error {
+  constructor(public readonly issues: ValidationIssue[], public readonly rawText: string) {
+    super(`Invalid structured output: ${formatIssues(issues)}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const validateValue = (schema: Schema, value: unknown, path: string, issues: ValidationIssue[]): unknown => {
+  if (value === null || value === undefined) {
+    if (schema.nullable) return undefined;
+    issues.push({ path, message: `expected ${schema.type}, got ${describe(value)}` });
+    return undefined;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `expected string, got ${describe(value)}` });
+        return undefined;
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+        return undefined;
+      }
+      if (schema.enum && !schema.enum.includes(value.trim())) {
+        issues.push({ path, message: `must be one of ${schema.enum.join(', ')}` });
+        return undefined;
+      }
+      return value.trim();
+
+    case 'number':
+    case 'boolean':
+      if (typeof value !== schema.type) {
+        issues.push({ path, message: `expected ${schema.type}, got ${describe(value)}` });
+        return undefined;
+      }
+      return value;
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${describe(value)}` });
+        return undefined;
+      }
+      // Null entries allowed by a nullable item schema are dropped rather than kept as holes
+      const items = value
+        .map((item, index) => validateValue(schema.items, item, `${path}[${index}]`, issues))
+        .filter(item => item !== undefined);
+      if (schema.minItems !== undefined && items.length < schema.minItems) {
+        issues.push({ path, message: `must contain at least ${schema.minItems} item(s)` });
+      }
+      return items;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, got ${describe(value)}` });
+        return undefined;
+      }
+      const source = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      const required = schema.required || [];
+
+      // Only declared properties are copied, unknown keys from the model are dropped
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        const propertyPath = path ? `${path}.${key}` : key;
+        if (!(key in source) || source[key] === undefined) {
+          if (required.includes(key)) {
+            issues.push({ path: propertyPath, message: 'is required' });
+          }
+          continue;
+        }
+        const validated = validateValue(propertySchema, source[key], propertyPath, issues);
+        if (validated !== undefined) {
+          result[key] = validated;
+        }
+      }
+      return result;
+    }
+  }
+};
+
+export const validate = <T>(schema: Schema, value: unknown): ValidationResult<T> => {
+  const issues: ValidationIssue[] = [];
+  const result = validateValue(schema, value, '', issues);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: result as T };
+};
+
+/**
+ * Pulls the JSON object out of a model reply. Models often wrap it in a markdown
+ * code fence or a sentence of prose; anything else is reported as an issue.
+ */
+export const extractJSON = (text: string): ValidationResult<unknown> => {
+  let candidate = text.trim();
+
+  const fenced = candidate.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced && fenced[1]) {
+    candidate = fenced[1].trim();
+  }
+
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return { ok: false, issues: [{ path: '', message: 'reply does not contain a JSON object' }] };
+  }
+
+  try {
+    return { ok: true, value: JSON.parse(candidate.substring(start, end + 1)) };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { ok: false, issues: [{ path: '', message: `reply is not valid JSON (${reason})` }] };
+  }
+};
+
+/**
+ * Extracts and validates a model reply against `schema` in one step.
+ */
+export const parseStructured = <T>(text: string, schema: Schema): ValidationResult<T> => {
+  const json = extractJSON(text);
+  if (!json.ok) return json;
+  return validate<T>(schema, json.value);
+};
+
+export const formatIssues = (issues: ValidationIssue[]): string => {
+  return issues.map(issue => `${issue.path || '(root)'}: ${issue.message}`).join('; ');
+};
@@ -0,0 +1,49 @@
+import { AppSettings } from '../types/shared';
+import { readStorage, writeStorage } from '../storage/storage';
+import { DEFAULT_TAGS } from './tags';
+import { DEFAULT_SPICE_LEVEL } from './messageQuality';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  defaultTimeboxMinutes: 60,
+  reminderLeadMinutes: 10,
+  escalationIntervalsMinutes: [15, 30, 60],
+  personaId: 'bigBrother',
+  categoryPersonas: {},
+  customPersona: {
+    name: '',
+    systemPrompt: '',
+    fallbackMessages: []
+  },
+  trashRetentionDays: 7,
+  tags: DEFAULT_TAGS,
+  language: 'vi',
+  spiceLevel: DEFAULT_SPICE_LEVEL,
+  meetingSafe: {
+    enabled: false,
+    start: '09:00',
+    end: '17:00',
+    days: [1, 2, 3, 4, 5]
+  },
+  quietHours: [],
+  dailyDigest: {
+    enabled: false,
+    time: '08:00'
+  }
+};
+
+/**
+ * Loads user settings from Chrome storage, filling in defaults for missing fields.
+ */
+export const loadSettings = async (): Promise<AppSettings> => {
+  try {
+    const data = await readStorage(['settings']);
+    return { ...DEFAULT_SETTINGS, ...(data.settings || {}) };
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+export const saveSettings = async (settings: AppSettings): Promise<void> => {
+  await writeStorage({ settings });
+};
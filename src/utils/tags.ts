@@ -0,0 +1,112 @@
+import { Todo, TagDefinition } from '../types/shared';
+
+// Shipped tags; users can recolor them, change icons and aliases, or add their own in settings
+export const DEFAULT_TAGS: TagDefinition[] = [
+  { id: 'work', label: 'Công việc', icon: '💼', color: '#3b82f6', aliases: ['công việc', 'việc', 'văn phòng', 'job', 'office'] },
+  { id: 'personal', label: 'Cá nhân', icon: '👤', color: '#a855f7', aliases: ['cá nhân', 'riêng tư', 'private'] },
+  { id: 'health', label: 'Sức khỏe', icon: '💪', color: '#22c55e', aliases: ['sức khỏe', 'sức khoẻ', 'thể dục', 'gym', 'fitness'] },
+  { id: 'study', label: 'Học tập', icon: '📚', color: '#f59e0b', aliases: ['học', 'học tập', 'school', 'learning'] },
+  { id: 'home', label: 'Nhà cửa', icon: '🏠', color: '#14b8a6', aliases: ['nhà', 'nhà cửa', 'việc nhà', 'house'] },
+  { id: 'shopping', label: 'Mua sắm', icon: '🛒', color: '#ec4899', aliases: ['mua sắm', 'mua', 'shop', 'buy'] },
+  { id: 'urgent', label: 'Khẩn cấp', icon: '🔥', color: '#ef4444', aliases: ['khẩn cấp', 'khẩn', 'gấp', 'asap'] },
+  { id: 'idea', label: 'Ý tưởng', icon: '💡', color: '#eab308', aliases: ['ý tưởng', 'ideas'] },
+  { id: 'travel', label: 'Du lịch', icon: '✈️', color: '#06b6d4', aliases: ['du lịch', 'đi chơi', 'trip'] }
+];
+
+export const DEFAULT_TAG_ICON = '🏷️';
+export const DEFAULT_TAG_COLOR = '#64748b';
+const DEFAULT_TASK_ICON = '📌';
+
+// "#tag" in chat input; must start with a letter so "#3" and plain numbers stay untouched
+const TAG_PATTERN = new RegExp('(^|\\s)#([\\p{L}][\\p{L}\\p{N}_-]*)', 'gu');
+
+/**
+ * Comparison key for tag names: "#Công-Việc", "cong viec" and "côngviệc" all become "congviec".
+ */
+const toKey = (name: string): string => name
+  .toLowerCase()
+  .replace(/^#+/, '')
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/đ/g, 'd')
+  .replace(/[\s_-]+/g, '');
+
+/**
+ * Finds the tag a name refers to, by id or any alias.
+ */
+export const resolveTag = (name: string, tags: TagDefinition[]): TagDefinition | undefined => {
+  const key = toKey(name);
+  if (!key) return undefined;
+  return tags.find(tag => toKey(tag.id) === key || tag.aliases.some(alias => toKey(alias) === key));
+};
+
+/**
+ * The id stored on tasks: a known tag's id, otherwise the name lowercased with dashes for spaces.
+ */
+export const canonicalTag = (name: string, tags: TagDefinition[]): string => {
+  return resolveTag(name, tags)?.id ?? name.trim().toLowerCase().replace(/^#+/, '').replace(/\s+/g, '-');
+};
+
+export const formatTag = (tag: string) => `#${tag}`;
+
+/**
+ * Pulls "#tag" words out of chat input, e.g. "mua sữa #nhà #gấp" -> "mua sữa" with ['home', 'urgent'].
+ */
+export const extractTags = (input: string, tags: TagDefinition[]): { text: string; tags: string[] } => {
+  const found: string[] = [];
+  const text = input.replace(TAG_PATTERN, (_match, leading: string, name: string) => {
+    found.push(canonicalTag(name, tags));
+    return leading;
+  });
+  return {
+    text: text.replace(/\s{2,}/g, ' ').trim(),
+    tags: Array.from(new Set(found))
+  };
+};
+
+/**
+ * A task's tags plus its category, which counts as a tag unless it is "general".
+ */
+export const getTaskTags = (todo: Todo, tags: TagDefinition[]): string[] => {
+  const category = todo.category && todo.category !== 'general' ? [canonicalTag(todo.category, tags)] : [];
+  return Array.from(new Set([...category, ...(todo.tags || [])]));
+};
+
+/**
+ * Tasks carrying every one of `filter` (canonical ids).
+ */
+export const filterTasksByTags = (todos: Todo[], filter: string[], tags: TagDefinition[]): Todo[] => {
+  if (filter.length === 0) return todos;
+  return todos.filter(todo => {
+    const taskTags = getTaskTags(todo, tags);
+    return filter.every(tag => taskTags.includes(tag));
+  });
+};
+
+/**
+ * Icon for a task: its category's tag, then its first tag with a definition.
+ * Free-text categories from the AI ("công việc văn phòng") match on any alias they contain.
+ */
+export const getTaskIcon = (todo: Todo, tags: TagDefinition[]): string => {
+  const category = todo.category && todo.category !== 'general' ? todo.category : '';
+  const categoryKey = toKey(category);
+  const categoryTag = category
+    ? resolveTag(category, tags) || tags.find(tag => [tag.id, ...tag.aliases].some(alias => {
+      const key = toKey(alias);
+      return key.length >= 3 && categoryKey.includes(key);
+    }))
+    : undefined;
+  const tag = categoryTag || (todo.tags || []).map(name => resolveTag(name, tags)).find(Boolean);
+  return tag?.icon || DEFAULT_TASK_ICON;
+};
+
+/**
+ * A new tag definition for a name the user typed in settings.
+ */
+export const createTagDefinition = (name: string): TagDefinition => ({
+  id: name.trim().toLowerCase().replace(/^#+/, '').replace(/\s+/g, '-'),
+  label: name.trim().replace(/^#+/, ''),
+  icon: DEFAULT_TAG_ICON,
+  color: DEFAULT_TAG_COLOR,
+  aliases: []
+});
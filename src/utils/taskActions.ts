@@ -0,0 +1,149 @@
+import { Todo, Subtask, TaskRestoreEntry, TrashedTask } from '../types/shared';
+import { createNextOccurrence } from './recurrence';
+import { ESCALATION_GENTLE } from './escalation';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Snooze options offered on notifications and in the popup's focused-task view
+export const SNOOZE_OPTIONS = [10, 60];
+
+/**
+ * Pushes a task's due date `minutes` into the future and clears its expired state.
+ * The escalation ladder restarts at expiry, skipping the pre-deadline heads-up.
+ * Returns a new array; the input is not modified.
+ */
+export const snoozeTask = (todos: Todo[], id: string, minutes: number, now: number = Date.now()): Todo[] => {
+  return todos.map(todo => {
+    if (todo.id !== id) return todo;
+    return {
+      ...todo,
+      timeExpired: false,
+      escalationLevel: ESCALATION_GENTLE,
+      dueDate: now + minutes * MINUTE
+    };
+  });
+};
+
+/**
+ * Marks a task as done, appending the next occurrence if it is recurring.
+ * Returns a new array; the input is not modified.
+ */
+export const completeTask = (todos: Todo[], id: string, now: number = Date.now()): Todo[] => {
+  const target = todos.find(todo => todo.id === id);
+  if (!target || target.completed) return todos;
+
+  const nextOccurrence = createNextOccurrence(target, now);
+  const updated = todos.map(todo => {
+    if (todo.id !== id) return todo;
+    return {
+      ...todo,
+      completed: true,
+      completedAt: now,
+      ...(nextOccurrence ? { nextOccurrenceId: nextOccurrence.id } : {})
+    };
+  });
+
+  return nextOccurrence ? [...updated, nextOccurrence] : updated;
+};
+
+/**
+ * Appends checklist steps to a task. Returns a new array; the input is not modified.
+ */
+export const addSubtasks = (todos: Todo[], id: string, texts: string[], now: number = Date.now()): Todo[] => {
+  return todos.map(todo => {
+    if (todo.id !== id) return todo;
+    const existing = todo.subtasks || [];
+    const added: Subtask[] = texts
+      .map(text => text.trim())
+      .filter(text => text.length > 0)
+      .map((text, index) => ({ id: `${now.toString(36)}-${existing.length + index}`, text, completed: false }));
+    return { ...todo, subtasks: [...existing, ...added] };
+  });
+};
+
+/**
+ * Ticks or unticks one step. Returns a new array; the input is not modified.
+ */
+export const setSubtaskCompleted = (
+  todos: Todo[],
+  id: string,
+  subtaskId: string,
+  completed: boolean,
+  now: number = Date.now()
+): Todo[] => {
+  return todos.map(todo => {
+    if (todo.id !== id || !todo.subtasks) return todo;
+    return {
+      ...todo,
+      subtasks: todo.subtasks.map(subtask => subtask.id === subtaskId
+        ? { ...subtask, completed, completedAt: completed ? now : undefined }
+        : subtask)
+    };
+  });
+};
+
+/**
+ * Done and total step counts, e.g. { done: 2, total: 5 }.
+ */
+export const getSubtaskProgress = (todo: Todo): { done: number; total: number } => {
+  const subtasks = todo.subtasks || [];
+  return { done: subtasks.filter(subtask => subtask.completed).length, total: subtasks.length };
+};
+
+/**
+ * Lists what it takes to turn `after` back into `before`: tasks that were added map to null,
+ * changed or removed tasks map to their earlier state. Tasks are compared by version.
+ */
+export const getRestoreEntries = (before: Todo[], after: Todo[]): TaskRestoreEntry[] => {
+  const previous = new Map(before.map(todo => [todo.id, todo]));
+  const entries: TaskRestoreEntry[] = [];
+
+  for (const todo of after) {
+    const old = previous.get(todo.id);
+    previous.delete(todo.id);
+    if (!old) {
+      entries.push({ id: todo.id, todo: null });
+    } else if ((old.version ?? 0) !== (todo.version ?? 0)) {
+      entries.push({ id: todo.id, todo: old });
+    }
+  }
+  for (const [id, todo] of previous) {
+    entries.push({ id, todo });
+  }
+  return entries;
+};
+
+/**
+ * Applies restore entries: `todo: null` removes the task, anything else replaces (or re-adds) it.
+ * Replaced tasks keep their current version so the repository keeps counting forward.
+ */
+export const applyRestoreEntries = (todos: Todo[], entries: TaskRestoreEntry[]): Todo[] => {
+  const removed = new Set(entries.filter(entry => !entry.todo).map(entry => entry.id));
+  const restored = new Map(entries.filter(entry => entry.todo).map(entry => [entry.id, { ...entry.todo! }]));
+
+  const result = todos
+    .filter(todo => !removed.has(todo.id))
+    .map(todo => {
+      const previous = restored.get(todo.id);
+      if (!previous) return todo;
+      restored.delete(todo.id);
+      return { ...previous, version: todo.version };
+    });
+  return [...result, ...restored.values()];
+};
+
+/**
+ * Drops trash entries older than `retentionDays`.
+ */
+export const purgeTrash = (trash: TrashedTask[], retentionDays: number, now: number = Date.now()): TrashedTask[] => {
+  return trash.filter(item => now - item.deletedAt < retentionDays * DAY);
+};
+
+/**
+ * Notification IDs are "task-<id>" (or "task-<id>_noicon" for the icon-less retry).
+ */
+export const getTaskIdFromNotification = (notificationId: string): string | null => {
+  const match = notificationId.match(/^task-(.+?)(?:_noicon)?$/);
+  return match ? match[1] : null;
+};
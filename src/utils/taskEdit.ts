@@ -0,0 +1,188 @@
+import { Todo } from '../types/shared';
+import { parseDeadline } from './deadlineParser';
+import { parseTimebox } from './timebox';
+import { ESCALATION_NONE } from './escalation';
+import { getPriority, formatPriority, isTaskPriority } from './priority';
+import { PERSONA_CATEGORIES } from '../prompts/personas';
+import { Translator } from '../localization';
+
+// Fields /edit understands ("due=17h mai"), with every name accepted for them
+export const EDIT_FIELDS = {
+  text: ['text', 'nd', 'tên', 'ten'],
+  due: ['due', 'hạn', 'han', 'deadline'],
+  category: ['cat', 'category', 'loại', 'loai'],
+  priority: ['p', 'priority', 'ut'],
+  timebox: ['time', 'timebox', 'tg']
+};
+
+export type TaskEditField = keyof typeof EDIT_FIELDS;
+
+// Values that remove a deadline or timebox: "due=none"
+const CLEAR_WORDS = ['none', 'no', 'không', 'khong', 'xóa', 'xoa', '-'];
+
+const EDITABLE_KEYS = ['text', 'title', 'dueDate', 'deadline', 'category', 'priority', 'timeboxMinutes'] as const;
+
+type EditableKey = typeof EDITABLE_KEYS[number];
+
+/**
+ * What an edit changes. `null` removes the field (it survives messaging, unlike undefined).
+ */
+export type TaskEdit = { [K in EditableKey]?: Todo[K] | null };
+
+// "công việc" -> "work"; unknown names are kept as typed
+export const normalizeCategory = (name: string): string => {
+  const lower = name.trim().toLowerCase();
+  const match = PERSONA_CATEGORIES.find(category => category.id === lower || category.keywords.includes(lower));
+  return match ? match.id : lower;
+};
+
+const findField = (key: string): TaskEditField | undefined => {
+  const lower = key.toLowerCase();
+  return (Object.keys(EDIT_FIELDS) as TaskEditField[]).find(field => EDIT_FIELDS[field].includes(lower));
+};
+
+/**
+ * Splits "mua sữa due=17h mai p=1" into fields. Values run until the next "key=",
+ * and text before the first key is the new task text, so "/edit 3 mua sữa" still works.
+ */
+export const parseEditFields = (input: string): { fields: Partial<Record<TaskEditField, string>>; unknown: string[] } => {
+  const fields: Partial<Record<TaskEditField, string>> = {};
+  const unknown: string[] = [];
+  const keys = Array.from(input.matchAll(/(^|\s)([^\s=]+)=/g));
+
+  const leading = (keys.length > 0 ? input.substring(0, keys[0].index) : input).trim();
+  if (leading) {
+    fields.text = leading;
+  }
+
+  keys.forEach((match, index) => {
+    const start = (match.index ?? 0) + match[0].length;
+    const end = index + 1 < keys.length ? keys[index + 1].index : input.length;
+    const field = findField(match[2]);
+    if (field) {
+      fields[field] = input.substring(start, end).trim();
+    } else {
+      unknown.push(match[2]);
+    }
+  });
+
+  return { fields, unknown };
+};
+
+/**
+ * Turns parsed fields into an edit for `todo`. `invalid` lists the fields whose value could not be understood.
+ */
+export const createTaskEdit = (
+  todo: Todo,
+  fields: Partial<Record<TaskEditField, string>>,
+  now: Date = new Date()
+): { edit: TaskEdit; invalid: TaskEditField[] } => {
+  const edit: TaskEdit = {};
+  const invalid: TaskEditField[] = [];
+  const isClear = (value: string) => CLEAR_WORDS.includes(value.toLowerCase());
+
+  if (fields.text !== undefined) {
+    if (fields.text) {
+      edit.text = fields.text;
+      // Tasks detected by the AI show their title, keep it in step with the text
+      if (todo.title) edit.title = fields.text;
+    } else {
+      invalid.push('text');
+    }
+  }
+
+  if (fields.due !== undefined) {
+    const parsed = parseDeadline(fields.due, now);
+    if (isClear(fields.due)) {
+      edit.dueDate = null;
+      edit.deadline = null;
+    } else if (parsed) {
+      edit.dueDate = parsed.dueDate;
+      edit.deadline = parsed.deadline;
+    } else {
+      invalid.push('due');
+    }
+  }
+
+  if (fields.category !== undefined) {
+    if (fields.category) {
+      edit.category = normalizeCategory(fields.category);
+    } else {
+      invalid.push('category');
+    }
+  }
+
+  if (fields.priority !== undefined) {
+    // "p=1", "p=!1" and "p=p1" all mean P1
+    const priority = parseInt(fields.priority.replace(/^!?p?/i, ''), 10);
+    if (isTaskPriority(priority)) {
+      edit.priority = priority;
+    } else {
+      invalid.push('priority');
+    }
+  }
+
+  if (fields.timebox !== undefined) {
+    const { minutes } = parseTimebox(fields.timebox);
+    if (isClear(fields.timebox)) {
+      edit.timeboxMinutes = null;
+    } else if (minutes) {
+      edit.timeboxMinutes = minutes;
+    } else {
+      invalid.push('timebox');
+    }
+  }
+
+  return { edit, invalid };
+};
+
+// Sets or removes one field; generic so the value must match the type of its key
+const applyField = <K extends EditableKey>(todo: Todo, key: K, value: Todo[K] | null | undefined) => {
+  if (value === null || value === undefined) {
+    delete (todo as Partial<Todo>)[key];
+  } else {
+    todo[key] = value;
+  }
+};
+
+/**
+ * Applies an edit. A new deadline or timebox restarts the reminder ladder, so the
+ * background re-evaluates the task from scratch on its next check.
+ */
+export const applyTaskEdit = (todo: Todo, edit: TaskEdit): Todo => {
+  const edited: Todo = { ...todo };
+  for (const key of EDITABLE_KEYS) {
+    if (key in edit) applyField(edited, key, edit[key]);
+  }
+
+  const rescheduled = edited.dueDate !== todo.dueDate || edited.timeboxMinutes !== todo.timeboxMinutes;
+  if (!rescheduled || todo.completed) return edited;
+
+  const { notifiedAt, ...rest } = edited;
+  return { ...rest, timeExpired: false, escalationLevel: ESCALATION_NONE };
+};
+
+const formatDue = (todo: Todo, t: Translator) => todo.dueDate ? new Date(todo.dueDate).toLocaleString() : t('edit.noDue');
+
+const formatTimebox = (todo: Todo, t: Translator) => todo.timeboxMinutes
+  ? t('time.minutes', { count: todo.timeboxMinutes })
+  : t('edit.defaultTimebox');
+
+/**
+ * Lines like 'hạn: 17:00 20/10 → 09:00 21/10' describing what an edit changed, for the chat.
+ */
+export const describeTaskEdit = (before: Todo, after: Todo, t: Translator): string[] => {
+  const lines: string[] = [];
+  if (before.text !== after.text) lines.push(t('edit.change.text', { before: before.text, after: after.text }));
+  if (before.dueDate !== after.dueDate) lines.push(t('edit.change.due', { before: formatDue(before, t), after: formatDue(after, t) }));
+  if ((before.category || 'general') !== (after.category || 'general')) {
+    lines.push(t('edit.change.category', { before: before.category || 'general', after: after.category || 'general' }));
+  }
+  if (getPriority(before) !== getPriority(after)) {
+    lines.push(t('edit.change.priority', { before: formatPriority(getPriority(before)), after: formatPriority(getPriority(after)) }));
+  }
+  if (before.timeboxMinutes !== after.timeboxMinutes) {
+    lines.push(t('edit.change.timebox', { before: formatTimebox(before, t), after: formatTimebox(after, t) }));
+  }
+  return lines;
+};
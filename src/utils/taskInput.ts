@@ -0,0 +1,56 @@
+import { RecurrenceRule, TaskPriority, TagDefinition } from '../types/shared';
+import { parseTimebox } from './timebox';
+import { parseDeadline } from './deadlineParser';
+import { parseRecurrence, getNextOccurrence } from './recurrence';
+import { parsePriority } from './priority';
+import { extractTags, DEFAULT_TAGS } from './tags';
+
+export interface ParsedTaskInput {
+  text: string;
+  timeboxMinutes?: number;
+  dueDate?: number;
+  deadline?: string;
+  recurrence?: RecurrenceRule;
+  priority?: TaskPriority;
+  tags?: string[];
+}
+
+/**
+ * Splits free-form chat input into the task text, its "#tags" and its scheduling hints.
+ * Tags, the priority marker ("!1") and recurrence ("every 2h") are taken first, then the
+ * timebox ("30p", "2h"), so the deadline parser only sees clock times.
+ */
+export const parseTaskInput = (
+  input: string,
+  now: Date = new Date(),
+  tagDefinitions: TagDefinition[] = DEFAULT_TAGS
+): ParsedTaskInput => {
+  const tags = extractTags(input.trim(), tagDefinitions);
+  const priority = parsePriority(tags.text);
+  const recurrence = parseRecurrence(priority.text);
+  const timebox = parseTimebox(recurrence.text);
+  const result: ParsedTaskInput = {
+    text: timebox.text,
+    timeboxMinutes: timebox.minutes,
+    recurrence: recurrence.rule,
+    priority: priority.priority,
+    tags: tags.tags.length > 0 ? tags.tags : undefined
+  };
+
+  const deadline = parseDeadline(timebox.text, now);
+  if (deadline) {
+    result.dueDate = deadline.dueDate;
+    result.deadline = deadline.deadline;
+    // Keep the original wording if the whole input was the deadline expression
+    if (deadline.text) {
+      result.text = deadline.text;
+    }
+  }
+
+  // A recurring task without an explicit deadline is first due at its next occurrence
+  if (result.recurrence && !result.dueDate) {
+    result.dueDate = getNextOccurrence(result.recurrence, now.getTime());
+  }
+
+  return result;
+};
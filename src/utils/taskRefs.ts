@@ -0,0 +1,89 @@
+import { Todo } from '../types/shared';
+
+/**
+ * Short task references such as "#a3f". They are assigned once by the task repository
+ * and never change, unlike list positions which shift after every deletion.
+ */
+
+const SHORT_ID_LENGTH = 3;
+const SHORT_ID_PATTERN = /^#?([a-z0-9]{2,8})$/i;
+
+// Deterministic base36 hash (FNV-1a with a final mix, so similar ids such as
+// consecutive timestamps do not get similar short ids)
+const hashId = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0).toString(36).padStart(7, '0');
+};
+
+/**
+ * Picks a short id for `taskId` that is not in `taken`. Collisions retry with a salt
+ * and, after a while, a longer id.
+ */
+export const createShortId = (taskId: string, taken: Set<string>): string => {
+  for (let attempt = 0; ; attempt++) {
+    const length = SHORT_ID_LENGTH + Math.floor(attempt / 20);
+    const candidate = hashId(attempt === 0 ? taskId : `${taskId}:${attempt}`).slice(-length);
+    if (!taken.has(candidate)) return candidate;
+  }
+};
+
+/**
+ * Gives every task without one (or with a duplicate, e.g. from an import) a unique short id.
+ * Tasks that already have a unique id are returned as the same object.
+ */
+export const assignShortIds = (todos: Todo[]): Todo[] => {
+  const taken = new Set<string>();
+  const needsId: number[] = [];
+
+  todos.forEach((todo, index) => {
+    if (todo.shortId && !taken.has(todo.shortId)) {
+      taken.add(todo.shortId);
+    } else {
+      needsId.push(index);
+    }
+  });
+
+  if (needsId.length === 0) return todos;
+
+  const result = [...todos];
+  for (const index of needsId) {
+    const shortId = createShortId(result[index].id, taken);
+    taken.add(shortId);
+    result[index] = { ...result[index], shortId };
+  }
+  return result;
+};
+
+export const formatTaskRef = (todo: Todo): string => (todo.shortId ? `#${todo.shortId}` : '');
+
+export const isShortIdRef = (token: string): boolean => token.startsWith('#') && SHORT_ID_PATTERN.test(token);
+
+/**
+ * The task whose short id is exactly `ref` ("#a3f"), without prefix matching.
+ */
+export const findTaskByShortId = (todos: Todo[], ref: string): Todo | undefined => {
+  const match = ref.match(SHORT_ID_PATTERN);
+  if (!match || !ref.startsWith('#')) return undefined;
+  const shortId = match[1].toLowerCase();
+  return todos.find(todo => todo.shortId === shortId);
+};
+
+/**
+ * Finds the tasks a "#a3f" reference points to: an exact match wins, otherwise
+ * every task whose short id starts with it.
+ */
+export const findTasksByRef = (todos: Todo[], ref: string): Todo[] => {
+  const match = ref.match(SHORT_ID_PATTERN);
+  if (!match) return [];
+  const shortId = match[1].toLowerCase();
+
+  const exact = todos.find(todo => todo.shortId === shortId);
+  if (exact) return [exact];
+  return todos.filter(todo => todo.shortId?.startsWith(shortId));
+};
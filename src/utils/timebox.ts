@@ -0,0 +1,94 @@
+import { Todo, AppSettings } from '../types/shared';
+
+const MINUTE = 60 * 1000;
+
+// Units accepted after a number in chat input, e.g. "30p", "45m", "2h", "1 tiếng"
+const MINUTE_UNITS = ['p', 'ph', 'phút', 'phut', 'm', 'min', 'mins', 'minute', 'minutes'];
+const HOUR_UNITS = ['h', 'g', 'giờ', 'gio', 'tiếng', 'tieng', 'hr', 'hrs', 'hour', 'hours'];
+
+// Words that turn "8h" into a clock time ("8h sáng", "8h mai") rather than a duration
+const TIME_OF_DAY_WORDS = ['sáng', 'trưa', 'chiều', 'tối', 'đêm', 'am', 'pm', 'nay', 'mai', 'mốt', 'hôm', 'ngày', 'thứ', 'today', 'tomorrow'];
+// Words that introduce a clock time ("lúc 8h", "at 5h") rather than a duration
+const CLOCK_PREFIXES = ['lúc', 'luc', 'at', 'trước', 'before', 'by'];
+
+const TIMEBOX_PATTERN = new RegExp(
+  `(^|\\s)(\\d+(?:[.,]\\d+)?)\\s?(${[...HOUR_UNITS, ...MINUTE_UNITS].join('|')})(?:(\\d{1,2})\\s?(?:p|ph|phút|m)?)?(?=\\s|$)`,
+  'gi'
+);
+
+export interface ParsedTimebox {
+  text: string;          // Input with the duration token removed
+  minutes?: number;      // Parsed duration, undefined if none was found
+}
+
+/**
+ * Extracts a timebox duration such as "30p", "2h" or "1h30" from chat input.
+ * Clock times like "8h sáng" or "lúc 8h" are left untouched for the deadline parser.
+ */
+export const parseTimebox = (input: string): ParsedTimebox => {
+  let minutes: number | undefined;
+  let text = input;
+
+  for (const match of input.matchAll(TIMEBOX_PATTERN)) {
+    const [token, leading, amount, unit, extraMinutes] = match;
+    const index = match.index ?? 0;
+    const before = input.substring(0, index).trim().toLowerCase().split(/\s+/).pop() || '';
+    const after = input.substring(index + token.length).trim().toLowerCase().split(/\s+/)[0] || '';
+
+    if (CLOCK_PREFIXES.includes(before) || TIME_OF_DAY_WORDS.includes(after)) {
+      continue;
+    }
+
+    const value = parseFloat(amount.replace(',', '.'));
+    const isHours = HOUR_UNITS.includes(unit.toLowerCase());
+    const total = isHours ? value * 60 + (extraMinutes ? parseInt(extraMinutes, 10) : 0) : value;
+
+    if (total > 0) {
+      minutes = Math.round(total);
+      text = (input.substring(0, index) + leading + input.substring(index + token.length))
+        .replace(/\s{2,}/g, ' ')
+        .trim();
+      break;
+    }
+  }
+
+  return { text, minutes };
+};
+
+/**
+ * Returns the timestamp at which a task expires. An explicit due date always wins,
+ * otherwise the task's own timebox (or the user's default) is counted from creation.
+ * Shared by the popup countdown and the background alarm so both agree.
+ */
+export const getExpiryTime = (todo: Todo, settings: AppSettings, now: number = Date.now()): number => {
+  if (todo.dueDate) {
+    return todo.dueDate;
+  }
+
+  const minutes = todo.timeboxMinutes ?? settings.defaultTimeboxMinutes;
+  return (todo.created || now) + minutes * MINUTE;
+};
+
+export const getRemainingTime = (todo: Todo, settings: AppSettings, now: number = Date.now()): number => {
+  return Math.max(0, getExpiryTime(todo, settings, now) - now);
+};
+
+export const isTaskExpired = (todo: Todo, settings: AppSettings, now: number = Date.now()): boolean => {
+  return now >= getExpiryTime(todo, settings, now);
+};
+
+/**
+ * Formats a duration in milliseconds as a short countdown, e.g. "1h 05m" or "42s".
+ */
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+  return `${seconds}s`;
+};